@@ -1,5 +1,6 @@
 import React from 'react';
 import { Mode } from './types';
+import type { DataToGraphHistoryEntry, GraphToDataHistoryEntry, HistoryEntry, ReopenRequest, ReplotRequest } from './types';
 import ToggleSwitch from './components/ToggleSwitch';
 import DataToGraphPanel from './components/DataToGraphPanel';
 import GraphToDataPanel from './components/GraphToDataPanel';
@@ -8,14 +9,28 @@ import { useTranslation } from './hooks/useTranslation';
 
 const App: React.FC = () => {
   const [mode, setMode] = React.useState<Mode>(Mode.DATA_TO_GRAPH);
+  const [replotRequest, setReplotRequest] = React.useState<ReplotRequest | null>(null);
+  const [reopenRequest, setReopenRequest] = React.useState<ReopenRequest | null>(null);
   const { t } = useTranslation();
 
+  // Hands data extracted from an image over to the Data-to-Graph side and flips the card.
+  const handleReplot = (request: Omit<ReplotRequest, 'id'>) => {
+    setReplotRequest({ ...request, id: Date.now() });
+    setMode(Mode.DATA_TO_GRAPH);
+  };
+
+  // Shows a stored run in the panel that produced it.
+  const handleReopenHistory = (entry: HistoryEntry) => {
+    setReopenRequest({ entry, id: Date.now() });
+    setMode(entry.mode);
+  };
+
   return (
-    <div className="min-h-screen w-full bg-gradient-to-br from-indigo-100 via-purple-100 to-pink-100 font-sans text-gray-800 flex flex-col items-center justify-start p-4 overflow-y-auto relative">
-      <Header />
+    <div className="min-h-screen w-full bg-gradient-to-br from-indigo-100 via-purple-100 to-pink-100 dark:from-slate-950 dark:via-indigo-950 dark:to-slate-900 font-sans text-gray-800 dark:text-slate-200 flex flex-col items-center justify-start p-4 overflow-y-auto relative">
+      <Header onReopenHistory={handleReopenHistory} />
       <header className="my-8 text-center">
-        <h1 className="text-4xl font-bold text-gray-800 tracking-tight">{t('app.title')}</h1>
-        <p className="text-lg text-gray-600 mt-2">{t('app.subtitle')}</p>
+        <h1 className="text-4xl font-bold text-gray-800 dark:text-slate-200 tracking-tight">{t('app.title')}</h1>
+        <p className="text-lg text-gray-600 dark:text-slate-300 mt-2">{t('app.subtitle')}</p>
       </header>
       
       <ToggleSwitch mode={mode} setMode={setMode} />
@@ -26,10 +41,18 @@ const App: React.FC = () => {
           style={{ transformStyle: 'preserve-3d', transform: mode === Mode.DATA_TO_GRAPH ? 'rotateY(0deg)' : 'rotateY(180deg)' }}
         >
           <div className="absolute w-full h-full" style={{ backfaceVisibility: 'hidden' }}>
-            <DataToGraphPanel />
+            <DataToGraphPanel
+              isActive={mode === Mode.DATA_TO_GRAPH}
+              replotRequest={replotRequest}
+              reopenRequest={reopenRequest?.entry.mode === Mode.DATA_TO_GRAPH ? reopenRequest as ReopenRequest<DataToGraphHistoryEntry> : null}
+            />
           </div>
           <div className="absolute w-full h-full" style={{ backfaceVisibility: 'hidden', transform: 'rotateY(180deg)' }}>
-            <GraphToDataPanel />
+            <GraphToDataPanel
+              isActive={mode === Mode.GRAPH_TO_DATA}
+              onReplot={handleReplot}
+              reopenRequest={reopenRequest?.entry.mode === Mode.GRAPH_TO_DATA ? reopenRequest as ReopenRequest<GraphToDataHistoryEntry> : null}
+            />
           </div>
         </div>
       </main>
@@ -0,0 +1,140 @@
+import React, { useState, useRef, useEffect } from 'react';
+import type { ChartRecommendation } from '../types';
+import { buildChartConfig, getChartComponent, isChartLibraryLoaded, normalizeChartType } from '../services/chartConfig';
+import { useTheme } from '../hooks/useTheme';
+
+interface AntdChartProps {
+    recommendation: ChartRecommendation | null;
+    data: any[];
+    height?: number;
+    // Called with the row behind a clicked bar, point or slice.
+    onElementClick?: (datum: any) => void;
+}
+
+// --- Chart Rendering Component with Fallback ---
+const AntdChart: React.FC<AntdChartProps> = ({ recommendation, data, height = 400, onElementClick }) => {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const chartRef = useRef<any>(null);
+    // Kept in a ref so a new handler does not re-create the chart.
+    const clickRef = useRef(onElementClick);
+    clickRef.current = onElementClick;
+    // Field names come from model or user-edited JSON, so they are kept apart from the message and rendered as text.
+    const [error, setError] = useState<{ message: string; fields?: string[] } | null>(null);
+    const [isLibReady, setIsLibReady] = useState(false);
+    const { chartTheme } = useTheme();
+
+    // Effect to check for the charting library
+    useEffect(() => {
+        if (isChartLibraryLoaded()) {
+            setIsLibReady(true);
+            return;
+        }
+
+        const intervalId = setInterval(() => {
+            if (isChartLibraryLoaded()) {
+                setIsLibReady(true);
+                clearInterval(intervalId);
+            }
+        }, 100);
+
+        // Set a timeout to prevent infinite polling
+        const timeoutId = setTimeout(() => {
+            clearInterval(intervalId);
+            if (!isChartLibraryLoaded()) {
+                setError({ message: "Ant Design Charts library could not be loaded. Please check your internet connection and refresh the page." });
+            }
+        }, 5000); // 5-second timeout
+
+        return () => {
+            clearInterval(intervalId);
+            clearTimeout(timeoutId);
+        };
+    }, []);
+
+    // Effect to render the chart once the library and data are ready
+    useEffect(() => {
+        if (!containerRef.current || !isLibReady) return;
+        
+        // Cleanup previous instance
+        if (chartRef.current) {
+            chartRef.current.destroy();
+            chartRef.current = null;
+        }
+        setError(null);
+        containerRef.current.innerHTML = '';
+
+        if (!recommendation || !data || data.length === 0) {
+             return;
+        }
+
+        const { chartType, config: llmConfig } = recommendation;
+        const normalizedChartType = normalizeChartType(chartType);
+        
+        const ChartComponent = getChartComponent(normalizedChartType);
+        if (!ChartComponent) {
+            setError({ message: `Unsupported chart type: "${chartType}". The AI suggested a chart that is not available in the current library version.` });
+            return;
+        }
+
+        // Validation: Check for required data fields
+        const requiredFields: string[] = Array.from(new Set([
+            llmConfig.xField, llmConfig.yField, llmConfig.seriesField, llmConfig.colorField, 
+            llmConfig.angleField, llmConfig.sizeField, llmConfig.percent, llmConfig.taskField,
+            llmConfig.sourceField, llmConfig.targetField, llmConfig.valueField,
+            ...(Array.isArray(llmConfig.yField) ? llmConfig.yField : [])
+        ].filter(Boolean)));
+        
+        if (data.length > 0 && requiredFields.length > 0) {
+            const firstRow = data[0];
+            const missingFields = requiredFields.filter(field => !(field in firstRow));
+            if (missingFields.length > 0) {
+                setError({ message: "Chart Error: The AI's configuration requires data fields not present in your file:", fields: missingFields });
+                return;
+            }
+        }
+        
+        const finalConfig = buildChartConfig(recommendation, data, { height }, chartTheme);
+
+        try {
+            const chart = new ChartComponent(containerRef.current, finalConfig);
+            chart.on?.('element:click', (event: any) => {
+                const datum = event?.data?.data;
+                if (datum) clickRef.current?.(datum);
+            });
+            chart.render();
+            chartRef.current = chart;
+        } catch (err) {
+            console.error("Ant Design Chart rendering failed:", err);
+            setError({ message: `Chart rendering failed. The AI might have provided an invalid configuration for a '${chartType}' chart. Check console for details.` });
+        }
+
+        return () => {
+            if (chartRef.current) {
+                chartRef.current.destroy();
+                chartRef.current = null;
+            }
+        };
+    }, [recommendation, data, height, isLibReady, chartTheme]);
+
+    // The container stays mounted while an error or the loading message is shown over it, so the render effect
+    // always has a target and a later valid config replaces the error.
+    return (
+        <div className="relative" style={{ height: `${height}px` }}>
+            <div ref={containerRef} className={error ? 'invisible' : ''} style={{ height: `${height}px` }} />
+            {error ? (
+                <div className="absolute inset-0 flex items-center justify-center text-red-500 font-semibold p-4 text-center">
+                    <p>
+                        {error.message}
+                        {error.fields && <> <strong>{error.fields.join(', ')}</strong>.</>}
+                    </p>
+                </div>
+            ) : !isLibReady && (
+                <div className="absolute inset-0 flex items-center justify-center text-gray-500 dark:text-slate-400 font-semibold p-4 text-center">
+                    Loading charting library...
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default AntdChart;
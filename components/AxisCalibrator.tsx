@@ -0,0 +1,313 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import type { ExtractedDataSeries } from '../types';
+import {
+  FULL_AREA, aiMarkers, axisIssue, colorAt, compareReadings, readPoints, readingsToSeries, traceBars, traceLine,
+} from '../services/axisCalibration';
+import type { AxisCalibration, AxisScale, ImageArea, ImagePoint } from '../services/axisCalibration';
+import { columnLabel } from '../services/dataSeries';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface AxisCalibratorProps {
+  // The image the model read, so its values and the clicked ones refer to the same picture.
+  imageSrc: string;
+  series: ExtractedDataSeries | null;
+  onApply: (series: ExtractedDataSeries) => void;
+}
+
+type Tool = 'x1' | 'x2' | 'y1' | 'y2' | 'point' | 'color' | 'area';
+type TickDraft = { position: number | null; value: string };
+
+const TICK_TOOLS: Tool[] = ['x1', 'x2', 'y1', 'y2'];
+// Drawn areas smaller than this fraction of the image are treated as stray clicks.
+const MIN_AREA_SIZE = 0.03;
+
+// A calibration from the clicked ticks, or null while a tick is missing.
+const toCalibration = (scale: AxisScale, ticks: TickDraft[]): AxisCalibration | null => {
+  if (ticks.some(tick => tick.position === null || tick.value.trim() === '' || !Number.isFinite(Number(tick.value)))) return null;
+  return { scale, ticks: [0, 1].map(i => ({ position: ticks[i].position!, value: Number(ticks[i].value) })) as AxisCalibration['ticks'] };
+};
+
+const AxisCalibrator: React.FC<AxisCalibratorProps> = ({ imageSrc, series, onApply }) => {
+  const { t } = useTranslation();
+  const [pixels, setPixels] = useState<ImageData | null>(null);
+  const [xScale, setXScale] = useState<AxisScale>('linear');
+  const [yScale, setYScale] = useState<AxisScale>('linear');
+  // Category axes (most bar charts) need no X calibration; categories come from the model's first column.
+  const [xCategorical, setXCategorical] = useState(() => !!series && series.rows.some(row => typeof row[0] === 'string'));
+  const [tool, setTool] = useState<Tool>(xCategorical ? 'y1' : 'x1');
+  const [xTicks, setXTicks] = useState<TickDraft[]>([{ position: null, value: '' }, { position: null, value: '' }]);
+  const [yTicks, setYTicks] = useState<TickDraft[]>([{ position: null, value: '' }, { position: null, value: '' }]);
+  const [points, setPoints] = useState<ImagePoint[]>([]);
+  const [color, setColor] = useState<[number, number, number] | null>(null);
+  const [area, setArea] = useState<ImageArea | null>(null);
+  const [draftArea, setDraftArea] = useState<ImageArea | null>(null);
+  const [yColumn, setYColumn] = useState(1);
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const dragStartRef = useRef<ImagePoint | null>(null);
+
+  // Pixels at full resolution, for colour picking and tracing.
+  useEffect(() => {
+    let cancelled = false;
+    const image = new Image();
+    image.onload = () => {
+      if (cancelled) return;
+      const canvas = document.createElement('canvas');
+      canvas.width = image.naturalWidth;
+      canvas.height = image.naturalHeight;
+      const ctx = canvas.getContext('2d')!;
+      ctx.drawImage(image, 0, 0);
+      setPixels(ctx.getImageData(0, 0, canvas.width, canvas.height));
+    };
+    image.src = imageSrc;
+    return () => { cancelled = true; };
+  }, [imageSrc]);
+
+  const xAxis = useMemo(() => (xCategorical ? null : toCalibration(xScale, xTicks)), [xCategorical, xScale, xTicks]);
+  const yAxis = useMemo(() => toCalibration(yScale, yTicks), [yScale, yTicks]);
+  const xIssue = xAxis && axisIssue(xAxis);
+  const yIssue = yAxis && axisIssue(yAxis);
+  const usableX = xAxis && !xIssue ? xAxis : null;
+  const usableY = yAxis && !yIssue ? yAxis : null;
+  const ready = !!usableY && (xCategorical || !!usableX);
+
+  const readings = useMemo(
+    () => (ready ? readPoints(points, usableX, usableY!, series) : []),
+    [ready, points, usableX, usableY, series]
+  );
+  const markers = useMemo(
+    () => (ready && series ? aiMarkers(series, yColumn, usableX, usableY!, readings, area || FULL_AREA) : []),
+    [ready, series, yColumn, usableX, usableY, readings, area]
+  );
+  const comparison = useMemo(() => compareReadings(readings, markers), [readings, markers]);
+
+  const pointerPosition = (e: React.PointerEvent) => {
+    const rect = overlayRef.current!.getBoundingClientRect();
+    return {
+      x: Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)),
+      y: Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height)),
+    };
+  };
+
+  const setTick = (which: Tool, position: ImagePoint) => {
+    const index = which.endsWith('1') ? 0 : 1;
+    const update = (ticks: TickDraft[]) => ticks.map((tick, i) => (i === index ? { ...tick, position: which.startsWith('x') ? position.x : position.y } : tick));
+    if (which.startsWith('x')) setXTicks(update);
+    else setYTicks(update);
+    // Move on to the next missing tick, then to placing points.
+    const next = TICK_TOOLS.slice(TICK_TOOLS.indexOf(which) + 1).find(candidate => !(xCategorical && candidate.startsWith('x')));
+    setTool(next || 'point');
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (e.target !== overlayRef.current) return;
+    const position = pointerPosition(e);
+    if (tool === 'area') {
+      e.currentTarget.setPointerCapture(e.pointerId);
+      dragStartRef.current = position;
+    } else if (tool === 'point') {
+      setPoints(prev => [...prev, position]);
+    } else if (tool === 'color') {
+      if (pixels) setColor(colorAt(pixels, position));
+    } else {
+      setTick(tool, position);
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const start = dragStartRef.current;
+    if (!start) return;
+    const point = pointerPosition(e);
+    setDraftArea({ x: Math.min(start.x, point.x), y: Math.min(start.y, point.y), width: Math.abs(point.x - start.x), height: Math.abs(point.y - start.y) });
+  };
+
+  const handlePointerUp = () => {
+    dragStartRef.current = null;
+    if (draftArea && draftArea.width >= MIN_AREA_SIZE && draftArea.height >= MIN_AREA_SIZE) setArea(draftArea);
+    setDraftArea(null);
+  };
+
+  const trace = (kind: 'line' | 'bars') => {
+    if (!pixels || !color) return;
+    setPoints(kind === 'line' ? traceLine(pixels, color, area || FULL_AREA) : traceBars(pixels, color, area || FULL_AREA));
+  };
+
+  const handleApply = () => {
+    if (readings.length === 0) return;
+    onApply(readingsToSeries(readings, series, yColumn, 'line'));
+  };
+
+  const shownArea = draftArea || area;
+  const numericColumns = series ? series.columns.map((column, i) => ({ column, i })).filter(({ i }) => i > 0) : [];
+  const toolButton = (value: Tool, label: string, disabled = false) => (
+    <button
+      key={value}
+      onClick={() => setTool(value)}
+      disabled={disabled}
+      className={`px-2 py-1 text-xs font-semibold rounded-lg border transition-colors disabled:opacity-40 ${tool === value ? 'bg-purple-500 text-white border-purple-500' : 'text-purple-600 border-purple-300 hover:bg-purple-50 dark:hover:bg-indigo-400/15'}`}
+    >
+      {label}
+    </button>
+  );
+  const inputClass = "w-20 px-2 py-1 text-xs border border-gray-300 dark:border-slate-700 rounded-lg bg-white dark:bg-slate-800/90 focus:outline-none focus:ring-2 focus:ring-purple-400";
+  const smallButton = "px-2 py-1 text-xs font-semibold text-purple-600 border border-purple-300 rounded-lg hover:bg-purple-50 dark:hover:bg-indigo-400/15 transition-colors disabled:opacity-40";
+  const formatDifference = (difference: number | null) => (difference === null ? '—' : `${difference > 0 ? '+' : ''}${(difference * 100).toFixed(1)}%`);
+
+  const tickInputs = (axis: 'x' | 'y', ticks: TickDraft[], setTicks: (ticks: TickDraft[]) => void, scale: AxisScale, setScale: (scale: AxisScale) => void, issue: string | null) => (
+    <div className="flex flex-col gap-1">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="font-semibold text-gray-600 dark:text-slate-300 w-14">{t(`calibration.${axis}Axis`)}</span>
+        <select value={scale} onChange={e => setScale(e.target.value as AxisScale)} className={inputClass}>
+          <option value="linear">{t('calibration.linear')}</option>
+          <option value="log">{t('calibration.log')}</option>
+        </select>
+        {ticks.map((tick, i) => (
+          <span key={i} className="flex items-center gap-1">
+            {toolButton(`${axis}${i + 1}` as Tool, `${axis.toUpperCase()}${i + 1}${tick.position === null ? '' : ' ✓'}`)}
+            <input
+              type="number"
+              value={tick.value}
+              placeholder={t('calibration.value')}
+              onChange={e => setTicks(ticks.map((other, j) => (j === i ? { ...other, value: e.target.value } : other)))}
+              className={inputClass}
+            />
+          </span>
+        ))}
+      </div>
+      {issue && <span className="text-xs text-red-600">{t(`calibration.issues.${issue}`)}</span>}
+    </div>
+  );
+
+  const tickLine = (axis: 'x' | 'y', tick: TickDraft, i: number) => {
+    if (tick.position === null) return null;
+    const style = axis === 'x' ? { left: `${tick.position * 100}%`, top: 0, bottom: 0, width: 0 } : { top: `${tick.position * 100}%`, left: 0, right: 0, height: 0 };
+    return (
+      <div key={`${axis}${i}`} className={`absolute pointer-events-none border-dashed border-blue-500 ${axis === 'x' ? 'border-l-2' : 'border-t-2'}`} style={style}>
+        <span className="absolute px-1 text-[10px] font-semibold text-white bg-blue-500 rounded whitespace-nowrap">{axis.toUpperCase()}{i + 1}: {tick.value || '?'}</span>
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-white/50 dark:bg-slate-800/50 rounded-xl p-4 border border-gray-200 dark:border-slate-700 flex flex-col gap-3">
+      <div>
+        <h3 className="font-semibold text-gray-700 dark:text-slate-200">{t('calibration.title')}</h3>
+        <p className="text-xs text-gray-500 dark:text-slate-400">{t(`calibration.hints.${tool}`)}</p>
+      </div>
+
+      <div className="flex flex-col gap-2 text-sm">
+        <label className="flex items-center gap-2 text-xs text-gray-700 dark:text-slate-200">
+          <input
+            type="checkbox"
+            checked={xCategorical}
+            onChange={e => {
+              setXCategorical(e.target.checked);
+              if (e.target.checked && tool.startsWith('x')) setTool('y1');
+            }}
+          />
+          {t('calibration.xCategorical')}
+        </label>
+        {!xCategorical && tickInputs('x', xTicks, setXTicks, xScale, setXScale, xIssue)}
+        {tickInputs('y', yTicks, setYTicks, yScale, setYScale, yIssue)}
+        <div className="flex flex-wrap items-center gap-2">
+          {toolButton('point', t('calibration.tools.point'), !ready)}
+          {toolButton('color', t('calibration.tools.color'))}
+          {toolButton('area', t('calibration.tools.area'))}
+          {color && <span className="w-5 h-5 rounded border border-gray-300 dark:border-slate-700" style={{ backgroundColor: `rgb(${color.join(',')})` }} title={t('calibration.seriesColor')} />}
+          <button onClick={() => trace('line')} disabled={!color || !pixels} className={smallButton}>{t('calibration.traceLine')}</button>
+          <button onClick={() => trace('bars')} disabled={!color || !pixels} className={smallButton}>{t('calibration.traceBars')}</button>
+          {area && <button onClick={() => setArea(null)} className={smallButton}>{t('calibration.clearArea')}</button>}
+          <button onClick={() => setPoints([])} disabled={points.length === 0} className={smallButton}>{t('calibration.clearPoints')}</button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <div className="flex justify-center">
+          <div className="relative inline-block select-none">
+            <img src={imageSrc} alt={t('graphToData.previewAlt')} className="max-h-[60vh] rounded shadow-md" draggable={false} />
+            <div
+              ref={overlayRef}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              className="absolute inset-0 cursor-crosshair"
+            >
+              {!xCategorical && xTicks.map((tick, i) => tickLine('x', tick, i))}
+              {yTicks.map((tick, i) => tickLine('y', tick, i))}
+              {shownArea && (
+                <div
+                  className="absolute pointer-events-none border-2 border-dashed border-gray-500"
+                  style={{ left: `${shownArea.x * 100}%`, top: `${shownArea.y * 100}%`, width: `${shownArea.width * 100}%`, height: `${shownArea.height * 100}%` }}
+                />
+              )}
+              {markers.map((marker, i) => (
+                <span
+                  key={`ai${i}`}
+                  className="absolute w-3 h-3 -ml-1.5 -mt-1.5 rounded-full border-2 border-pink-500 pointer-events-none"
+                  style={{ left: `${marker.point.x * 100}%`, top: `${marker.point.y * 100}%` }}
+                />
+              ))}
+              {points.map((point, i) => (
+                <button
+                  key={i}
+                  onClick={() => setPoints(prev => prev.filter((_, j) => j !== i))}
+                  className="absolute w-2.5 h-2.5 -ml-[5px] -mt-[5px] rounded-full bg-green-500 border border-white dark:border-slate-700 hover:bg-red-500"
+                  style={{ left: `${point.x * 100}%`, top: `${point.y * 100}%` }}
+                  title={t('calibration.removePoint')}
+                />
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex flex-col gap-2 text-sm">
+          <div className="flex flex-wrap items-center gap-3 text-xs text-gray-600 dark:text-slate-300">
+            <span className="flex items-center gap-1"><span className="w-2.5 h-2.5 rounded-full bg-green-500" />{t('calibration.legendCalibrated')}</span>
+            <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-full border-2 border-pink-500" />{t('calibration.legendAi')}</span>
+            {numericColumns.length > 1 && (
+              <select value={yColumn} onChange={e => setYColumn(Number(e.target.value))} className={inputClass + ' w-auto'}>
+                {numericColumns.map(({ column, i }) => <option key={i} value={i}>{columnLabel(column)}</option>)}
+              </select>
+            )}
+          </div>
+          {comparison.length === 0 ? (
+            <p className="text-xs text-gray-500 dark:text-slate-400">{ready ? t('calibration.noPoints') : t('calibration.notReady')}</p>
+          ) : (
+            <div className="max-h-72 overflow-y-auto border border-gray-200 dark:border-slate-700 rounded-lg">
+              <table className="w-full text-xs">
+                <thead className="bg-gray-50 dark:bg-slate-700/50 text-gray-600 dark:text-slate-300 sticky top-0">
+                  <tr>
+                    <th className="px-2 py-1 text-left">X</th>
+                    <th className="px-2 py-1 text-right">{t('calibration.calibrated')}</th>
+                    <th className="px-2 py-1 text-right">{t('calibration.ai')}</th>
+                    <th className="px-2 py-1 text-right">Δ</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {comparison.map((row, i) => (
+                    <tr key={i} className="border-t border-gray-100 dark:border-slate-700">
+                      <td className="px-2 py-1">{row.x === null ? '' : String(row.x)}</td>
+                      <td className="px-2 py-1 text-right">{row.calibrated}</td>
+                      <td className="px-2 py-1 text-right">{row.ai ?? '—'}</td>
+                      <td className={`px-2 py-1 text-right ${row.difference !== null && Math.abs(row.difference) > 0.05 ? 'text-red-600 font-semibold' : 'text-gray-600 dark:text-slate-300'}`}>
+                        {formatDifference(row.difference)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+          <button
+            onClick={handleApply}
+            disabled={readings.length === 0}
+            className="self-start px-4 py-1.5 text-sm font-semibold text-white bg-gradient-to-br from-purple-500 to-pink-500 rounded-lg shadow hover:shadow-md transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {t('calibration.apply', { count: String(readings.length) })}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AxisCalibrator;
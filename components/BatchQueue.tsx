@@ -0,0 +1,232 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Mode } from '../types';
+import type { ExtractedDataSeries, GraphToDataHistoryEntry } from '../types';
+import { analyzeGraphImage } from '../services/aiService';
+import { promptLanguage } from '../services/promptTemplates';
+import { combineSeries } from '../services/dataSeries';
+import { exportSeriesAsCsv, exportSeriesAsJson, exportSeriesAsXlsx } from '../services/exportService';
+import { describeError, isAbortError } from '../services/errors';
+import { createHistoryId, createRunMetadata, fingerprintBlob, recordHistoryEntry } from '../services/historyStore';
+import { blobToBase64 } from '../services/imageInput';
+import { DEFAULT_ADJUSTMENTS, prepareImage } from '../services/imageProcessing';
+import { getProvider } from '../services/providers';
+import { providerLimiter } from '../services/requestQueue';
+import { useTranslation } from '../hooks/useTranslation';
+import { useModel } from '../hooks/useModel';
+import { usePromptTemplates } from '../hooks/usePromptTemplates';
+
+type BatchJobStatus = 'queued' | 'running' | 'done' | 'failed';
+
+export interface BatchResult {
+  sourceName: string;
+  report: string;
+  series: ExtractedDataSeries | null;
+  imageSrc: string;
+}
+
+// One image to extract. Regions cropped from a PDF carry the document and page they came from.
+export interface BatchInput {
+  file: File;
+  name: string;
+  source?: { document: string; pageNumber: number };
+}
+
+interface BatchJob extends BatchInput {
+  id: number;
+  previewUrl: string;
+  status: BatchJobStatus;
+  result?: BatchResult;
+  error?: { message: string; details: string[] };
+}
+
+interface BatchQueueProps {
+  inputs: BatchInput[];
+  // Shows one image's result in the panel's result view.
+  onOpen: (result: BatchResult) => void;
+}
+
+const STATUS_CLASSES: { [status in BatchJobStatus]: string } = {
+  queued: 'bg-gray-100 dark:bg-slate-700/50 text-gray-600 dark:text-slate-300',
+  running: 'bg-purple-100 text-purple-700 animate-pulse',
+  done: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700',
+};
+
+const BatchQueue: React.FC<BatchQueueProps> = ({ inputs, onOpen }) => {
+  const { t, language } = useTranslation();
+  const { modelConfig } = useModel();
+  const { getPrompt } = usePromptTemplates();
+  const [jobs, setJobs] = useState<BatchJob[]>([]);
+  const [expandedError, setExpandedError] = useState<number | null>(null);
+  // Whether a run is in progress, so queued jobs are waiting for a slot rather than for Start.
+  const [isStarted, setIsStarted] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    const created = inputs.map((input, i) => ({ ...input, id: i, previewUrl: URL.createObjectURL(input.file), status: 'queued' as const }));
+    setJobs(created);
+    setIsStarted(false);
+    return () => {
+      abortRef.current?.abort();
+      abortRef.current = null;
+      created.forEach(job => URL.revokeObjectURL(job.previewUrl));
+    };
+  }, [inputs]);
+
+  const updateJob = (id: number, changes: Partial<BatchJob>) =>
+    setJobs(prev => prev.map(job => (job.id === id ? { ...job, ...changes } : job)));
+
+  const extract = async (job: BatchJob, signal: AbortSignal): Promise<BatchResult> => {
+    const config = modelConfig.graphToData;
+    const prompt = getPrompt('graphToData');
+    // Batch images are not adjusted individually, but are still fitted to the provider's size limits.
+    const prepared = await prepareImage(job.file, DEFAULT_ADJUSTMENTS, getProvider(config.provider).imageLimits);
+    const [base64Image, fingerprint] = await Promise.all([blobToBase64(prepared.blob), fingerprintBlob(job.file)]);
+    const result = await analyzeGraphImage(base64Image, prepared.blob.type, config, {
+      signal,
+      promptTemplate: prompt.text,
+      language: promptLanguage(language),
+      fileName: job.name,
+    });
+    if (!result.isChart) throw new Error(result.reason || t('errors.notAGraph'));
+
+    const imageSrc = `data:${prepared.blob.type};base64,${base64Image}`;
+    const report = job.source
+      ? `${t('pdf.reportSource', { document: job.source.document, page: String(job.source.pageNumber) })}\n\n${result.report || ''}`
+      : result.report || '';
+    const entry: GraphToDataHistoryEntry = {
+      ...(await createRunMetadata(config, prompt, fingerprint, job.name)),
+      id: createHistoryId(),
+      name: job.name,
+      createdAt: Date.now(),
+      mode: Mode.GRAPH_TO_DATA,
+      report,
+      series: result.data || null,
+      imageSrc,
+    };
+    recordHistoryEntry(entry);
+    return { sourceName: job.name, report, series: entry.series, imageSrc };
+  };
+
+  // Queues the given jobs behind the provider's concurrency limit; they run as slots free up.
+  const run = (selected: BatchJob[]) => {
+    if (selected.length === 0) return;
+    const controller = abortRef.current && !abortRef.current.signal.aborted ? abortRef.current : new AbortController();
+    abortRef.current = controller;
+    setIsStarted(true);
+    const limit = providerLimiter(modelConfig.graphToData.provider);
+
+    selected.forEach(job => {
+      updateJob(job.id, { status: 'queued', error: undefined });
+      limit(async () => {
+        updateJob(job.id, { status: 'running' });
+        return extract(job, controller.signal);
+      }, controller.signal)
+        .then(result => {
+          if (!controller.signal.aborted) updateJob(job.id, { status: 'done', result });
+        })
+        .catch(err => {
+          if (isAbortError(err) || controller.signal.aborted) {
+            updateJob(job.id, { status: 'queued' });
+          } else {
+            updateJob(job.id, { status: 'failed', error: describeError(err, t) });
+          }
+        });
+    });
+  };
+
+  const handleCancel = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setIsStarted(false);
+  };
+
+  const counts = jobs.reduce((acc, job) => ({ ...acc, [job.status]: acc[job.status] + 1 }), { queued: 0, running: 0, done: 0, failed: 0 });
+  const isRunning = jobs.some(job => job.status === 'running') || (counts.queued > 0 && isStarted);
+  const withData = jobs.filter(job => job.result?.series && job.result.series.rows.length > 0);
+  const combined = () => combineSeries(withData.map(job => ({ sourceName: job.result!.sourceName, series: job.result!.series! })));
+  const buttonClass = "px-3 py-1.5 text-sm font-semibold text-purple-600 border border-purple-300 rounded-lg hover:bg-purple-50 dark:hover:bg-indigo-400/15 transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+  return (
+    <div className="bg-white/50 dark:bg-slate-800/50 rounded-xl p-4 border border-gray-200 dark:border-slate-700 flex flex-col gap-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <h3 className="font-semibold text-gray-700 dark:text-slate-200">{t('batch.title', { count: String(jobs.length) })}</h3>
+          <p className="text-xs text-gray-500 dark:text-slate-400">
+            {t('batch.summary', { done: String(counts.done), failed: String(counts.failed), total: String(jobs.length) })}
+            {' · '}
+            {t('batch.concurrency', { count: String(getProvider(modelConfig.graphToData.provider).maxConcurrentRequests) })}
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          {isRunning ? (
+            <button onClick={handleCancel} className="px-4 py-1.5 text-sm font-semibold text-gray-600 dark:text-slate-300 border border-gray-300 dark:border-slate-700 rounded-lg hover:bg-gray-100 dark:hover:bg-slate-600/60 transition-colors">
+              {t('batch.cancel')}
+            </button>
+          ) : (
+            <button
+              onClick={() => run(jobs.filter(job => job.status === 'queued'))}
+              disabled={counts.queued === 0}
+              className="px-4 py-1.5 text-sm font-semibold text-white bg-gradient-to-br from-purple-500 to-pink-500 rounded-lg shadow hover:shadow-md transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              🔎 {t('batch.start')}
+            </button>
+          )}
+          <button onClick={() => run(jobs.filter(job => job.status === 'failed'))} disabled={counts.failed === 0} className={buttonClass}>
+            {t('batch.retryFailed')}
+          </button>
+        </div>
+      </div>
+
+      <div className="w-full h-2 bg-gray-200 dark:bg-slate-700/50 rounded-full overflow-hidden">
+        <div className="h-full bg-purple-500 transition-all" style={{ width: `${jobs.length ? ((counts.done + counts.failed) / jobs.length) * 100 : 0}%` }} />
+      </div>
+
+      <ul className="flex flex-col divide-y divide-gray-200 dark:divide-slate-700 max-h-96 overflow-y-auto">
+        {jobs.map(job => (
+          <li key={job.id} className="flex flex-col gap-1 py-2">
+            <div className="flex items-center gap-3">
+              <img src={job.previewUrl} alt="" className="w-12 h-12 object-cover rounded-md shadow-sm flex-shrink-0" />
+              <div className="flex-grow min-w-0">
+                <p className="text-sm text-gray-700 dark:text-slate-200 truncate">{job.name}</p>
+                {job.status === 'done' && (
+                  <p className="text-xs text-gray-500 dark:text-slate-400">{t('batch.rows', { count: String(job.result?.series?.rows.length ?? 0) })}</p>
+                )}
+                {job.status === 'failed' && job.error && (
+                  <button onClick={() => setExpandedError(expandedError === job.id ? null : job.id)} className="text-xs text-red-600 text-left truncate max-w-full hover:underline">
+                    {job.error.message}
+                  </button>
+                )}
+              </div>
+              <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${STATUS_CLASSES[job.status]}`}>{t(`batch.status.${job.status}`)}</span>
+              {job.status === 'done' && job.result && (
+                <button onClick={() => onOpen(job.result!)} className="text-sm text-purple-600 hover:underline">{t('batch.open')}</button>
+              )}
+              {job.status === 'failed' && (
+                <button onClick={() => run([job])} className="text-sm text-purple-600 hover:underline">{t('batch.retry')}</button>
+              )}
+            </div>
+            {expandedError === job.id && job.error && job.error.details.length > 0 && (
+              <ul className="ml-16 text-xs text-red-600 list-disc pl-4">
+                {job.error.details.map((detail, i) => <li key={i}>{detail}</li>)}
+              </ul>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex flex-wrap items-center justify-center gap-2 pt-2 border-t border-gray-200 dark:border-slate-700">
+        <span className="text-sm text-gray-600 dark:text-slate-300">{t('batch.combinedExport', { count: String(withData.length) })}</span>
+        {[
+          { label: 'CSV', onClick: () => exportSeriesAsCsv(combined(), 'batch-extracted-data') },
+          { label: 'JSON', onClick: () => exportSeriesAsJson(combined(), 'batch-extracted-data') },
+          { label: 'XLSX', onClick: () => exportSeriesAsXlsx(combined(), 'batch-extracted-data') },
+        ].map(({ label, onClick }) => (
+          <button key={label} onClick={onClick} disabled={withData.length === 0} className={buttonClass}>{label}</button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default BatchQueue;
@@ -0,0 +1,126 @@
+import React from 'react';
+import type { ChartRecommendation } from '../types';
+import { CHART_TEMPLATES, componentNameMapping, normalizeChartType } from '../services/chartConfig';
+import { useTranslation } from '../hooks/useTranslation';
+
+// Which config keys map data fields for each chart type. Types not listed fall back to the cartesian set.
+const FIELD_ROLES: { [chartType: string]: string[] } = {
+  pie: ['angleField', 'colorField'],
+  rose: ['xField', 'yField', 'seriesField'],
+  scatter: ['xField', 'yField', 'colorField', 'sizeField'],
+  heatmap: ['xField', 'yField', 'colorField'],
+  sankey: ['sourceField', 'targetField', 'weightField'],
+  liquid: ['percent'],
+  bullet: ['measureField', 'rangeField', 'targetField', 'xField'],
+  waterfall: ['xField', 'yField'],
+  gantt: ['taskField', 'xField', 'yField'],
+};
+const DEFAULT_FIELD_ROLES = ['xField', 'yField', 'seriesField'];
+
+const STACKABLE = ['column', 'bar', 'area'];
+const SMOOTHABLE = ['line', 'area'];
+
+interface ChartConfigEditorProps {
+  recommendation: ChartRecommendation;
+  fields: string[];
+  onChange: (recommendation: ChartRecommendation) => void;
+  onReset?: () => void;
+}
+
+const ChartConfigEditor: React.FC<ChartConfigEditorProps> = ({ recommendation, fields, onChange, onReset }) => {
+  const { t } = useTranslation();
+  const chartType = normalizeChartType(recommendation.chartType);
+  const config = recommendation.config || {};
+  const roles = FIELD_ROLES[chartType] || DEFAULT_FIELD_ROLES;
+
+  const updateConfig = (changes: { [key: string]: any }) => {
+    const next = { ...config, ...changes };
+    Object.keys(changes).forEach(key => {
+      if (changes[key] === undefined) delete next[key];
+    });
+    onChange({ ...recommendation, config: next });
+  };
+
+  const handleTypeChange = (newType: string) => {
+    // Carry mapped fields over where the new type uses the same roles; the pie's angle/color pair maps onto y/x.
+    const newRoles = FIELD_ROLES[newType] || DEFAULT_FIELD_ROLES;
+    const carried: { [key: string]: any } = {};
+    for (const role of newRoles) {
+      if (config[role] !== undefined) carried[role] = config[role];
+    }
+    if (newType === 'pie') {
+      carried.angleField ??= config.yField;
+      carried.colorField ??= config.seriesField ?? config.xField;
+    } else if (chartType === 'pie') {
+      carried.xField ??= config.colorField;
+      carried.yField ??= config.angleField;
+    }
+    const styling = Object.fromEntries(['label', 'isStack', 'smooth'].filter(key => key in config).map(key => [key, config[key]]));
+    onChange({ ...recommendation, chartType: newType, config: { ...carried, ...styling } });
+  };
+
+  const labelsOn = config.label !== undefined ? config.label !== false : !!CHART_TEMPLATES[chartType]?.label;
+  const toggleClass = "flex items-center gap-2 text-sm text-gray-700 dark:text-slate-200 cursor-pointer";
+
+  return (
+    <div className="bg-white/60 dark:bg-slate-800/50 rounded-xl p-4 flex flex-col gap-3">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold text-gray-700 dark:text-slate-200">{t('chartEditor.title')}</h3>
+        {onReset && (
+          <button onClick={onReset} className="text-xs text-gray-500 dark:text-slate-400 hover:text-indigo-600 hover:underline">
+            {t('chartEditor.reset')}
+          </button>
+        )}
+      </div>
+
+      <label className="flex flex-col gap-1 text-sm">
+        <span className="font-medium text-gray-600 dark:text-slate-300">{t('chartEditor.chartType')}</span>
+        <select
+          value={chartType}
+          onChange={e => handleTypeChange(e.target.value)}
+          className="px-2 py-1.5 border border-gray-300 dark:border-slate-700 rounded-lg bg-white dark:bg-slate-800/90 focus:outline-none focus:ring-2 focus:ring-indigo-400"
+        >
+          {!componentNameMapping[chartType] && <option value={chartType}>{recommendation.chartType}</option>}
+          {Object.entries(componentNameMapping).map(([type, name]) => (
+            <option key={type} value={type}>{name}</option>
+          ))}
+        </select>
+      </label>
+
+      {roles.map(role => (
+        <label key={role} className="flex flex-col gap-1 text-sm">
+          <span className="font-medium text-gray-600 dark:text-slate-300">{t(`chartEditor.fields.${role}`)}</span>
+          <select
+            value={typeof config[role] === 'string' ? config[role] : ''}
+            onChange={e => updateConfig({ [role]: e.target.value || undefined })}
+            className="px-2 py-1.5 border border-gray-300 dark:border-slate-700 rounded-lg bg-white dark:bg-slate-800/90 focus:outline-none focus:ring-2 focus:ring-indigo-400"
+          >
+            <option value="">{t('chartEditor.none')}</option>
+            {fields.map(field => <option key={field} value={field}>{field}</option>)}
+          </select>
+        </label>
+      ))}
+
+      <div className="flex flex-col gap-2 pt-2 border-t border-gray-200 dark:border-slate-700">
+        {STACKABLE.includes(chartType) && (
+          <label className={toggleClass}>
+            <input type="checkbox" checked={!!config.isStack} onChange={e => updateConfig({ isStack: e.target.checked || undefined, isGroup: e.target.checked ? undefined : config.isGroup })} />
+            {t('chartEditor.stack')}
+          </label>
+        )}
+        {SMOOTHABLE.includes(chartType) && (
+          <label className={toggleClass}>
+            <input type="checkbox" checked={config.smooth ?? CHART_TEMPLATES[chartType]?.smooth ?? false} onChange={e => updateConfig({ smooth: e.target.checked })} />
+            {t('chartEditor.smooth')}
+          </label>
+        )}
+        <label className={toggleClass}>
+          <input type="checkbox" checked={labelsOn} onChange={e => updateConfig({ label: e.target.checked ? (CHART_TEMPLATES[chartType]?.label ?? {}) : false })} />
+          {t('chartEditor.labels')}
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default ChartConfigEditor;
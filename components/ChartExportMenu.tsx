@@ -0,0 +1,70 @@
+import React, { useState } from 'react';
+import type { ChartRecommendation } from '../types';
+import { exportChartAsHtml, exportChartAsPng, exportChartAsSvg } from '../services/chartExport';
+import { useTranslation } from '../hooks/useTranslation';
+import { useTheme } from '../hooks/useTheme';
+
+const DPI_OPTIONS = [96, 150, 300];
+
+interface ChartExportMenuProps {
+  recommendation: ChartRecommendation;
+  data: any[];
+}
+
+const ChartExportMenu: React.FC<ChartExportMenuProps> = ({ recommendation, data }) => {
+  const [dpi, setDpi] = useState(150);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { t } = useTranslation();
+  const { chartTheme } = useTheme();
+
+  const runExport = async (exporter: () => Promise<void> | void) => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      await exporter();
+    } catch (err) {
+      console.error("Chart export failed:", err);
+      setError(err instanceof Error ? err.message : t('errors.unknown'));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const buttonClass = "px-3 py-1.5 text-sm font-semibold text-indigo-600 border border-indigo-300 rounded-lg hover:bg-indigo-50 dark:hover:bg-indigo-400/15 transition-colors disabled:opacity-50";
+
+  return (
+    <div className="flex flex-col items-center gap-1">
+      <div className="flex flex-wrap items-center justify-center gap-2">
+        <span className="text-sm text-gray-600 dark:text-slate-300">{t('chartExport.title')}</span>
+        <div className="flex items-center">
+          <button
+            onClick={() => runExport(() => exportChartAsPng(recommendation, data, dpi, chartTheme.colors))}
+            disabled={isExporting}
+            className={`${buttonClass} rounded-r-none`}
+          >
+            PNG
+          </button>
+          <select
+            value={dpi}
+            onChange={e => setDpi(Number(e.target.value))}
+            disabled={isExporting}
+            className="px-2 py-1.5 text-sm border border-l-0 border-indigo-300 rounded-r-lg bg-white dark:bg-slate-800/90 text-gray-700 dark:text-slate-200 focus:outline-none"
+            aria-label={t('chartExport.dpi')}
+          >
+            {DPI_OPTIONS.map(option => <option key={option} value={option}>{option} DPI</option>)}
+          </select>
+        </div>
+        <button onClick={() => runExport(() => exportChartAsSvg(recommendation, data, chartTheme.colors))} disabled={isExporting} className={buttonClass}>
+          SVG
+        </button>
+        <button onClick={() => runExport(() => exportChartAsHtml(recommendation, data, chartTheme.colors))} disabled={isExporting} className={buttonClass}>
+          HTML
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+export default ChartExportMenu;
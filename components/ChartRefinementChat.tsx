@@ -0,0 +1,144 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { ChartRecommendation, DataProfile } from '../types';
+import { refineChartRecommendation } from '../services/aiService';
+import type { RefinementTurn } from '../services/aiService';
+import { describeError, isAbortError } from '../services/errors';
+import { useTranslation } from '../hooks/useTranslation';
+import { useModel } from '../hooks/useModel';
+import ErrorAlert from './ErrorAlert';
+
+// One applied refinement, with the chart before and after it so the step's own change can be undone.
+export interface RefinementStep extends RefinementTurn {
+  previous: ChartRecommendation;
+  result: ChartRecommendation;
+}
+
+interface ChartRefinementChatProps {
+  recommendation: ChartRecommendation;
+  profile: DataProfile;
+  // Kept by the parent per recommendation, so the conversation survives switching between charts.
+  steps: RefinementStep[];
+  onStepsChange: (steps: RefinementStep[]) => void;
+  onChange: (recommendation: ChartRecommendation) => void;
+}
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+// Puts back what the step changed, field by field and config key by config key, on top of the current chart so
+// edits made since (e.g. in the config editor) to anything else are kept.
+const revertStep = (current: ChartRecommendation, { previous, result }: RefinementStep): ChartRecommendation => {
+  const restore = (target: Record<string, any>, before: Record<string, any>, after: Record<string, any>) => {
+    for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+      if (sameValue(before[key], after[key])) continue;
+      if (key in before) target[key] = before[key];
+      else delete target[key];
+    }
+    return target;
+  };
+  const fields = restore({ ...current }, { ...previous, config: null }, { ...result, config: null }) as ChartRecommendation;
+  return { ...fields, config: restore({ ...current.config }, previous.config || {}, result.config || {}) };
+};
+
+const ChartRefinementChat: React.FC<ChartRefinementChatProps> = ({ recommendation, profile, steps, onStepsChange, onChange }) => {
+  const { t } = useTranslation();
+  const { modelConfig } = useModel();
+  const [instruction, setInstruction] = useState('');
+  const [pending, setPending] = useState<{ instruction: string; explanation: string } | null>(null);
+  const [error, setError] = useState<{ message: string; details: string[] } | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = instruction.trim();
+    if (!text || pending) return;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setPending({ instruction: text, explanation: '' });
+    setError(null);
+    try {
+      const result = await refineChartRecommendation(recommendation, text, steps, profile, modelConfig.dataToGraph, {
+        signal: controller.signal,
+        onPartialText: explanation => setPending({ instruction: text, explanation }),
+      });
+      if (controller.signal.aborted) return;
+      onStepsChange([...steps, { instruction: text, explanation: result.explanation, previous: recommendation, result: result.recommendation }]);
+      setInstruction('');
+      onChange(result.recommendation);
+    } catch (err) {
+      if (!isAbortError(err)) setError(describeError(err, t));
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setPending(null);
+      }
+    }
+  };
+
+  const handleCancel = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setPending(null);
+  };
+
+  const handleUndo = () => {
+    const last = steps[steps.length - 1];
+    if (!last) return;
+    onStepsChange(steps.slice(0, -1));
+    onChange(revertStep(recommendation, last));
+  };
+
+  return (
+    <div className="bg-white/50 dark:bg-slate-800/50 rounded-xl p-4 border border-gray-200 dark:border-slate-700 flex flex-col gap-3">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold text-gray-700 dark:text-slate-200">{t('refine.title')}</h3>
+        <button
+          onClick={handleUndo}
+          disabled={steps.length === 0 || !!pending}
+          className="text-sm text-indigo-600 hover:underline disabled:text-gray-400 dark:disabled:text-slate-400 disabled:no-underline disabled:cursor-not-allowed"
+        >
+          ↶ {t('refine.undo')}
+        </button>
+      </div>
+
+      {(steps.length > 0 || pending) && (
+        <div className="flex flex-col gap-2 max-h-64 overflow-y-auto text-sm">
+          {[...steps, ...(pending ? [pending] : [])].map((turn, i) => (
+            <React.Fragment key={i}>
+              <div className="self-end max-w-[85%] bg-indigo-500 text-white px-3 py-2 rounded-xl rounded-br-sm">{turn.instruction}</div>
+              <div className={`self-start max-w-[85%] bg-white dark:bg-slate-800/90 border border-gray-200 dark:border-slate-700 text-gray-700 dark:text-slate-200 px-3 py-2 rounded-xl rounded-bl-sm ${turn === pending ? 'animate-pulse' : ''}`}>
+                {turn.explanation || t('refine.thinking')}
+              </div>
+            </React.Fragment>
+          ))}
+        </div>
+      )}
+
+      {error && <ErrorAlert message={error.message} details={error.details} />}
+
+      <form onSubmit={handleSubmit} className="flex gap-2">
+        <input
+          type="text"
+          value={instruction}
+          onChange={e => setInstruction(e.target.value)}
+          placeholder={t('refine.placeholder')}
+          disabled={!!pending}
+          className="flex-grow px-3 py-2 text-sm border border-gray-300 dark:border-slate-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-400 disabled:bg-gray-100 dark:disabled:bg-slate-700/50"
+        />
+        {pending ? (
+          <button type="button" onClick={handleCancel} className="px-4 py-2 text-sm font-semibold text-gray-600 dark:text-slate-300 border border-gray-300 dark:border-slate-700 rounded-lg hover:bg-gray-100 dark:hover:bg-slate-600/60 transition-colors">
+            {t('refine.cancel')}
+          </button>
+        ) : (
+          <button type="submit" disabled={!instruction.trim()} className="px-4 py-2 text-sm font-semibold text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
+            {t('refine.send')}
+          </button>
+        )}
+      </form>
+    </div>
+  );
+};
+
+export default ChartRefinementChat;
@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { useModel } from '../hooks/useModel';
+import { useTranslation } from '../hooks/useTranslation';
+import { WrongPassphraseError } from '../services/credentialStore';
+import type { CredentialMap, CredentialStorage } from '../services/credentialStore';
+
+interface CredentialSettingsProps {
+  // Lets the open settings dialog pick up keys that were just decrypted or forgotten.
+  onUnlocked: (credentials: CredentialMap) => void;
+  onForgotten: () => void;
+}
+
+const STORAGE_OPTIONS: CredentialStorage[] = ['plain', 'session', 'encrypted'];
+const MIN_PASSPHRASE_LENGTH = 8;
+
+const CredentialSettings: React.FC<CredentialSettingsProps> = ({ onUnlocked, onForgotten }) => {
+  const { credentialStorage, credentialsLocked, unlockCredentials, changeCredentialStorage, forgetCredentials } = useModel();
+  const { t } = useTranslation();
+  const [selected, setSelected] = useState<CredentialStorage>(credentialStorage);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      await action();
+    } catch (err) {
+      setMessage({ text: err instanceof WrongPassphraseError ? t('credentials.wrongPassphrase') : err instanceof Error ? err.message : t('errors.unknown'), error: true });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleUnlock = () => run(async () => {
+    onUnlocked(await unlockCredentials(passphrase));
+    setPassphrase('');
+    setMessage({ text: t('credentials.unlocked'), error: false });
+  });
+
+  const handleApply = () => run(async () => {
+    await changeCredentialStorage(selected, selected === 'encrypted' ? passphrase : undefined);
+    setPassphrase('');
+    setConfirmation('');
+    setMessage({ text: t(`credentials.applied.${selected}`), error: false });
+  });
+
+  const handleForget = () => {
+    if (!window.confirm(t('credentials.forgetConfirm'))) return;
+    forgetCredentials();
+    onForgotten();
+    setSelected('plain');
+    setMessage({ text: t('credentials.forgotten'), error: false });
+  };
+
+  const passphraseIssue = selected !== 'encrypted' ? null
+    : passphrase.length < MIN_PASSPHRASE_LENGTH ? t('credentials.passphraseTooShort', { count: String(MIN_PASSPHRASE_LENGTH) })
+    : passphrase !== confirmation ? t('credentials.passphraseMismatch')
+    : null;
+  // Choosing encryption again while it is active sets a new passphrase.
+  const canApply = selected !== credentialStorage || selected === 'encrypted';
+  const inputClass = "w-full px-3 py-2 border border-gray-300 dark:border-slate-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-400";
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-200 dark:border-slate-700 flex flex-col gap-3">
+      <h3 className="text-sm font-semibold text-gray-700 dark:text-slate-200">{t('credentials.title')}</h3>
+
+      {credentialsLocked ? (
+        <div className="flex flex-col gap-2">
+          <p className="text-xs text-gray-600 dark:text-slate-300">🔒 {t('credentials.lockedHint')}</p>
+          <div className="flex gap-2">
+            <input
+              type="password"
+              value={passphrase}
+              onChange={e => setPassphrase(e.target.value)}
+              onKeyDown={e => e.key === 'Enter' && passphrase && handleUnlock()}
+              placeholder={t('credentials.passphrase')}
+              className={inputClass}
+            />
+            <button onClick={handleUnlock} disabled={busy || !passphrase} className="px-4 py-2 text-sm font-semibold text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 disabled:opacity-50">
+              {t('credentials.unlock')}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex flex-col gap-2">
+          {STORAGE_OPTIONS.map(option => (
+            <label key={option} className="flex items-start gap-2 text-sm text-gray-700 dark:text-slate-200 cursor-pointer">
+              <input type="radio" name="credentialStorage" checked={selected === option} onChange={() => setSelected(option)} className="mt-1" />
+              <span>
+                <span className="font-medium">{t(`credentials.storage.${option}`)}</span>
+                {option === credentialStorage && <span className="ml-1 text-xs text-indigo-600">({t('credentials.current')})</span>}
+                <span className="block text-xs text-gray-500 dark:text-slate-400">{t(`credentials.storageHint.${option}`)}</span>
+              </span>
+            </label>
+          ))}
+          {selected === 'encrypted' && (
+            <div className="grid grid-cols-2 gap-2">
+              <input type="password" value={passphrase} onChange={e => setPassphrase(e.target.value)} placeholder={t('credentials.passphrase')} className={inputClass} autoComplete="new-password" />
+              <input type="password" value={confirmation} onChange={e => setConfirmation(e.target.value)} placeholder={t('credentials.confirmPassphrase')} className={inputClass} autoComplete="new-password" />
+              {passphrase && passphraseIssue && <p className="col-span-2 text-xs text-red-600">{passphraseIssue}</p>}
+            </div>
+          )}
+          {canApply && (
+            <button
+              onClick={handleApply}
+              disabled={busy || !!passphraseIssue}
+              className="self-start px-4 py-2 text-sm font-semibold text-indigo-600 border border-indigo-300 rounded-lg hover:bg-indigo-50 dark:hover:bg-indigo-400/15 transition-colors disabled:opacity-50"
+            >
+              {selected === 'encrypted' && credentialStorage === 'encrypted' ? t('credentials.changePassphrase') : t('credentials.apply')}
+            </button>
+          )}
+        </div>
+      )}
+
+      {message && <p className={`text-xs ${message.error ? 'text-red-600' : 'text-green-600'}`}>{message.text}</p>}
+
+      <button onClick={handleForget} className="self-start text-xs font-semibold text-red-600 hover:underline">
+        {t('credentials.forget')}
+      </button>
+    </div>
+  );
+};
+
+export default CredentialSettings;
@@ -0,0 +1,265 @@
+import React, { useMemo, useRef, useState } from 'react';
+import type { CrossFilter, Dashboard, DashboardItem } from '../types';
+import {
+  DASHBOARD_COLUMNS,
+  DASHBOARD_GAP,
+  DASHBOARD_ROW_HEIGHT,
+  chartHeight,
+  clampSpans,
+  crossFilterFieldFor,
+  dashboardChartData,
+  exportDashboardAsHtml,
+  exportDashboardAsJson,
+  parseDashboardSpec,
+} from '../services/dashboard';
+import { useTranslation } from '../hooks/useTranslation';
+import { useTheme } from '../hooks/useTheme';
+import AntdChart from './AntdChart';
+
+interface DashboardComposerProps {
+  dashboard: Dashboard | null;
+  data: any[];
+  fields: string[];
+  sourceName: string;
+  onChange: (dashboard: Dashboard | null) => void;
+}
+
+interface DashboardCardProps {
+  item: DashboardItem;
+  data: any[];
+  fields: string[];
+  filters: CrossFilter[];
+  gridRef: React.RefObject<HTMLDivElement>;
+  onResize: (colSpan: number, rowSpan: number) => void;
+  onRemove: () => void;
+  onSelect: (datum: any) => void;
+  onDragStart: () => void;
+  onDrop: () => void;
+}
+
+const DashboardCard: React.FC<DashboardCardProps> = ({ item, data, fields, filters, gridRef, onResize, onRemove, onSelect, onDragStart, onDrop }) => {
+  const { t } = useTranslation();
+  const chartData = useMemo(() => dashboardChartData(data, item, filters, fields), [data, item.recommendation, filters, fields]);
+  const resizeRef = useRef<{ x: number; y: number; colSpan: number; rowSpan: number } | null>(null);
+  const isSource = filters.some(filter => filter.sourceId === item.id);
+
+  // Resizing snaps to whole grid cells, measured from where the drag started.
+  const handlePointerDown = (e: React.PointerEvent) => {
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    resizeRef.current = { x: e.clientX, y: e.clientY, colSpan: item.colSpan, rowSpan: item.rowSpan };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const start = resizeRef.current;
+    const grid = gridRef.current;
+    if (!start || !grid) return;
+    const columnWidth = (grid.clientWidth + DASHBOARD_GAP) / DASHBOARD_COLUMNS;
+    const { colSpan, rowSpan } = clampSpans(
+      start.colSpan + (e.clientX - start.x) / columnWidth,
+      start.rowSpan + (e.clientY - start.y) / (DASHBOARD_ROW_HEIGHT + DASHBOARD_GAP)
+    );
+    if (colSpan !== item.colSpan || rowSpan !== item.rowSpan) onResize(colSpan, rowSpan);
+  };
+
+  return (
+    <div
+      onDragOver={e => e.preventDefault()}
+      onDrop={e => {
+        e.preventDefault();
+        onDrop();
+      }}
+      className={`relative bg-white/80 dark:bg-slate-800/90 rounded-xl shadow-sm p-2 flex flex-col overflow-hidden border ${isSource ? 'border-indigo-400' : 'border-transparent'}`}
+      style={{ gridColumn: `span ${item.colSpan}`, gridRow: `span ${item.rowSpan}` }}
+    >
+      <div
+        draggable
+        onDragStart={e => {
+          e.dataTransfer.effectAllowed = 'move';
+          onDragStart();
+        }}
+        className="flex items-center justify-between gap-2 px-1 h-8 cursor-move select-none"
+        title={t('dashboard.dragHint')}
+      >
+        <h4 className="text-sm font-semibold text-gray-700 dark:text-slate-200 truncate">⠿ {item.recommendation.title}</h4>
+        <button onClick={onRemove} className="text-gray-400 dark:text-slate-400 hover:text-red-500" title={t('dashboard.remove')}>✕</button>
+      </div>
+      <div className="flex-grow min-h-0">
+        {chartData.data.length > 0 ? (
+          <AntdChart recommendation={item.recommendation} data={chartData.data} height={chartHeight(item.rowSpan)} onElementClick={onSelect} />
+        ) : (
+          <p className="h-full flex items-center justify-center text-sm text-gray-400 dark:text-slate-400">{t('dashboard.noRows')}</p>
+        )}
+      </div>
+      <div
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => { resizeRef.current = null; }}
+        className="absolute right-0 bottom-0 w-4 h-4 cursor-se-resize border-r-2 border-b-2 border-gray-300 dark:border-slate-700 hover:border-indigo-500 rounded-br-xl"
+        title={t('dashboard.resizeHint')}
+      />
+    </div>
+  );
+};
+
+const DashboardComposer: React.FC<DashboardComposerProps> = ({ dashboard, data, fields, sourceName, onChange }) => {
+  const { t } = useTranslation();
+  const { chartTheme } = useTheme();
+  const [filters, setFilters] = useState<CrossFilter[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const gridRef = useRef<HTMLDivElement>(null);
+  const draggedRef = useRef<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const items = dashboard?.items || [];
+  const update = (changes: Partial<Dashboard>) => dashboard && onChange({ ...dashboard, ...changes });
+  const updateItem = (id: string, changes: Partial<DashboardItem>) =>
+    update({ items: items.map(item => (item.id === id ? { ...item, ...changes } : item)) });
+
+  const handleRemove = (id: string) => {
+    const remaining = items.filter(item => item.id !== id);
+    setFilters(prev => prev.filter(filter => filter.sourceId !== id));
+    onChange(remaining.length > 0 && dashboard ? { ...dashboard, items: remaining } : null);
+  };
+
+  const handleDrop = (targetId: string) => {
+    const draggedId = draggedRef.current;
+    draggedRef.current = null;
+    if (!draggedId || draggedId === targetId) return;
+    const dragged = items.find(item => item.id === draggedId);
+    if (!dragged) return;
+    const rest = items.filter(item => item.id !== draggedId);
+    const targetIndex = rest.findIndex(item => item.id === targetId);
+    update({ items: [...rest.slice(0, targetIndex), dragged, ...rest.slice(targetIndex)] });
+  };
+
+  // Clicking a value selects it for the other charts; clicking the same value again clears it.
+  const handleSelect = (item: DashboardItem, datum: any) => {
+    const field = crossFilterFieldFor(item.recommendation, datum);
+    if (!field) return;
+    const value = datum[field];
+    setFilters(prev => {
+      const existing = prev.find(filter => filter.field === field);
+      const others = prev.filter(filter => filter.field !== field);
+      return existing && existing.value === value ? others : [...others, { field, value, sourceId: item.id }];
+    });
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError(null);
+    try {
+      onChange(parseDashboardSpec(await file.text(), fields));
+      setFilters([]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('errors.unknown'));
+    }
+  };
+
+  const handleExportHtml = () => {
+    if (!dashboard) return;
+    setError(null);
+    try {
+      const charts = items.map(item => ({ item, data: dashboardChartData(data, item, filters, fields).data }));
+      exportDashboardAsHtml(dashboard, charts, filters, chartTheme.colors);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('errors.unknown'));
+    }
+  };
+
+  const buttonClass = "px-3 py-1.5 text-sm font-semibold text-indigo-600 border border-indigo-300 rounded-lg hover:bg-indigo-50 dark:hover:bg-indigo-400/15 transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+  return (
+    <div className="bg-white/50 dark:bg-slate-800/50 rounded-xl p-4 border border-gray-200 dark:border-slate-700 flex flex-col gap-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="font-semibold text-gray-700 dark:text-slate-200">{t('dashboard.title')}</h3>
+        <div className="flex flex-wrap items-center gap-2">
+          <button onClick={() => fileInputRef.current?.click()} className={buttonClass}>{t('dashboard.open')}</button>
+          <input ref={fileInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleImport} />
+          <button onClick={() => dashboard && exportDashboardAsJson(dashboard, sourceName)} disabled={!dashboard} className={buttonClass}>{t('dashboard.saveJson')}</button>
+          <button onClick={handleExportHtml} disabled={!dashboard} className={buttonClass}>{t('dashboard.exportHtml')}</button>
+          {dashboard && (
+            <button onClick={() => { setFilters([]); onChange(null); }} className="text-xs text-gray-500 dark:text-slate-400 hover:text-red-600 hover:underline">
+              {t('dashboard.clear')}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      {!dashboard ? (
+        <p className="text-sm text-gray-500 dark:text-slate-400">{t('dashboard.empty')}</p>
+      ) : (
+        <>
+          <div className="bg-white/70 dark:bg-slate-800/90 rounded-lg p-3 flex flex-col gap-2">
+            <input
+              value={dashboard.title}
+              onChange={e => update({ title: e.target.value })}
+              placeholder={t('dashboard.titlePlaceholder')}
+              className="text-lg font-semibold text-gray-800 dark:text-slate-200 bg-transparent border-b border-transparent hover:border-gray-300 dark:hover:border-slate-700 focus:border-indigo-400 focus:outline-none"
+            />
+            <textarea
+              value={dashboard.notes}
+              onChange={e => update({ notes: e.target.value })}
+              placeholder={t('dashboard.notesPlaceholder')}
+              rows={4}
+              className="text-sm text-gray-700 dark:text-slate-200 bg-transparent border border-gray-200 dark:border-slate-700 rounded-lg p-2 resize-y focus:outline-none focus:ring-2 focus:ring-indigo-400"
+            />
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2 text-xs text-gray-600 dark:text-slate-300">
+            {filters.length === 0 ? (
+              <span>{t('dashboard.filterHint')}</span>
+            ) : (
+              <>
+                <span>{t('dashboard.filteredBy')}</span>
+                {filters.map(filter => (
+                  <button
+                    key={filter.field}
+                    onClick={() => setFilters(prev => prev.filter(other => other.field !== filter.field))}
+                    className="px-2 py-0.5 rounded-full bg-indigo-100 text-indigo-700 hover:bg-indigo-200"
+                  >
+                    {filter.field} = {String(filter.value)} ✕
+                  </button>
+                ))}
+                <button onClick={() => setFilters([])} className="text-indigo-600 hover:underline">{t('dashboard.clearFilters')}</button>
+              </>
+            )}
+          </div>
+
+          <div
+            ref={gridRef}
+            className="grid"
+            style={{
+              gridTemplateColumns: `repeat(${DASHBOARD_COLUMNS}, minmax(0, 1fr))`,
+              gridAutoRows: `${DASHBOARD_ROW_HEIGHT}px`,
+              gridAutoFlow: 'dense',
+              gap: `${DASHBOARD_GAP}px`,
+            }}
+          >
+            {items.map(item => (
+              <DashboardCard
+                key={item.id}
+                item={item}
+                data={data}
+                fields={fields}
+                filters={filters}
+                gridRef={gridRef}
+                onResize={(colSpan, rowSpan) => updateItem(item.id, { colSpan, rowSpan })}
+                onRemove={() => handleRemove(item.id)}
+                onSelect={datum => handleSelect(item, datum)}
+                onDragStart={() => { draggedRef.current = item.id; }}
+                onDrop={() => handleDrop(item.id)}
+              />
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default DashboardComposer;
@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import type { DataCell, ExtractedDataSeries } from '../types';
+import { parseCellValue } from '../services/dataSeries';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface DataGridProps {
+  series: ExtractedDataSeries;
+  onChange: (series: ExtractedDataSeries) => void;
+}
+
+const cellClass = "w-full min-w-[6rem] px-2 py-1 bg-transparent border border-transparent rounded focus:outline-none focus:border-purple-400 focus:bg-white dark:focus:bg-slate-800/90";
+
+const DataGrid: React.FC<DataGridProps> = ({ series, onChange }) => {
+  const { t } = useTranslation();
+  // The cell being edited keeps its raw text, so partial input such as "1." or "0.0" survives until the edit is committed.
+  const [editing, setEditing] = useState<{ row: number; col: number; text: string } | null>(null);
+
+  const updateColumn = (index: number, field: 'name' | 'unit', value: string) => {
+    const columns = series.columns.map((col, i) => {
+      if (i !== index) return col;
+      const updated = { ...col, [field]: value };
+      if (field === 'unit' && !value) delete updated.unit;
+      return updated;
+    });
+    onChange({ ...series, columns });
+  };
+
+  const updateCell = (rowIndex: number, colIndex: number, value: string) => {
+    const rows = series.rows.map((row, r) =>
+      r === rowIndex ? row.map((cell, c) => (c === colIndex ? parseCellValue(value) : cell)) : row
+    );
+    onChange({ ...series, rows });
+  };
+
+  const commitEdit = () => {
+    if (!editing) return;
+    const current = series.rows[editing.row]?.[editing.col];
+    if (current !== undefined && editing.text !== String(current ?? '')) updateCell(editing.row, editing.col, editing.text);
+    setEditing(null);
+  };
+
+  // Enter commits the edit; Escape drops it and shows the stored value again.
+  const handleCellKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') e.currentTarget.blur();
+    else if (e.key === 'Escape') setEditing(null);
+  };
+
+  const addRow = () => {
+    onChange({ ...series, rows: [...series.rows, series.columns.map((): DataCell => null)] });
+  };
+
+  const removeRow = (rowIndex: number) => {
+    onChange({ ...series, rows: series.rows.filter((_, r) => r !== rowIndex) });
+  };
+
+  const addColumn = () => {
+    onChange({
+      ...series,
+      columns: [...series.columns, { name: t('dataTable.newColumn', { index: String(series.columns.length + 1) }) }],
+      rows: series.rows.map(row => [...row, null]),
+    });
+  };
+
+  const removeColumn = (colIndex: number) => {
+    if (series.columns.length <= 1) return;
+    onChange({
+      ...series,
+      columns: series.columns.filter((_, c) => c !== colIndex),
+      rows: series.rows.map(row => row.filter((_, c) => c !== colIndex)),
+    });
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="overflow-auto max-h-96 rounded-lg border border-gray-200 dark:border-slate-700 bg-white/60 dark:bg-slate-800/50">
+        <table className="min-w-full text-sm">
+          <thead className="bg-purple-50 dark:bg-indigo-400/15 sticky top-0">
+            <tr>
+              {series.columns.map((col, c) => (
+                <th key={c} className="px-1 py-1 text-left align-top font-semibold text-gray-700 dark:text-slate-200">
+                  <div className="flex items-center gap-1">
+                    <input
+                      value={col.name}
+                      onChange={e => updateColumn(c, 'name', e.target.value)}
+                      className={`${cellClass} font-semibold`}
+                      aria-label={t('dataTable.columnName')}
+                    />
+                    <button
+                      onClick={() => removeColumn(c)}
+                      disabled={series.columns.length <= 1}
+                      className="text-gray-400 dark:text-slate-400 hover:text-red-500 disabled:opacity-30"
+                      aria-label={t('dataTable.removeColumn')}
+                    >
+                      ×
+                    </button>
+                  </div>
+                  <input
+                    value={col.unit || ''}
+                    onChange={e => updateColumn(c, 'unit', e.target.value)}
+                    placeholder={t('dataTable.unit')}
+                    className={`${cellClass} text-xs font-normal text-gray-500 dark:text-slate-400`}
+                  />
+                </th>
+              ))}
+              <th className="w-8" />
+            </tr>
+          </thead>
+          <tbody>
+            {series.rows.map((row, r) => (
+              <tr key={r} className="border-t border-gray-100 dark:border-slate-700">
+                {row.map((cell, c) => {
+                  const isEditing = editing?.row === r && editing.col === c;
+                  return (
+                    <td key={c} className="px-1 py-0.5">
+                      <input
+                        value={isEditing ? editing.text : cell ?? ''}
+                        onFocus={() => setEditing({ row: r, col: c, text: String(cell ?? '') })}
+                        onChange={e => setEditing({ row: r, col: c, text: e.target.value })}
+                        onBlur={commitEdit}
+                        onKeyDown={handleCellKeyDown}
+                        className={`${cellClass} ${typeof cell === 'number' ? 'text-right tabular-nums' : ''}`}
+                      />
+                    </td>
+                  );
+                })}
+                <td className="px-1 text-center">
+                  <button
+                    onClick={() => removeRow(r)}
+                    className="text-gray-400 dark:text-slate-400 hover:text-red-500"
+                    aria-label={t('dataTable.removeRow')}
+                  >
+                    ×
+                  </button>
+                </td>
+              </tr>
+            ))}
+            {series.rows.length === 0 && (
+              <tr>
+                <td colSpan={series.columns.length + 1} className="px-3 py-4 text-center text-gray-500 dark:text-slate-400">{t('dataTable.noRows')}</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+      <div className="flex gap-3 text-sm">
+        <button onClick={addRow} className="text-purple-600 hover:underline">+ {t('dataTable.addRow')}</button>
+        <button onClick={addColumn} className="text-purple-600 hover:underline">+ {t('dataTable.addColumn')}</button>
+      </div>
+    </div>
+  );
+};
+
+export default DataGrid;
@@ -1,162 +1,37 @@
 
-import React, { useState, useCallback, useRef, useEffect } from 'react';
-import type { ChartRecommendation } from '../types';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { Mode } from '../types';
+import type { ChartRecommendation, Dashboard, DataProfile, DataToGraphHistoryEntry, ReopenRequest, ReplotRequest, SpreadsheetOptions } from '../types';
 import { analyzeDataForGraphSuggestions } from '../services/aiService';
+import { promptLanguage } from '../services/promptTemplates';
+import { seriesToRecords } from '../services/dataSeries';
+import { profileData, sampleRepresentativeRows } from '../services/dataProfiler';
+import { defaultSpreadsheetOptions } from '../services/spreadsheet';
+import { MAX_ROWS, detectFormat, openSpreadsheet, parseData } from '../services/parserClient';
+import type { SpreadsheetSession } from '../services/parserClient';
+import type { ParseProgress, ParseResult } from '../services/parserClient';
+import { reduceForChart } from '../services/chartData';
+import { columnsOf, runTransform, transformedFields } from '../services/dataTransform';
+import { createDashboardItem } from '../services/dashboard';
+import { createHistoryId, createRunMetadata, fingerprintBlob, fingerprintText, recordHistoryEntry } from '../services/historyStore';
+import { describeError, isAbortError } from '../services/errors';
+import { tableFromClipboard } from '../services/clipboard';
 import Loader from './Loader';
+import ErrorAlert from './ErrorAlert';
+import AntdChart from './AntdChart';
+import ChartConfigEditor from './ChartConfigEditor';
+import ChartExportMenu from './ChartExportMenu';
+import ChartRefinementChat from './ChartRefinementChat';
+import type { RefinementStep } from './ChartRefinementChat';
+import TransformEditor from './TransformEditor';
+import DashboardComposer from './DashboardComposer';
+import SpreadsheetOptionsPanel from './SpreadsheetOptionsPanel';
 import { useTranslation } from '../hooks/useTranslation';
 import { useModel } from '../hooks/useModel';
+import { usePromptTemplates } from '../hooks/usePromptTemplates';
+import { usePasteHandler } from '../hooks/usePasteHandler';
 
-declare const XLSX: any;
-declare const Papa: any;
-declare const Charts: any;
-
-// Pre-defined templates for consistent styling and common options
-const CHART_TEMPLATES: { [key: string]: any } = {
-    line: { smooth: true, point: { size: 3 }, tooltip: { showMarkers: true } },
-    column: { },
-    bar: { },
-    pie: { appendPadding: 10, radius: 0.8, label: { type: 'inner', offset: '-50%', content: '{percentage}', style: { textAlign: 'center', fontSize: 14 } } },
-    area: { smooth: true },
-    scatter: { point: { size: 4, shape: 'circle' } },
-    rose: { radius: 0.9, label: { offset: -15 } },
-};
-
-// --- Chart Rendering Component with Fallback ---
-const AntdChart: React.FC<{ recommendation: ChartRecommendation | null; data: any[] }> = ({ recommendation, data }) => {
-    const containerRef = useRef<HTMLDivElement>(null);
-    const chartRef = useRef<any>(null);
-    const [error, setError] = useState<string | null>(null);
-    const [isLibReady, setIsLibReady] = useState(false);
-
-    // Effect to check for the charting library
-    useEffect(() => {
-        if (typeof Charts !== 'undefined' && Charts) {
-            setIsLibReady(true);
-            return;
-        }
-
-        const intervalId = setInterval(() => {
-            if (typeof Charts !== 'undefined' && Charts) {
-                setIsLibReady(true);
-                clearInterval(intervalId);
-            }
-        }, 100);
-
-        // Set a timeout to prevent infinite polling
-        const timeoutId = setTimeout(() => {
-            clearInterval(intervalId);
-            if (typeof Charts === 'undefined' || !Charts) {
-                setError("Ant Design Charts library could not be loaded. Please check your internet connection and refresh the page.");
-            }
-        }, 5000); // 5-second timeout
-
-        return () => {
-            clearInterval(intervalId);
-            clearTimeout(timeoutId);
-        };
-    }, []);
-
-    const getChartComponent = (type: string) => {
-        if (!isLibReady || typeof Charts === 'undefined' || !Charts) return null;
-        
-        const componentNameMapping: { [key: string]: string } = {
-            line: 'Line', column: 'Column', bar: 'Bar', pie: 'Pie', area: 'Area', scatter: 'Scatter',
-            dualaxes: 'DualAxes', liquid: 'Liquid', violin: 'Violin', bullet: 'Bullet', heatmap: 'Heatmap',
-            waterfall: 'Waterfall', radar: 'Radar', sankey: 'Sankey', sunburst: 'Sunburst', rose: 'Rose', gantt: 'Gantt'
-        };
-
-        const componentName = componentNameMapping[type];
-        return componentName ? Charts[componentName] : null;
-    };
-
-    // Effect to render the chart once the library and data are ready
-    useEffect(() => {
-        if (!containerRef.current || !isLibReady) return;
-        
-        // Cleanup previous instance
-        if (chartRef.current) {
-            chartRef.current.destroy();
-            chartRef.current = null;
-        }
-        setError(null);
-        containerRef.current.innerHTML = '';
-
-        if (!recommendation || !data || data.length === 0) {
-             return;
-        }
-
-        const { chartType, config: llmConfig } = recommendation;
-        const normalizedChartType = chartType?.toLowerCase().replace(/ /g, '') || '';
-        
-        const ChartComponent = getChartComponent(normalizedChartType);
-        if (!ChartComponent) {
-            setError(`Unsupported chart type: "${chartType}". The AI suggested a chart that is not available in the current library version.`);
-            return;
-        }
-
-        // Validation: Check for required data fields
-        const requiredFields: string[] = Array.from(new Set([
-            llmConfig.xField, llmConfig.yField, llmConfig.seriesField, llmConfig.colorField, 
-            llmConfig.angleField, llmConfig.sizeField, llmConfig.percent, llmConfig.taskField,
-            llmConfig.sourceField, llmConfig.targetField, llmConfig.valueField,
-            ...(Array.isArray(llmConfig.yField) ? llmConfig.yField : [])
-        ].filter(Boolean)));
-        
-        if (data.length > 0 && requiredFields.length > 0) {
-            const firstRow = data[0];
-            const missingFields = requiredFields.filter(field => !(field in firstRow));
-            if (missingFields.length > 0) {
-                setError(`Chart Error: The AI's configuration requires data fields not present in your file: <strong>${missingFields.join(', ')}</strong>.`);
-                return;
-            }
-        }
-        
-        const template = CHART_TEMPLATES[normalizedChartType] || {};
-        const finalConfig = {
-            ...template,
-            ...llmConfig,
-            data,
-            height: 400,
-            autoFit: true,
-            theme: 'default'
-        };
-
-        try {
-            const chart = new ChartComponent(containerRef.current, finalConfig);
-            chart.render();
-            chartRef.current = chart;
-        } catch (err) {
-            console.error("Ant Design Chart rendering failed:", err);
-            setError(`Chart rendering failed. The AI might have provided an invalid configuration for a '${chartType}' chart. Check console for details.`);
-        }
-
-        return () => {
-            if (chartRef.current) {
-                chartRef.current.destroy();
-                chartRef.current = null;
-            }
-        };
-    }, [recommendation, data, isLibReady]);
-
-    if (error) {
-        return (
-            <div className="flex items-center justify-center h-full text-red-500 font-semibold p-4 text-center"
-                 dangerouslySetInnerHTML={{ __html: error }}
-            />
-        );
-    }
-    
-    if (!isLibReady) {
-        return (
-             <div className="flex items-center justify-center h-full text-gray-500 font-semibold p-4 text-center">
-                Loading charting library...
-            </div>
-        )
-    }
-
-    return <div ref={containerRef} style={{ height: '400px' }} />;
-};
-
+const isSpreadsheetFile = (file: File) => detectFormat(file.name) === 'xlsx';
 
 const FileUpload: React.FC<{ onFileUpload: (file: File) => void; disabled: boolean }> = ({ onFileUpload, disabled }) => {
   const [isDragging, setIsDragging] = useState(false);
@@ -192,148 +67,347 @@ const FileUpload: React.FC<{ onFileUpload: (file: File) => void; disabled: boole
       onDragLeave={handleDrag}
       onDrop={handleDrop}
       className={`flex flex-col items-center justify-center w-full h-36 border-2 border-dashed rounded-xl cursor-pointer transition-colors duration-300 ease-in-out ${
-        isDragging ? 'border-indigo-500 bg-indigo-50' : 'border-gray-300 hover:border-indigo-400 hover:bg-indigo-50/50'
-      } ${disabled ? 'cursor-not-allowed bg-gray-100' : ''}`}
+        isDragging ? 'border-indigo-500 bg-indigo-50 dark:bg-indigo-400/15' : 'border-gray-300 dark:border-slate-700 hover:border-indigo-400 hover:bg-indigo-50/50'
+      } ${disabled ? 'cursor-not-allowed bg-gray-100 dark:bg-slate-700/50' : ''}`}
     >
       <div className="flex flex-col items-center justify-center pt-5 pb-6">
-        <svg className="w-10 h-10 mb-3 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12"></path></svg>
-        <p className="mb-2 text-sm text-gray-500"><span className="font-semibold">{t('fileUpload.click')}</span> {t('fileUpload.orDrag')}</p>
-        <p className="text-xs text-gray-500">{t('dataToGraph.fileTypes')}</p>
+        <svg className="w-10 h-10 mb-3 text-gray-400 dark:text-slate-400" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12"></path></svg>
+        <p className="mb-2 text-sm text-gray-500 dark:text-slate-400"><span className="font-semibold">{t('fileUpload.click')}</span> {t('fileUpload.orDrag')}</p>
+        <p className="text-xs text-gray-500 dark:text-slate-400">{t('dataToGraph.fileTypes')}</p>
+        <p className="text-xs text-gray-400 dark:text-slate-400">{t('paste.tableHint')}</p>
       </div>
       <input type="file" className="hidden" onChange={handleChange} accept=".txt,.csv,.json,.xls,.xlsx" disabled={disabled} />
     </label>
   );
 };
 
-const DataToGraphPanel: React.FC = () => {
+interface DataToGraphPanelProps {
+    replotRequest?: ReplotRequest | null;
+    reopenRequest?: ReopenRequest<DataToGraphHistoryEntry> | null;
+    // Whether this side of the flip is showing; pastes are ignored while it is hidden.
+    isActive: boolean;
+}
+
+// Parsed rows plus a fingerprint of the input they came from.
+type LoadedData = ParseResult & { fingerprint: string };
+
+const DataToGraphPanel: React.FC<DataToGraphPanelProps> = ({ replotRequest, reopenRequest, isActive }) => {
     const [file, setFile] = useState<File | null>(null);
     const [url, setUrl] = useState('');
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    const [errorDetails, setErrorDetails] = useState<string[]>([]);
     const [chartRecommendations, setChartRecommendations] = useState<ChartRecommendation[]>([]);
+    // Recommendations as the model returned them, so user edits can be reset.
+    const [originalRecommendations, setOriginalRecommendations] = useState<ChartRecommendation[]>([]);
     const [selectedRecommendation, setSelectedRecommendation] = useState<ChartRecommendation | null>(null);
+    // Refinement conversations by recommendation index.
+    const [refinements, setRefinements] = useState<RefinementStep[][]>([]);
     const [dataAnalysis, setDataAnalysis] = useState<string | null>(null);
+    // The analysis paragraph as it streams in, shown while the model is still answering.
+    const [streamedAnalysis, setStreamedAnalysis] = useState<string | null>(null);
     const [processedData, setProcessedData] = useState<any[]>([]);
-    const { t } = useTranslation();
+    const [dataProfile, setDataProfile] = useState<DataProfile | null>(null);
+    const [replotSource, setReplotSource] = useState<ReplotRequest | null>(null);
+    // Name of the history entry being shown, when a past run was reopened.
+    const [reopenedName, setReopenedName] = useState<string | null>(null);
+    // Worker holding the uploaded workbook, and the sheet/header/range choices for it.
+    const [spreadsheet, setSpreadsheet] = useState<SpreadsheetSession | null>(null);
+    const [spreadsheetOptions, setSpreadsheetOptions] = useState<SpreadsheetOptions | null>(null);
+    const [parseProgress, setParseProgress] = useState<ParseProgress | null>(null);
+    // Row counts of the last load, so a capped file can say how much of it is shown.
+    const [rowStats, setRowStats] = useState<{ loaded: number; total: number; sampled: boolean } | null>(null);
+    // Name of the file or URL the current rows came from.
+    const [sourceName, setSourceName] = useState('');
+    // Charts pinned from the recommendations; cleared whenever the dataset changes.
+    const [dashboard, setDashboard] = useState<Dashboard | null>(null);
+    // Cancels the running parse or model request.
+    const abortRef = useRef<AbortController | null>(null);
+    const { t, language } = useTranslation();
     const { modelConfig } = useModel();
+    const { getPrompt } = usePromptTemplates();
     const hasData = file || url;
 
     const resetState = () => {
       setError(null);
+      setErrorDetails([]);
       setChartRecommendations([]);
+      setOriginalRecommendations([]);
+      setRefinements([]);
       setSelectedRecommendation(null);
       setDataAnalysis(null);
+      setStreamedAnalysis(null);
       setProcessedData([]);
+      setDataProfile(null);
+      setRowStats(null);
+      setReopenedName(null);
+      setSourceName('');
+      setDashboard(null);
     }
 
+    const resetSpreadsheet = () => {
+        abortRef.current?.abort();
+        setSpreadsheet(null);
+        setSpreadsheetOptions(null);
+    };
+
     const handleClear = () => {
         setFile(null);
         setUrl('');
+        resetSpreadsheet();
+        setReplotSource(null);
         resetState();
     }
 
     const handleFileUpload = (uploadedFile: File) => {
         setFile(uploadedFile);
         setUrl('');
+        setReplotSource(null);
+        resetSpreadsheet();
         resetState();
+
+        if (isSpreadsheetFile(uploadedFile)) {
+            const controller = new AbortController();
+            abortRef.current = controller;
+            openSpreadsheet(uploadedFile, controller.signal)
+                .then(session => {
+                    setSpreadsheet(session);
+                    setSpreadsheetOptions(defaultSpreadsheetOptions(session.sheetNames));
+                })
+                .catch(err => {
+                    if (!isAbortError(err)) setError(err instanceof Error ? err.message : t('errors.fileReadFailed'));
+                });
+        }
     };
 
+    // Cells copied from a spreadsheet or a web page table are loaded like an uploaded CSV file.
+    usePasteHandler(isActive, e => {
+        if (isLoading) return;
+        const pasted = tableFromClipboard(e.clipboardData);
+        if (!pasted) return;
+        e.preventDefault();
+        handleFileUpload(pasted);
+    });
+
     const handleUrlChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         setUrl(e.target.value);
         setFile(null);
+        resetSpreadsheet();
+        setReplotSource(null);
         resetState();
     }
 
-    const handleDigest = useCallback(async () => {
-        if (!file && !url) return;
-
+    // Shared by file/URL digests and re-plot requests: loads the rows, then asks the model for chart suggestions.
+    const runAnalysis = useCallback(async (loadData: (signal: AbortSignal) => Promise<LoadedData>, sourceName: string) => {
+        abortRef.current?.abort();
+        const controller = new AbortController();
+        abortRef.current = controller;
         setIsLoading(true);
+        setParseProgress(null);
         resetState();
 
+        // Read once so the recorded version is the one the request was sent with.
+        const prompt = getPrompt('dataToGraph');
         try {
-            let dataForChart: any[] = [];
-            let contentSample: string = '';
-            
-            if (file) {
-                 if (file.name.endsWith('.xls') || file.name.endsWith('.xlsx')) {
-                    const data = await file.arrayBuffer();
-                    const workbook = XLSX.read(data);
-                    const sheetName = workbook.SheetNames[0];
-                    const worksheet = workbook.Sheets[sheetName];
-                    dataForChart = XLSX.utils.sheet_to_json(worksheet);
-                } else if (file.name.endsWith('.json')) {
-                    const content = await file.text();
-                    dataForChart = JSON.parse(content);
-                } else if (file.name.endsWith('.csv') || file.name.endsWith('.txt')) {
-                    const content = await file.text();
-                    const result: any = await new Promise((resolve, reject) => {
-                        Papa.parse(content, {
-                            header: true,
-                            skipEmptyLines: true,
-                            dynamicTyping: true,
-                            complete: resolve,
-                            error: reject,
-                        });
-                    });
-                    if (result.errors.length) {
-                        throw new Error(`CSV Parsing Error: ${result.errors[0].message}`);
-                    }
-                    dataForChart = result.data;
-                }
-            } else { // URL
-                 if (!url.startsWith('http')) {
-                    throw new Error(t('errors.invalidUrl'));
-                }
-                // For URL, we simplify and assume text-based content for now
-                const response = await fetch(url);
-                if (!response.ok) {
-                    throw new Error(t('errors.urlFetchFailed'));
-                }
-                const content = await response.text();
-                // Rudimentary parsing based on URL extension
-                 if (url.endsWith('.json')) {
-                     dataForChart = JSON.parse(content);
-                 } else { // Assume CSV
-                    const result: any = Papa.parse(content, { header: true, skipEmptyLines: true, dynamicTyping: true });
-                     if (result.errors.length) {
-                         throw new Error(`CSV Parsing Error: ${result.errors[0].message}`);
-                     }
-                     dataForChart = result.data;
-                 }
-            }
+            const { rows: dataForChart, totalRows, sampled, fingerprint } = await loadData(controller.signal);
 
             if (!dataForChart || dataForChart.length === 0) {
                 setError(t('errors.fileEmpty'));
-                setIsLoading(false);
                 return;
             }
-            contentSample = JSON.stringify(dataForChart.slice(0, 10));
+            const profile = profileData(dataForChart);
+            const contentSample = JSON.stringify(sampleRepresentativeRows(dataForChart, profile));
 
             setProcessedData(dataForChart);
-            const aiResponse = await analyzeDataForGraphSuggestions(contentSample, file?.name || 'url_data', modelConfig.dataToGraph);
+            setDataProfile(profile);
+            setSourceName(sourceName);
+            setRowStats({ loaded: dataForChart.length, total: totalRows, sampled });
+            setParseProgress(null);
+            const aiResponse = await analyzeDataForGraphSuggestions(contentSample, sourceName, profile, modelConfig.dataToGraph, {
+                signal: controller.signal,
+                promptTemplate: prompt.text,
+                language: promptLanguage(language),
+                onPartialText: text => {
+                    if (!controller.signal.aborted) setStreamedAnalysis(text);
+                },
+            });
+            // Providers that ignore the signal can still resolve after a cancel; drop their result.
+            if (controller.signal.aborted) return;
+            setStreamedAnalysis(null);
             
             const newRecs = aiResponse.chartRecommendations || []; // Safely handle missing/null recommendations
             
             setDataAnalysis(aiResponse.dataAnalysis);
             setChartRecommendations(newRecs);
+            setOriginalRecommendations(newRecs);
 
             if(newRecs.length > 0) {
                 setSelectedRecommendation(newRecs[0]);
             }
+
+            const entry: DataToGraphHistoryEntry = {
+                ...(await createRunMetadata(modelConfig.dataToGraph, prompt, fingerprint, sourceName)),
+                id: createHistoryId(),
+                name: sourceName,
+                createdAt: Date.now(),
+                mode: Mode.DATA_TO_GRAPH,
+                dataAnalysis: aiResponse.dataAnalysis,
+                recommendations: newRecs,
+                data: dataForChart,
+                profile,
+            };
+            recordHistoryEntry(entry);
         } catch (err) {
-            setError(err instanceof Error ? err.message : t('errors.unknown'));
+            if (isAbortError(err)) return;
+            const { message, details } = describeError(err, t);
+            setError(message);
+            setErrorDetails(details);
         } finally {
-            setIsLoading(false);
+            if (abortRef.current === controller) {
+                abortRef.current = null;
+                setIsLoading(false);
+                setParseProgress(null);
+            }
         }
-    }, [file, url, t, modelConfig]);
+    }, [t, language, modelConfig, getPrompt]);
 
+    const handleCancel = () => {
+        abortRef.current?.abort();
+        abortRef.current = null;
+        setIsLoading(false);
+        setParseProgress(null);
+        resetState();
+    };
+
+    // Stop any running parse when the panel goes away.
+    useEffect(() => () => abortRef.current?.abort(), []);
+
+    // Each workbook's worker is stopped once another file replaces it or the panel goes away.
+    useEffect(() => () => spreadsheet?.close(), [spreadsheet]);
+
+    const loadInputData = useCallback(async (signal: AbortSignal): Promise<LoadedData> => {
+        if (file) {
+            const [result, fingerprint] = await Promise.all([
+                parseData({
+                    source: file,
+                    format: detectFormat(file.name) || 'csv',
+                    spreadsheetOptions: spreadsheetOptions || undefined,
+                    rowCap: MAX_ROWS,
+                }, setParseProgress, signal),
+                fingerprintBlob(file),
+            ]);
+            return { ...result, fingerprint };
+        }
+
+        // URL
+        if (!url.startsWith('http')) {
+            throw new Error(t('errors.invalidUrl'));
+        }
+        setParseProgress({ stage: 'reading', fraction: null });
+        const response = await fetch(url, { signal });
+        if (!response.ok) {
+            throw new Error(t('errors.urlFetchFailed'));
+        }
+        const blob = await response.blob();
+        // Rudimentary format detection based on URL extension; anything unknown is treated as CSV.
+        const [result, fingerprint] = await Promise.all([
+            parseData({
+                source: blob,
+                format: detectFormat(url) || 'csv',
+                rowCap: MAX_ROWS,
+            }, setParseProgress, signal),
+            fingerprintBlob(blob),
+        ]);
+        return { ...result, fingerprint };
+    }, [file, url, t, spreadsheetOptions]);
+
+    const handleDigest = useCallback(async () => {
+        if (!file && !url) return;
+        await runAnalysis(loadInputData, file?.name || 'url_data');
+    }, [file, url, runAnalysis, loadInputData]);
+
+    // Picks up data handed over from the Graph-to-Data panel.
+    useEffect(() => {
+        if (!replotRequest) return;
+        setFile(null);
+        setUrl('');
+        resetSpreadsheet();
+        setReplotSource(replotRequest);
+        runAnalysis(async () => {
+            const rows = seriesToRecords(replotRequest.series);
+            return { rows, totalRows: rows.length, sampled: false, fingerprint: await fingerprintText(JSON.stringify(replotRequest.series)) };
+        }, replotRequest.sourceName);
+        // Only react to new requests, not to runAnalysis changing identity.
+    }, [replotRequest?.id]);
+
+    // Restores a run picked from the history drawer without calling the model again.
+    useEffect(() => {
+        if (!reopenRequest) return;
+        const { entry } = reopenRequest;
+        abortRef.current?.abort();
+        setFile(null);
+        setUrl('');
+        resetSpreadsheet();
+        setReplotSource(null);
+        resetState();
+        setProcessedData(entry.data);
+        setDataProfile(entry.profile);
+        setSourceName(entry.sourceName);
+        setDataAnalysis(entry.dataAnalysis);
+        setChartRecommendations(entry.recommendations);
+        setOriginalRecommendations(entry.recommendations);
+        setSelectedRecommendation(entry.recommendations[0] || null);
+        setReopenedName(entry.name);
+    }, [reopenRequest?.id]);
+
+
+    const selectedIndex = selectedRecommendation ? chartRecommendations.indexOf(selectedRecommendation) : -1;
+
+    const handleRecommendationEdit = (updated: ChartRecommendation) => {
+        setChartRecommendations(recs => recs.map((rec, i) => (i === selectedIndex ? updated : rec)));
+        setSelectedRecommendation(updated);
+    };
+
+    const handleRefinementStepsChange = (steps: RefinementStep[]) => setRefinements(prev => {
+        const next = [...prev];
+        next[selectedIndex] = steps;
+        return next;
+    });
+
+    const handlePin = () => {
+        if (!selectedRecommendation) return;
+        const item = createDashboardItem(selectedRecommendation);
+        setDashboard(current => current
+            ? { ...current, items: [...current.items, item] }
+            : { title: reopenedName || sourceName, notes: dataAnalysis || '', items: [item] });
+    };
+
+    const handleRecommendationReset = () => {
+        const original = originalRecommendations[selectedIndex];
+        if (original) handleRecommendationEdit(original);
+    };
+
+    const dataFields = useMemo(() => (dataProfile ? dataProfile.columns.map(column => column.name) : []), [dataProfile]);
+    // Charts get the rows after the recommendation's transform, then an aggregated or sampled copy if that is still large.
+    const { rows: transformedData, failed: failedStep } = useMemo(
+        () => runTransform(processedData, selectedRecommendation?.transform),
+        [processedData, selectedRecommendation?.transform]
+    );
+    const chartData = useMemo(
+        () => reduceForChart(transformedData, selectedRecommendation),
+        [transformedData, selectedRecommendation]
+    );
+    const chartFields = useMemo(
+        () => transformedFields(dataFields, selectedRecommendation?.transform) ?? columnsOf(transformedData),
+        [dataFields, selectedRecommendation?.transform, transformedData]
+    );
 
     return (
-        <div className="p-6 bg-white/40 backdrop-blur-xl border border-white/50 rounded-3xl shadow-2xl shadow-indigo-200/50 flex flex-col gap-6">
-            <div className="w-full text-center pb-4 border-b border-gray-300/50">
+        <div className="p-6 bg-white/40 dark:bg-slate-800/50 backdrop-blur-xl border border-white/50 dark:border-slate-700 rounded-3xl shadow-2xl shadow-indigo-200/50 dark:shadow-black/40 flex flex-col gap-6">
+            <div className="w-full text-center pb-4 border-b border-gray-300/50 dark:border-slate-700">
                 <div className="grid grid-cols-2">
-                    <div className={`font-semibold ${hasData ? 'text-gray-500' : 'text-indigo-600'}`}>{t('dataToGraph.step1')}</div>
-                    <div className={`font-semibold ${hasData ? 'text-indigo-600' : 'text-gray-500'}`}>{t('dataToGraph.step2')}</div>
+                    <div className={`font-semibold ${hasData ? 'text-gray-500 dark:text-slate-400' : 'text-indigo-600'}`}>{t('dataToGraph.step1')}</div>
+                    <div className={`font-semibold ${hasData ? 'text-indigo-600' : 'text-gray-500 dark:text-slate-400'}`}>{t('dataToGraph.step2')}</div>
                 </div>
             </div>
 
@@ -341,9 +415,9 @@ const DataToGraphPanel: React.FC = () => {
                 <div>
                      <FileUpload onFileUpload={handleFileUpload} disabled={isLoading} />
                      <div className="relative flex py-2 items-center">
-                        <div className="flex-grow border-t border-gray-300"></div>
-                        <span className="flex-shrink mx-4 text-gray-400 text-sm">OR</span>
-                        <div className="flex-grow border-t border-gray-300"></div>
+                        <div className="flex-grow border-t border-gray-300 dark:border-slate-700"></div>
+                        <span className="flex-shrink mx-4 text-gray-400 dark:text-slate-400 text-sm">OR</span>
+                        <div className="flex-grow border-t border-gray-300 dark:border-slate-700"></div>
                     </div>
                      <input
                         type="text"
@@ -351,7 +425,7 @@ const DataToGraphPanel: React.FC = () => {
                         value={url}
                         onChange={handleUrlChange}
                         disabled={isLoading}
-                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-400 disabled:bg-gray-100"
+                        className="w-full px-3 py-2 border border-gray-300 dark:border-slate-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-400 disabled:bg-gray-100 dark:disabled:bg-slate-700/50"
                     />
                 </div>
                 <div className="flex flex-col items-center justify-center h-full gap-2">
@@ -360,12 +434,25 @@ const DataToGraphPanel: React.FC = () => {
                         disabled={!file && !url || isLoading}
                         className="w-full h-36 bg-gradient-to-br from-indigo-500 to-purple-600 text-white font-bold py-3 px-6 rounded-xl shadow-lg hover:shadow-xl transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed disabled:shadow-md flex items-center justify-center text-lg focus:outline-none focus:ring-4 focus:ring-indigo-300"
                     >
-                        {isLoading ? <Loader /> : `✨ ${t('dataToGraph.generateButton')}`}
+                        {isLoading ? (
+                            <Loader
+                                label={parseProgress ? t(`loader.${parseProgress.stage}`) : undefined}
+                                progress={parseProgress?.fraction}
+                            />
+                        ) : `✨ ${t('dataToGraph.generateButton')}`}
                     </button>
+                    {isLoading && (
+                        <button
+                            onClick={handleCancel}
+                            className="text-sm text-gray-500 dark:text-slate-400 hover:text-red-600 hover:underline"
+                        >
+                            {t('dataToGraph.cancel')}
+                        </button>
+                    )}
                     {(file || url) && !isLoading && (
                         <button
                             onClick={handleClear}
-                            className="text-sm text-gray-500 hover:text-indigo-600 hover:underline"
+                            className="text-sm text-gray-500 dark:text-slate-400 hover:text-indigo-600 hover:underline"
                         >
                             Clear
                         </button>
@@ -373,12 +460,51 @@ const DataToGraphPanel: React.FC = () => {
                 </div>
             </div>
 
-            {error && <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded-lg relative" role="alert">{error}</div>}
+            {spreadsheet && spreadsheetOptions && (
+                <SpreadsheetOptionsPanel
+                    spreadsheet={spreadsheet}
+                    options={spreadsheetOptions}
+                    onChange={setSpreadsheetOptions}
+                    disabled={isLoading}
+                />
+            )}
+
+            {replotSource && (
+                <div className="flex items-center justify-between gap-4 bg-indigo-50 dark:bg-indigo-400/15 border border-indigo-200 text-indigo-700 px-4 py-3 rounded-lg text-sm">
+                    <span>{t('dataToGraph.replotFrom', { source: replotSource.sourceName })}</span>
+                    {!isLoading && (
+                        <button onClick={handleClear} className="text-indigo-500 hover:text-indigo-700 hover:underline">
+                            {t('dataToGraph.replotDismiss')}
+                        </button>
+                    )}
+                </div>
+            )}
+
+            {reopenedName && (
+                <div className="bg-indigo-50 dark:bg-indigo-400/15 border border-indigo-200 text-indigo-700 px-4 py-3 rounded-lg text-sm">
+                    {t('history.reopened', { name: reopenedName })}
+                </div>
+            )}
+
+            {error && <ErrorAlert message={error} details={errorDetails} />}
+
+            {isLoading && streamedAnalysis && (
+                <div className="prose prose-sm max-w-none bg-white/50 dark:bg-slate-800/50 p-4 rounded-lg overflow-y-auto max-h-48 border">
+                    <p className="text-xs font-semibold text-indigo-500 animate-pulse mb-2">{t('streaming.receiving')}</p>
+                    <pre className="whitespace-pre-wrap font-sans text-sm">{streamedAnalysis}</pre>
+                </div>
+            )}
+
+            {rowStats?.sampled && (
+                <div className="bg-amber-50 border border-amber-200 text-amber-800 px-4 py-3 rounded-lg text-sm">
+                    {t('dataToGraph.rowsSampled', { loaded: rowStats.loaded.toLocaleString(), total: rowStats.total.toLocaleString() })}
+                </div>
+            )}
 
             {chartRecommendations.length > 0 && (
                 <div className="flex flex-col">
-                    <h2 className="text-xl font-semibold text-gray-700 mb-4 text-center">{t('dataToGraph.step3')}</h2>
-                    <div className="prose prose-sm max-w-none bg-white/50 p-4 rounded-lg mb-4 overflow-y-auto max-h-48 border">
+                    <h2 className="text-xl font-semibold text-gray-700 dark:text-slate-200 mb-4 text-center">{t('dataToGraph.step3')}</h2>
+                    <div className="prose prose-sm max-w-none bg-white/50 dark:bg-slate-800/50 p-4 rounded-lg mb-4 overflow-y-auto max-h-48 border">
                         <pre className="whitespace-pre-wrap font-sans text-sm">{dataAnalysis}</pre>
                     </div>
 
@@ -387,7 +513,7 @@ const DataToGraphPanel: React.FC = () => {
                             <button
                                 key={i}
                                 onClick={() => setSelectedRecommendation(rec)}
-                                className={`p-4 rounded-xl transition-all duration-300 text-left flex flex-col justify-between ${selectedRecommendation?.title === rec.title ? 'bg-indigo-500 text-white shadow-lg scale-105' : 'bg-white/60 hover:bg-white'}`}
+                                className={`p-4 rounded-xl transition-all duration-300 text-left flex flex-col justify-between ${i === selectedIndex ? 'bg-indigo-500 text-white shadow-lg scale-105' : 'bg-white/60 dark:bg-slate-800/50 hover:bg-white dark:hover:bg-slate-700/90'}`}
                             >
                                 <h3 className="font-semibold text-center text-base mb-2">{rec.title}</h3>
                                 <p className="text-xs text-center opacity-80">{rec.reason}</p>
@@ -395,10 +521,89 @@ const DataToGraphPanel: React.FC = () => {
                         ))}
                     </div>
                     {selectedRecommendation && (
-                         <div className="bg-white/60 rounded-xl p-4 min-h-[420px] flex items-center justify-center">
-                           <AntdChart key={selectedRecommendation.title} recommendation={selectedRecommendation} data={processedData} />
-                         </div>
+                        <div className="grid grid-cols-1 lg:grid-cols-4 gap-4">
+                            <div className="lg:col-span-3">
+                                {!replotSource && (
+                                    <div className="bg-white/60 dark:bg-slate-800/50 rounded-xl p-4 min-h-[420px] flex items-center justify-center">
+                                        <div className="w-full">
+                                            <AntdChart key={selectedIndex} recommendation={selectedRecommendation} data={chartData.data} />
+                                        </div>
+                                    </div>
+                                )}
+                                {replotSource && (
+                                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                        <div className="bg-white/60 dark:bg-slate-800/50 rounded-xl p-4 flex flex-col items-center">
+                                            <h3 className="text-sm font-semibold text-gray-600 dark:text-slate-300 mb-2">{t('dataToGraph.originalImage')}</h3>
+                                            <div className="flex-grow flex items-center justify-center min-h-[400px]">
+                                                <img src={replotSource.imageSrc} alt={t('dataToGraph.originalImage')} className="max-h-[400px] rounded-lg shadow-md" />
+                                            </div>
+                                        </div>
+                                        <div className="bg-white/60 dark:bg-slate-800/50 rounded-xl p-4 flex flex-col">
+                                            <h3 className="text-sm font-semibold text-gray-600 dark:text-slate-300 mb-2 text-center">{t('dataToGraph.regeneratedChart')}</h3>
+                                            <div className="flex-grow min-h-[400px] flex items-center justify-center">
+                                                <div className="w-full">
+                                                    <AntdChart key={selectedIndex} recommendation={selectedRecommendation} data={chartData.data} />
+                                                </div>
+                                            </div>
+                                        </div>
+                                    </div>
+                                )}
+                                {failedStep && (
+                                    <p className="mt-2 text-xs text-red-600 text-center">
+                                        {t('transform.stepFailed', { step: String(failedStep.index + 1), message: failedStep.message })}
+                                    </p>
+                                )}
+                                {chartData.reduction !== 'none' && (
+                                    <p className="mt-2 text-xs text-gray-500 dark:text-slate-400 text-center">
+                                        {chartData.reduction === 'aggregated'
+                                            ? t(chartData.aggregation === 'sum' ? 'dataToGraph.chartSummed' : 'dataToGraph.chartAggregated', { points: chartData.data.length.toLocaleString(), rows: chartData.originalCount.toLocaleString(), fields: (chartData.groupedBy || []).join(', ') })
+                                            : t('dataToGraph.chartSampled', { points: chartData.data.length.toLocaleString(), rows: chartData.originalCount.toLocaleString() })}
+                                    </p>
+                                )}
+                                <div className="mt-3 flex flex-col items-center gap-2">
+                                    <ChartExportMenu recommendation={selectedRecommendation} data={chartData.data} />
+                                    <button onClick={handlePin} className="px-3 py-1.5 text-sm font-semibold text-white bg-indigo-500 rounded-lg hover:bg-indigo-600 transition-colors">
+                                        📌 {t('dashboard.pin')}
+                                    </button>
+                                </div>
+                                {dataProfile && (
+                                    <div className="mt-4">
+                                        <ChartRefinementChat
+                                            key={selectedIndex}
+                                            recommendation={selectedRecommendation}
+                                            profile={dataProfile}
+                                            steps={refinements[selectedIndex] || []}
+                                            onStepsChange={handleRefinementStepsChange}
+                                            onChange={handleRecommendationEdit}
+                                        />
+                                    </div>
+                                )}
+                            </div>
+                            <ChartConfigEditor
+                                recommendation={selectedRecommendation}
+                                fields={chartFields}
+                                onChange={handleRecommendationEdit}
+                                onReset={selectedRecommendation !== originalRecommendations[selectedIndex] ? handleRecommendationReset : undefined}
+                            />
+                            <div className="lg:col-span-4">
+                                <TransformEditor
+                                    recommendation={selectedRecommendation}
+                                    data={processedData}
+                                    fields={dataFields}
+                                    onChange={handleRecommendationEdit}
+                                />
+                            </div>
+                        </div>
                     )}
+                    <div className="mt-6">
+                        <DashboardComposer
+                            dashboard={dashboard}
+                            data={processedData}
+                            fields={dataFields}
+                            sourceName={sourceName}
+                            onChange={setDashboard}
+                        />
+                    </div>
                 </div>
             )}
         </div>
@@ -0,0 +1,32 @@
+import React, { useState } from 'react';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface ErrorAlertProps {
+  message: string;
+  details?: string[];
+}
+
+const ErrorAlert: React.FC<ErrorAlertProps> = ({ message, details = [] }) => {
+  const [showDetails, setShowDetails] = useState(false);
+  const { t } = useTranslation();
+
+  return (
+    <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded-lg relative" role="alert">
+      <p>{message}</p>
+      {details.length > 0 && (
+        <>
+          <button onClick={() => setShowDetails(!showDetails)} className="mt-1 text-sm underline hover:text-red-900">
+            {showDetails ? t('errors.hideDetails') : t('errors.showDetails')}
+          </button>
+          {showDetails && (
+            <ul className="mt-2 list-disc list-inside text-sm font-mono break-words">
+              {details.map((detail, i) => <li key={i}>{detail}</li>)}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ErrorAlert;
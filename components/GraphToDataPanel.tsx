@@ -1,20 +1,32 @@
-
-import React, { useState, useCallback } from 'react';
-import type { ExtractedDataResponse } from '../types';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import { Mode } from '../types';
+import type { ExtractedDataResponse, ExtractedDataSeries, GraphToDataHistoryEntry, ReopenRequest, ReplotRequest } from '../types';
 import { analyzeGraphImage } from '../services/aiService';
+import { promptLanguage } from '../services/promptTemplates';
+import { downloadBlob, exportSeriesAsCsv, exportSeriesAsJson, exportSeriesAsXlsx } from '../services/exportService';
+import { describeError, isAbortError } from '../services/errors';
+import { createHistoryId, createRunMetadata, fingerprintBlob, recordHistoryEntry } from '../services/historyStore';
+import { IMAGE_TYPES, blobToBase64, isImageFile } from '../services/imageInput';
+import { imageFromClipboard } from '../services/clipboard';
+import { DEFAULT_ADJUSTMENTS, prepareImage } from '../services/imageProcessing';
+import type { ImageAdjustments } from '../services/imageProcessing';
+import { getProvider } from '../services/providers';
+import { isPdfFile } from '../services/pdfDocument';
 import Loader from './Loader';
+import ErrorAlert from './ErrorAlert';
+import DataGrid from './DataGrid';
+import BatchQueue from './BatchQueue';
+import type { BatchInput, BatchResult } from './BatchQueue';
+import PdfRegionPicker from './PdfRegionPicker';
+import ImageAdjustPanel from './ImageAdjustPanel';
+import AxisCalibrator from './AxisCalibrator';
 import { useTranslation } from '../hooks/useTranslation';
 import { useModel } from '../hooks/useModel';
+import { usePromptTemplates } from '../hooks/usePromptTemplates';
+import { usePasteHandler } from '../hooks/usePasteHandler';
 
-const blobToBase64 = (blob: Blob): Promise<string> =>
-  new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.readAsDataURL(blob);
-    reader.onload = () => resolve((reader.result as string).split(',')[1]);
-    reader.onerror = (error) => reject(error);
-  });
-
-const FileUpload: React.FC<{ onFileUpload: (file: File) => void; disabled: boolean }> = ({ onFileUpload, disabled }) => {
+// Several images at once start a batch, a PDF opens the page picker; unsupported files in a drop are skipped.
+const FileUpload: React.FC<{ onFilesUpload: (files: File[]) => void; disabled: boolean }> = ({ onFilesUpload, disabled }) => {
   const [isDragging, setIsDragging] = useState(false);
   const { t } = useTranslation();
 
@@ -33,12 +45,13 @@ const FileUpload: React.FC<{ onFileUpload: (file: File) => void; disabled: boole
     e.stopPropagation();
     setIsDragging(false);
     if (disabled || !e.dataTransfer.files || e.dataTransfer.files.length === 0) return;
-    onFileUpload(e.dataTransfer.files[0]);
+    onFilesUpload(Array.from(e.dataTransfer.files).filter((dropped: File) => isImageFile(dropped) || isPdfFile(dropped)));
   };
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (disabled || !e.target.files || e.target.files.length === 0) return;
-    onFileUpload(e.target.files[0]);
+    onFilesUpload(Array.from(e.target.files));
+    e.target.value = '';
   };
 
   return (
@@ -48,33 +61,72 @@ const FileUpload: React.FC<{ onFileUpload: (file: File) => void; disabled: boole
       onDragLeave={handleDrag}
       onDrop={handleDrop}
       className={`flex flex-col items-center justify-center w-full h-36 border-2 border-dashed rounded-xl cursor-pointer transition-colors duration-300 ease-in-out ${
-        isDragging ? 'border-purple-500 bg-purple-50' : 'border-gray-300 hover:border-purple-400 hover:bg-purple-50/50'
-      } ${disabled ? 'cursor-not-allowed bg-gray-100' : ''}`}
+        isDragging ? 'border-purple-500 bg-purple-50 dark:bg-indigo-400/15' : 'border-gray-300 dark:border-slate-700 hover:border-purple-400 hover:bg-purple-50/50'
+      } ${disabled ? 'cursor-not-allowed bg-gray-100 dark:bg-slate-700/50' : ''}`}
     >
       <div className="flex flex-col items-center justify-center pt-5 pb-6">
-        <svg className="w-10 h-10 mb-3 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z"></path></svg>
-        <p className="mb-2 text-sm text-gray-500"><span className="font-semibold">{t('fileUpload.click')}</span> {t('fileUpload.orDrag')}</p>
-        <p className="text-xs text-gray-500">{t('graphToData.fileTypes')}</p>
+        <svg className="w-10 h-10 mb-3 text-gray-400 dark:text-slate-400" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z"></path></svg>
+        <p className="mb-2 text-sm text-gray-500 dark:text-slate-400"><span className="font-semibold">{t('fileUpload.click')}</span> {t('fileUpload.orDrag')}</p>
+        <p className="text-xs text-gray-500 dark:text-slate-400">{t('graphToData.fileTypes')}</p>
+        <p className="text-xs text-gray-400 dark:text-slate-400">{t('paste.imageHint')}</p>
       </div>
-      <input type="file" className="hidden" onChange={handleChange} accept="image/jpeg,image/png,image/gif" disabled={disabled} />
+      <input type="file" className="hidden" onChange={handleChange} accept={[...IMAGE_TYPES, 'application/pdf'].join(',')} multiple disabled={disabled} />
     </label>
   );
 };
 
-const GraphToDataPanel: React.FC = () => {
+interface GraphToDataPanelProps {
+    onReplot: (request: Omit<ReplotRequest, 'id'>) => void;
+    reopenRequest?: ReopenRequest<GraphToDataHistoryEntry> | null;
+    // Only the panel on show reacts to pasted content; both stay mounted behind the flip.
+    isActive: boolean;
+}
+
+const GraphToDataPanel: React.FC<GraphToDataPanelProps> = ({ onReplot, reopenRequest, isActive }) => {
     const [file, setFile] = useState<File | null>(null);
     const [url, setUrl] = useState('');
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    const [errorDetails, setErrorDetails] = useState<string[]>([]);
     const [extractedData, setExtractedData] = useState<ExtractedDataResponse | null>(null);
+    const [dataSeries, setDataSeries] = useState<ExtractedDataSeries | null>(null);
     const [imagePreview, setImagePreview] = useState<string | null>(null);
-    const { t } = useTranslation();
+    // Data URL of the image that produced the current result; survives revoking the blob preview.
+    const [analyzedImage, setAnalyzedImage] = useState<string | null>(null);
+    // Name of the history entry being shown, when a past run was reopened.
+    const [reopenedName, setReopenedName] = useState<string | null>(null);
+    // The report as it streams in, shown while the model is still answering.
+    const [streamedReport, setStreamedReport] = useState<string | null>(null);
+    // Images queued for batch extraction, when several were uploaded at once or cropped from a PDF.
+    const [batchInputs, setBatchInputs] = useState<BatchInput[] | null>(null);
+    // Dropped PDFs go through the region picker in turn; the first one is being picked from.
+    const [pdfQueue, setPdfQueue] = useState<File[]>([]);
+    const [pdfTotal, setPdfTotal] = useState(0);
+    // Images dropped alongside the PDFs and regions extracted from earlier ones, queued with the last document's regions.
+    const [pendingInputs, setPendingInputs] = useState<BatchInput[]>([]);
+    // Source of a result opened from the batch queue.
+    const [batchResultName, setBatchResultName] = useState<string | null>(null);
+    // Crop, rotation and contrast applied to the uploaded image before it is sent.
+    const [adjustments, setAdjustments] = useState<ImageAdjustments>(DEFAULT_ADJUSTMENTS);
+    const [showCalibration, setShowCalibration] = useState(false);
+    // Cancels the running extraction.
+    const abortRef = useRef<AbortController | null>(null);
+    const { t, language } = useTranslation();
     const { modelConfig } = useModel();
-    const hasData = file || url;
+    const { getPrompt } = usePromptTemplates();
+    const imageLimits = getProvider(modelConfig.graphToData.provider).imageLimits;
+    const hasData = file || url || batchInputs || pdfQueue.length > 0;
 
     const cleanup = () => {
         setError(null);
+        setErrorDetails([]);
         setExtractedData(null);
+        setDataSeries(null);
+        setAnalyzedImage(null);
+        setReopenedName(null);
+        setBatchResultName(null);
+        setAdjustments(DEFAULT_ADJUSTMENTS);
+        setShowCalibration(false);
         if (imagePreview && imagePreview.startsWith('blob:')) {
             URL.revokeObjectURL(imagePreview);
         }
@@ -85,19 +137,77 @@ const GraphToDataPanel: React.FC = () => {
         cleanup();
         setFile(null);
         setUrl('');
+        setBatchInputs(null);
+        setPdfQueue([]);
+        setPendingInputs([]);
     }
 
     const handleFileUpload = (uploadedFile: File) => {
         cleanup();
         setFile(uploadedFile);
         setUrl('');
+        setBatchInputs(null);
+        setPdfQueue([]);
+        setPendingInputs([]);
         setImagePreview(URL.createObjectURL(uploadedFile));
     };
 
+    const handleFilesUpload = (uploadedFiles: File[]) => {
+        if (uploadedFiles.length === 0) return;
+        if (uploadedFiles.length === 1 && !isPdfFile(uploadedFiles[0])) {
+            handleFileUpload(uploadedFiles[0]);
+            return;
+        }
+        cleanup();
+        setFile(null);
+        setUrl('');
+        setBatchInputs(null);
+        setPdfQueue([]);
+        setPendingInputs([]);
+        const pdfs = uploadedFiles.filter(isPdfFile);
+        const images = uploadedFiles.filter(uploaded => !isPdfFile(uploaded)).map(uploaded => ({ file: uploaded, name: uploaded.name }));
+        if (pdfs.length > 0) {
+            setPdfQueue(pdfs);
+            setPdfTotal(pdfs.length);
+            setPendingInputs(images);
+        } else {
+            setBatchInputs(images);
+        }
+    };
+
+    // Moves on to the next PDF; the last one starts the batch and stays open so its regions can be re-extracted.
+    const handlePdfExtract = (inputs: BatchInput[]) => {
+        if (pdfQueue.length > 1) {
+            setPendingInputs(prev => [...prev, ...inputs]);
+            setPdfQueue(queue => queue.slice(1));
+        } else {
+            setBatchInputs([...pendingInputs, ...inputs]);
+        }
+    };
+
+    usePasteHandler(isActive, e => {
+        if (isLoading) return;
+        const pasted = imageFromClipboard(e.clipboardData);
+        if (!pasted) return;
+        e.preventDefault();
+        handleFileUpload(pasted);
+    });
+
+    const handleOpenBatchResult = (result: BatchResult) => {
+        cleanup();
+        setExtractedData({ isChart: true, report: result.report, data: result.series || undefined });
+        setDataSeries(result.series);
+        setAnalyzedImage(result.imageSrc);
+        setBatchResultName(result.sourceName);
+    };
+
     const handleUrlChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         cleanup();
         setUrl(e.target.value);
         setFile(null);
+        setBatchInputs(null);
+        setPdfQueue([]);
+        setPendingInputs([]);
         if (e.target.value) {
             setImagePreview(e.target.value);
         }
@@ -106,77 +216,148 @@ const GraphToDataPanel: React.FC = () => {
     const handleDigest = useCallback(async () => {
         if (!file && !url) return;
 
+        abortRef.current?.abort();
+        const controller = new AbortController();
+        abortRef.current = controller;
         setIsLoading(true);
         setError(null);
+        setErrorDetails([]);
         setExtractedData(null);
+        setDataSeries(null);
+        setStreamedReport(null);
 
         try {
-            let base64Image: string;
-            let mimeType: string;
-
+            let source: Blob;
             if (file) {
-                base64Image = await blobToBase64(file);
-                mimeType = file.type;
+                source = file;
             } else {
                  if (!url.startsWith('http')) {
                     throw new Error(t('errors.invalidUrl'));
                 }
-                const response = await fetch(url);
+                const response = await fetch(url, { signal: controller.signal });
                 if (!response.ok) {
                     throw new Error(t('errors.urlFetchFailed'));
                 }
-                const blob = await response.blob();
-                base64Image = await blobToBase64(blob);
-                mimeType = blob.type;
+                source = await response.blob();
             }
+            // The fingerprint identifies the original image; the model receives the processed copy.
+            const fingerprint = await fingerprintBlob(source);
+            const prepared = await prepareImage(source, file ? adjustments : DEFAULT_ADJUSTMENTS, imageLimits);
+            const base64Image = await blobToBase64(prepared.blob);
+            const mimeType = prepared.blob.type;
             
-            const result = await analyzeGraphImage(base64Image, mimeType, modelConfig.graphToData);
+            const sourceName = file?.name || url;
+            const prompt = getPrompt('graphToData');
+            const result = await analyzeGraphImage(base64Image, mimeType, modelConfig.graphToData, {
+                signal: controller.signal,
+                promptTemplate: prompt.text,
+                language: promptLanguage(language),
+                fileName: sourceName,
+                onPartialText: text => {
+                    if (!controller.signal.aborted) setStreamedReport(text);
+                },
+            });
+            // Providers that ignore the signal can still resolve after a cancel; drop their result.
+            if (controller.signal.aborted) return;
             
             if (result.isChart) {
                 setExtractedData(result);
+                setDataSeries(result.data || null);
+                const imageSrc = `data:${mimeType};base64,${base64Image}`;
+                setAnalyzedImage(imageSrc);
+
+                const entry: GraphToDataHistoryEntry = {
+                    ...(await createRunMetadata(modelConfig.graphToData, prompt, fingerprint, sourceName)),
+                    id: createHistoryId(),
+                    name: sourceName,
+                    createdAt: Date.now(),
+                    mode: Mode.GRAPH_TO_DATA,
+                    report: result.report || '',
+                    series: result.data || null,
+                    imageSrc,
+                };
+                recordHistoryEntry(entry);
             } else {
                 setError(result.reason || t('errors.notAGraph'));
             }
         } catch (err) {
-            setError(err instanceof Error ? err.message : t('errors.unknown'));
+            if (isAbortError(err)) return;
+            const { message, details } = describeError(err, t);
+            setError(message);
+            setErrorDetails(details);
         } finally {
-            setIsLoading(false);
+            if (abortRef.current === controller) {
+                abortRef.current = null;
+                setIsLoading(false);
+                setStreamedReport(null);
+            }
         }
-    }, [file, url, t, modelConfig]);
+    }, [file, url, t, language, modelConfig, getPrompt, adjustments, imageLimits]);
+
+    const handleCancel = () => {
+        abortRef.current?.abort();
+        abortRef.current = null;
+        setIsLoading(false);
+        setStreamedReport(null);
+    };
+
+    // Stop any running extraction when the panel goes away.
+    useEffect(() => () => abortRef.current?.abort(), []);
+
+    // Restores a run picked from the history drawer without calling the model again.
+    useEffect(() => {
+        if (!reopenRequest) return;
+        const { entry } = reopenRequest;
+        cleanup();
+        setFile(null);
+        setUrl('');
+        setBatchInputs(null);
+        setPdfQueue([]);
+        setPendingInputs([]);
+        setExtractedData({ isChart: true, report: entry.report, data: entry.series || undefined });
+        setDataSeries(entry.series);
+        setAnalyzedImage(entry.imageSrc);
+        setReopenedName(entry.name);
+    }, [reopenRequest?.id]);
 
     const handleDownloadReport = () => {
         if (!extractedData?.report) return;
 
         if (window.confirm(t('graphToData.downloadConfirm'))) {
             const blob = new Blob([extractedData.report], { type: 'text/markdown;charset=utf-8' });
-            const downloadUrl = URL.createObjectURL(blob);
-            const a = document.createElement('a');
-            a.href = downloadUrl;
-            a.download = 'analysis-report.md';
-            document.body.appendChild(a);
-            a.click();
-            document.body.removeChild(a);
-            URL.revokeObjectURL(downloadUrl);
+            downloadBlob(blob, 'analysis-report.md');
         }
     };
 
+    const resultName = file?.name || batchResultName;
+    const exportBaseName = resultName ? resultName.replace(/\.[^.]+$/, '') + '-data' : 'extracted-data';
+
+    const handleReplot = () => {
+        if (!dataSeries || !analyzedImage) return;
+        onReplot({
+            series: dataSeries,
+            imageSrc: analyzedImage,
+            sourceName: resultName || url || 'extracted_data',
+        });
+    };
+
 
     return (
-        <div className="p-6 bg-white/40 backdrop-blur-xl border border-white/50 rounded-3xl shadow-2xl shadow-purple-200/50 flex flex-col gap-6">
-            <div className="w-full text-center pb-4 border-b border-gray-300/50">
+        <div className="p-6 bg-white/40 dark:bg-slate-800/50 backdrop-blur-xl border border-white/50 dark:border-slate-700 rounded-3xl shadow-2xl shadow-purple-200/50 dark:shadow-black/40 flex flex-col gap-6">
+            <div className="w-full text-center pb-4 border-b border-gray-300/50 dark:border-slate-700">
                 <div className="grid grid-cols-2">
-                    <div className={`font-semibold ${hasData ? 'text-gray-500' : 'text-purple-600'}`}>{t('graphToData.step1')}</div>
-                    <div className={`font-semibold ${hasData ? 'text-purple-600' : 'text-gray-500'}`}>{t('graphToData.step2')}</div>
+                    <div className={`font-semibold ${hasData ? 'text-gray-500 dark:text-slate-400' : 'text-purple-600'}`}>{t('graphToData.step1')}</div>
+                    <div className={`font-semibold ${hasData ? 'text-purple-600' : 'text-gray-500 dark:text-slate-400'}`}>{t('graphToData.step2')}</div>
                 </div>
             </div>
 
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6 items-center">
                 <div>
-                  <FileUpload onFileUpload={handleFileUpload} disabled={isLoading} />
+                  <FileUpload onFilesUpload={handleFilesUpload} disabled={isLoading} />
                   <div className="relative flex py-2 items-center">
-                        <div className="flex-grow border-t border-gray-300"></div>
-                        <span className="flex-shrink mx-4 text-gray-400 text-sm">OR</span>
-                        <div className="flex-grow border-t border-gray-300"></div>
+                        <div className="flex-grow border-t border-gray-300 dark:border-slate-700"></div>
+                        <span className="flex-shrink mx-4 text-gray-400 dark:text-slate-400 text-sm">OR</span>
+                        <div className="flex-grow border-t border-gray-300 dark:border-slate-700"></div>
                     </div>
                      <input
                         type="text"
@@ -184,7 +365,7 @@ const GraphToDataPanel: React.FC = () => {
                         value={url}
                         onChange={handleUrlChange}
                         disabled={isLoading}
-                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-400 disabled:bg-gray-100"
+                        className="w-full px-3 py-2 border border-gray-300 dark:border-slate-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-400 disabled:bg-gray-100 dark:disabled:bg-slate-700/50"
                     />
                 </div>
                  <div className="flex flex-col items-center justify-center h-full gap-2">
@@ -195,10 +376,18 @@ const GraphToDataPanel: React.FC = () => {
                     >
                         {isLoading ? <Loader /> : `🔎 ${t('graphToData.extractButton')}`}
                     </button>
-                    {(file || url) && !isLoading && (
+                    {isLoading && (
+                        <button
+                            onClick={handleCancel}
+                            className="text-sm text-gray-500 dark:text-slate-400 hover:text-red-600 hover:underline"
+                        >
+                            {t('graphToData.cancel')}
+                        </button>
+                    )}
+                    {hasData && !isLoading && (
                         <button
                             onClick={handleClear}
-                            className="text-sm text-gray-500 hover:text-purple-600 hover:underline"
+                            className="text-sm text-gray-500 dark:text-slate-400 hover:text-purple-600 hover:underline"
                         >
                             Clear
                         </button>
@@ -206,20 +395,92 @@ const GraphToDataPanel: React.FC = () => {
                 </div>
             </div>
 
-            {error && <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded-lg relative" role="alert">{error}</div>}
+            {reopenedName && (
+                <div className="flex flex-col sm:flex-row items-center gap-4 bg-purple-50 dark:bg-indigo-400/15 border border-purple-200 text-purple-700 px-4 py-3 rounded-lg text-sm">
+                    {analyzedImage && <img src={analyzedImage} alt={t('dataToGraph.originalImage')} className="max-h-24 rounded-md shadow" />}
+                    <span>{t('history.reopened', { name: reopenedName })}</span>
+                </div>
+            )}
+
+            {pdfQueue.length > 0 && (pdfTotal > 1 || pendingInputs.length > 0) && (
+                <p className="text-sm text-purple-700">
+                    {t('pdf.queue', { current: String(pdfTotal - pdfQueue.length + 1), total: String(pdfTotal), images: String(pendingInputs.length) })}
+                </p>
+            )}
+            {pdfQueue.length > 0 && <PdfRegionPicker key={pdfTotal - pdfQueue.length} file={pdfQueue[0]} onExtract={handlePdfExtract} />}
+
+            {batchInputs && <BatchQueue inputs={batchInputs} onOpen={handleOpenBatchResult} />}
+
+            {error && <ErrorAlert message={error} details={errorDetails} />}
+
+            {isLoading && streamedReport && (
+                <div className="rounded-xl bg-white/60 dark:bg-slate-800/50 p-6 border border-gray-200 dark:border-slate-700">
+                    <p className="text-xs font-semibold text-purple-500 animate-pulse mb-2">{t('streaming.receiving')}</p>
+                    <pre className="whitespace-pre-wrap font-sans text-sm text-gray-800 dark:text-slate-200">{streamedReport}</pre>
+                </div>
+            )}
+
+            {(file && imagePreview && !extractedData && !error) && (
+                <ImageAdjustPanel source={file} adjustments={adjustments} limits={imageLimits} onChange={setAdjustments} />
+            )}
 
-            {(imagePreview && !extractedData && !error) && (
-                 <div className="flex flex-col items-center justify-center bg-gray-50/50 rounded-xl p-4">
-                    <h3 className="text-lg font-semibold text-gray-600 mb-4">{t('graphToData.preview')}</h3>
+            {(!file && imagePreview && !extractedData && !error) && (
+                 <div className="flex flex-col items-center justify-center bg-gray-50/50 dark:bg-slate-700/50 rounded-xl p-4">
+                    <h3 className="text-lg font-semibold text-gray-600 dark:text-slate-300 mb-4">{t('graphToData.preview')}</h3>
                     <img src={imagePreview} alt={t('graphToData.previewAlt')} className="max-h-64 rounded-lg shadow-md" />
                 </div>
             )}
             
+            {dataSeries && (
+                <div className="flex flex-col">
+                    <h2 className="text-xl font-semibold text-gray-700 dark:text-slate-200 mb-2 text-center">{t('graphToData.extractedData')}</h2>
+                    {(dataSeries.title || dataSeries.xAxisLabel || dataSeries.yAxisLabel) && (
+                        <p className="text-sm text-gray-600 dark:text-slate-300 text-center mb-3">
+                            {[dataSeries.title, dataSeries.chartType, dataSeries.xAxisLabel && `X: ${dataSeries.xAxisLabel}`, dataSeries.yAxisLabel && `Y: ${dataSeries.yAxisLabel}`].filter(Boolean).join(' · ')}
+                        </p>
+                    )}
+                    <DataGrid series={dataSeries} onChange={setDataSeries} />
+                    <div className="mt-4 flex flex-wrap justify-center gap-3">
+                        {[
+                            { label: 'CSV', onClick: () => exportSeriesAsCsv(dataSeries, exportBaseName) },
+                            { label: 'JSON', onClick: () => exportSeriesAsJson(dataSeries, exportBaseName) },
+                            { label: 'XLSX', onClick: () => exportSeriesAsXlsx(dataSeries, exportBaseName) },
+                        ].map(({ label, onClick }) => (
+                            <button
+                                key={label}
+                                onClick={onClick}
+                                className="px-4 py-2 text-sm font-semibold text-purple-600 border border-purple-300 rounded-lg hover:bg-purple-50 dark:hover:bg-indigo-400/15 transition-colors"
+                            >
+                                {t('graphToData.downloadAs', { format: label })}
+                            </button>
+                        ))}
+                        <button
+                            onClick={handleReplot}
+                            disabled={!analyzedImage || dataSeries.rows.length === 0}
+                            className="px-4 py-2 text-sm font-semibold text-white bg-gradient-to-br from-indigo-500 to-purple-600 rounded-lg shadow-md hover:shadow-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            🔁 {t('graphToData.replot')}
+                        </button>
+                        <button
+                            onClick={() => setShowCalibration(shown => !shown)}
+                            disabled={!analyzedImage}
+                            className="px-4 py-2 text-sm font-semibold text-purple-600 border border-purple-300 rounded-lg hover:bg-purple-50 dark:hover:bg-indigo-400/15 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            📏 {t(showCalibration ? 'calibration.hide' : 'calibration.show')}
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {showCalibration && analyzedImage && (
+                <AxisCalibrator key={analyzedImage} imageSrc={analyzedImage} series={extractedData?.data || null} onApply={setDataSeries} />
+            )}
+
             {extractedData?.report && (
                 <div className="flex flex-col">
-                    <h2 className="text-xl font-semibold text-gray-700 mb-4 text-center">{t('graphToData.step3')}</h2>
-                    <div className="rounded-xl bg-white/60 p-6 border border-gray-200">
-                        <pre className="whitespace-pre-wrap font-sans text-sm text-gray-800">{extractedData.report}</pre>
+                    <h2 className="text-xl font-semibold text-gray-700 dark:text-slate-200 mb-4 text-center">{t('graphToData.step3')}</h2>
+                    <div className="rounded-xl bg-white/60 dark:bg-slate-800/50 p-6 border border-gray-200 dark:border-slate-700">
+                        <pre className="whitespace-pre-wrap font-sans text-sm text-gray-800 dark:text-slate-200">{extractedData.report}</pre>
                     </div>
                     <div className="mt-4 flex justify-center">
                         <button
@@ -1,24 +1,63 @@
 import React, { useState } from 'react';
 import LanguageToggle from './LanguageToggle';
+import ThemeToggle from './ThemeToggle';
 import ModelManager from './ModelManager';
-import { SettingsIcon } from './icons';
+import PromptTemplateManager from './PromptTemplateManager';
+import HistoryDrawer from './HistoryDrawer';
+import type { HistoryEntry } from '../types';
+import { HistoryIcon, PromptIcon, SettingsIcon } from './icons';
+import { useModel } from '../hooks/useModel';
 
-const Header: React.FC = () => {
+interface HeaderProps {
+  onReopenHistory: (entry: HistoryEntry) => void;
+}
+
+const Header: React.FC<HeaderProps> = ({ onReopenHistory }) => {
+  const { credentialsLocked } = useModel();
   const [isModelManagerOpen, setIsModelManagerOpen] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isPromptManagerOpen, setIsPromptManagerOpen] = useState(false);
 
   return (
     <>
       <div className="absolute top-4 right-4 flex items-center gap-2">
+        <ThemeToggle />
         <LanguageToggle />
+        <button
+          onClick={() => setIsHistoryOpen(true)}
+          className="w-10 h-10 flex items-center justify-center bg-white/50 dark:bg-slate-800/50 backdrop-blur-md rounded-full text-gray-600 dark:text-slate-300 hover:bg-white/80 dark:hover:bg-slate-700/90 transition-colors"
+          aria-label="Open History"
+        >
+          <HistoryIcon />
+        </button>
+        <button
+          onClick={() => setIsPromptManagerOpen(true)}
+          className="w-10 h-10 flex items-center justify-center bg-white/50 dark:bg-slate-800/50 backdrop-blur-md rounded-full text-gray-600 dark:text-slate-300 hover:bg-white/80 dark:hover:bg-slate-700/90 transition-colors"
+          aria-label="Open Prompt Templates"
+        >
+          <PromptIcon />
+        </button>
         <button
           onClick={() => setIsModelManagerOpen(true)}
-          className="w-10 h-10 flex items-center justify-center bg-white/50 backdrop-blur-md rounded-full text-gray-600 hover:bg-white/80 transition-colors"
+          className="relative w-10 h-10 flex items-center justify-center bg-white/50 dark:bg-slate-800/50 backdrop-blur-md rounded-full text-gray-600 dark:text-slate-300 hover:bg-white/80 dark:hover:bg-slate-700/90 transition-colors"
           aria-label="Open Model Settings"
         >
           <SettingsIcon />
+          {/* Stored API keys are encrypted and waiting for the passphrase. */}
+          {credentialsLocked && <span className="absolute -top-1 -right-1 text-xs">🔒</span>}
         </button>
       </div>
       {isModelManagerOpen && <ModelManager onClose={() => setIsModelManagerOpen(false)} />}
+      {isPromptManagerOpen && <PromptTemplateManager onClose={() => setIsPromptManagerOpen(false)} />}
+      {isHistoryOpen && (
+        <HistoryDrawer
+          onClose={() => setIsHistoryOpen(false)}
+          onReopen={entry => {
+            setIsHistoryOpen(false);
+            onReopenHistory(entry);
+          }}
+        />
+      )}
     </>
   );
 };
@@ -0,0 +1,233 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Mode } from '../types';
+import type { HistoryEntry, HistorySummary } from '../types';
+import { MAX_HISTORY_ENTRIES, deleteHistoryEntry, getHistoryEntry, listHistory, renameHistoryEntry } from '../services/historyStore';
+import { compareRunMetadata, describeResult, diffLines } from '../services/historyDiff';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface HistoryDrawerProps {
+  onClose: () => void;
+  onReopen: (entry: HistoryEntry) => void;
+}
+
+const diffLineClass = {
+  same: 'text-gray-600 dark:text-slate-300',
+  added: 'bg-green-50 text-green-800',
+  removed: 'bg-red-50 text-red-800 line-through decoration-red-300',
+};
+
+const diffLinePrefix = { same: ' ', added: '+', removed: '-' };
+
+const HistoryComparison: React.FC<{ left: HistoryEntry; right: HistoryEntry; onBack: () => void }> = ({ left, right, onBack }) => {
+  const { t } = useTranslation();
+  const fields = useMemo(() => compareRunMetadata(left, right), [left, right]);
+  const lines = useMemo(() => diffLines(describeResult(left), describeResult(right)), [left, right]);
+  const promptLines = useMemo(
+    () => left.promptText !== undefined && right.promptText !== undefined && left.promptText !== right.promptText
+      ? diffLines(left.promptText, right.promptText)
+      : [],
+    [left, right]
+  );
+
+  return (
+    <div className="flex flex-col gap-4 min-h-0">
+      <button onClick={onBack} className="self-start text-sm text-indigo-600 hover:underline">← {t('history.back')}</button>
+      <table className="w-full text-xs border border-gray-200 dark:border-slate-700 rounded-lg overflow-hidden">
+        <thead className="bg-gray-100 dark:bg-slate-700/50">
+          <tr>
+            <th className="px-2 py-1 text-left"></th>
+            <th className="px-2 py-1 text-left font-semibold text-gray-700 dark:text-slate-200">{left.name}</th>
+            <th className="px-2 py-1 text-left font-semibold text-gray-700 dark:text-slate-200">{right.name}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {fields.map(field => (
+            <tr key={field.labelKey} className={`border-t border-gray-100 dark:border-slate-700 ${field.changed ? 'bg-amber-50' : ''}`}>
+              <td className="px-2 py-1 font-medium text-gray-600 dark:text-slate-300 whitespace-nowrap">{t(field.labelKey)}</td>
+              <td className="px-2 py-1 text-gray-700 dark:text-slate-200 break-all">{field.left}</td>
+              <td className="px-2 py-1 text-gray-700 dark:text-slate-200 break-all">{field.right}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div className="overflow-auto rounded-lg border border-gray-200 dark:border-slate-700 bg-white/70 dark:bg-slate-800/90 font-mono text-xs">
+        {lines.map((line, i) => (
+          <div key={i} className={`px-2 whitespace-pre-wrap ${diffLineClass[line.type]}`}>
+            {diffLinePrefix[line.type]} {line.text}
+          </div>
+        ))}
+      </div>
+      {promptLines.length > 0 && (
+        <>
+          <h3 className="text-sm font-semibold text-gray-700 dark:text-slate-200">{t('history.promptDiff')}</h3>
+          <div className="overflow-auto rounded-lg border border-gray-200 dark:border-slate-700 bg-white/70 dark:bg-slate-800/90 font-mono text-xs">
+            {promptLines.map((line, i) => (
+              <div key={i} className={`px-2 whitespace-pre-wrap ${diffLineClass[line.type]}`}>
+                {diffLinePrefix[line.type]} {line.text}
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+const HistoryDrawer: React.FC<HistoryDrawerProps> = ({ onClose, onReopen }) => {
+  const { t } = useTranslation();
+  const [entries, setEntries] = useState<HistorySummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editing, setEditing] = useState<{ id: string; name: string } | null>(null);
+  // Up to two entries picked for comparison.
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  // The two full entries being compared, loaded when the comparison opens.
+  const [comparison, setComparison] = useState<[HistoryEntry, HistoryEntry] | null>(null);
+
+  const showError = (err: unknown) => setError(err instanceof Error ? err.message : String(err));
+
+  const reload = () => {
+    listHistory()
+      .then(list => {
+        setEntries(list);
+        setError(null);
+      })
+      .catch(showError)
+      .finally(() => setIsLoading(false));
+  };
+
+  useEffect(reload, []);
+
+  // Summaries leave out the data, so the full entry is read before it is used.
+  const loadEntry = async (id: string) => {
+    const entry = await getHistoryEntry(id);
+    if (!entry) throw new Error(t('history.missing'));
+    return entry;
+  };
+
+  const handleRename = async () => {
+    if (!editing) return;
+    const name = editing.name.trim();
+    setEditing(null);
+    if (!name) return;
+    try {
+      await renameHistoryEntry(editing.id, name);
+      reload();
+    } catch (err) {
+      showError(err);
+    }
+  };
+
+  const handleDelete = async (entry: HistorySummary) => {
+    if (!window.confirm(t('history.deleteConfirm', { name: entry.name }))) return;
+    try {
+      await deleteHistoryEntry(entry.id);
+      setSelectedIds(ids => ids.filter(id => id !== entry.id));
+      reload();
+    } catch (err) {
+      showError(err);
+    }
+  };
+
+  const handleReopen = async (entry: HistorySummary) => {
+    try {
+      onReopen(await loadEntry(entry.id));
+    } catch (err) {
+      showError(err);
+    }
+  };
+
+  const handleCompare = async () => {
+    try {
+      const [left, right] = await Promise.all(selectedIds.map(loadEntry));
+      setComparison([left, right]);
+    } catch (err) {
+      showError(err);
+    }
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(ids => ids.includes(id) ? ids.filter(other => other !== id) : [...ids.slice(-1), id]);
+  };
+
+  const selected = selectedIds.map(id => entries.find(entry => entry.id === id)).filter((entry): entry is HistorySummary => !!entry);
+  const canCompare = selected.length === 2 && selected[0].mode === selected[1].mode;
+
+  return (
+    <div className="fixed inset-0 bg-black/30 backdrop-blur-sm flex justify-end z-50" onClick={onClose}>
+      <aside className="bg-white/90 dark:bg-slate-800/90 backdrop-blur-xl shadow-2xl w-full max-w-xl h-full p-6 border-l border-white/50 dark:border-slate-700 flex flex-col gap-4" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+          <h2 className="text-2xl font-bold text-gray-800 dark:text-slate-200">{t('history.title')}</h2>
+          <button onClick={onClose} className="text-gray-500 dark:text-slate-400 hover:text-gray-800 dark:hover:text-slate-200 text-xl" aria-label={t('history.close')}>×</button>
+        </div>
+
+        {comparison ? (
+          <HistoryComparison left={comparison[0]} right={comparison[1]} onBack={() => setComparison(null)} />
+        ) : (
+          <>
+            <div className="flex items-center justify-between gap-3 text-sm">
+              <span className="text-gray-500 dark:text-slate-400">{t('history.compareHint')}</span>
+              <button
+                onClick={handleCompare}
+                disabled={!canCompare}
+                className="px-3 py-1.5 font-semibold text-indigo-600 border border-indigo-300 rounded-lg hover:bg-indigo-50 dark:hover:bg-indigo-400/15 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {t('history.compare')}
+              </button>
+            </div>
+            {selected.length === 2 && !canCompare && <p className="text-xs text-amber-700">{t('history.compareModeMismatch')}</p>}
+
+            <div className="flex-grow overflow-y-auto flex flex-col gap-2">
+              {isLoading && <p className="text-sm text-gray-500 dark:text-slate-400">{t('history.loading')}</p>}
+              {error && <p className="text-sm text-red-600">{error}</p>}
+              {!isLoading && !error && entries.length === 0 && <p className="text-sm text-gray-500 dark:text-slate-400">{t('history.empty')}</p>}
+              {entries.length >= MAX_HISTORY_ENTRIES && <p className="text-xs text-gray-500 dark:text-slate-400">{t('history.limit', { count: String(MAX_HISTORY_ENTRIES) })}</p>}
+              {entries.map(entry => (
+                <div key={entry.id} className={`rounded-xl border p-3 bg-white/70 dark:bg-slate-800/90 flex gap-3 items-start ${selectedIds.includes(entry.id) ? 'border-indigo-400' : 'border-gray-200 dark:border-slate-700'}`}>
+                  <input
+                    type="checkbox"
+                    checked={selectedIds.includes(entry.id)}
+                    onChange={() => toggleSelected(entry.id)}
+                    className="mt-1"
+                    aria-label={t('history.select')}
+                  />
+                  <div className="flex-grow min-w-0">
+                    {editing?.id === entry.id ? (
+                      <input
+                        autoFocus
+                        value={editing.name}
+                        onChange={e => setEditing({ id: entry.id, name: e.target.value })}
+                        onBlur={handleRename}
+                        onKeyDown={e => {
+                          if (e.key === 'Enter') handleRename();
+                          if (e.key === 'Escape') setEditing(null);
+                        }}
+                        className="w-full px-2 py-1 text-sm border border-gray-300 dark:border-slate-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-400"
+                      />
+                    ) : (
+                      <p className="font-semibold text-gray-800 dark:text-slate-200 truncate">{entry.name}</p>
+                    )}
+                    <p className="text-xs text-gray-500 dark:text-slate-400">
+                      <span className={entry.mode === Mode.DATA_TO_GRAPH ? 'text-indigo-600' : 'text-purple-600'}>
+                        {t(entry.mode === Mode.DATA_TO_GRAPH ? 'toggle.dataToGraph' : 'toggle.graphToData')}
+                      </span>
+                      {' · '}{new Date(entry.createdAt).toLocaleString()}
+                      {' · '}{entry.provider}{entry.model ? ` / ${entry.model}` : ''}
+                    </p>
+                    <div className="flex gap-3 mt-2 text-xs">
+                      <button onClick={() => handleReopen(entry)} className="font-semibold text-indigo-600 hover:underline">{t('history.reopen')}</button>
+                      <button onClick={() => setEditing({ id: entry.id, name: entry.name })} className="text-gray-600 dark:text-slate-300 hover:underline">{t('history.rename')}</button>
+                      <button onClick={() => handleDelete(entry)} className="text-red-600 hover:underline">{t('history.delete')}</button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </aside>
+    </div>
+  );
+};
+
+export default HistoryDrawer;
@@ -0,0 +1,191 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { DEFAULT_ADJUSTMENTS, UPSCALE_FACTORS, detectSkew, hasAdjustments, prepareImage } from '../services/imageProcessing';
+import type { ImageAdjustments } from '../services/imageProcessing';
+import type { ImageLimits } from '../services/providers';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface ImageAdjustPanelProps {
+  source: Blob;
+  adjustments: ImageAdjustments;
+  limits: ImageLimits;
+  onChange: (adjustments: ImageAdjustments) => void;
+}
+
+// Drawn crops smaller than this fraction of the image are treated as stray clicks.
+const MIN_CROP_SIZE = 0.03;
+const PREVIEW_DELAY_MS = 250;
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+const ImageAdjustPanel: React.FC<ImageAdjustPanelProps> = ({ source, adjustments, limits, onChange }) => {
+  const { t } = useTranslation();
+  const [originalUrl, setOriginalUrl] = useState<string | null>(null);
+  const [processed, setProcessed] = useState<{ url: string; width: number; height: number; size: number } | null>(null);
+  const [draftCrop, setDraftCrop] = useState<ImageAdjustments['crop']>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isDeskewing, setIsDeskewing] = useState(false);
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const dragStartRef = useRef<{ x: number; y: number } | null>(null);
+
+  useEffect(() => {
+    const url = URL.createObjectURL(source);
+    setOriginalUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [source]);
+
+  // The processed preview is exactly what will be sent, re-rendered shortly after the controls settle.
+  useEffect(() => {
+    let cancelled = false;
+    let url: string | null = null;
+    const timer = setTimeout(() => {
+      prepareImage(source, adjustments, limits)
+        .then(result => {
+          if (cancelled) return;
+          url = URL.createObjectURL(result.blob);
+          setProcessed({ url, width: result.width, height: result.height, size: result.blob.size });
+          setError(null);
+        })
+        .catch(err => !cancelled && setError(err instanceof Error ? err.message : t('errors.unknown')));
+    }, PREVIEW_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [source, adjustments, limits]);
+
+  const update = (changes: Partial<ImageAdjustments>) => onChange({ ...adjustments, ...changes });
+
+  const pointerPosition = (e: React.PointerEvent) => {
+    const rect = overlayRef.current!.getBoundingClientRect();
+    return {
+      x: Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)),
+      y: Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height)),
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragStartRef.current = pointerPosition(e);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const start = dragStartRef.current;
+    if (!start) return;
+    const point = pointerPosition(e);
+    setDraftCrop({ x: Math.min(start.x, point.x), y: Math.min(start.y, point.y), width: Math.abs(point.x - start.x), height: Math.abs(point.y - start.y) });
+  };
+
+  const handlePointerUp = () => {
+    dragStartRef.current = null;
+    if (draftCrop && draftCrop.width >= MIN_CROP_SIZE && draftCrop.height >= MIN_CROP_SIZE) update({ crop: draftCrop });
+    setDraftCrop(null);
+  };
+
+  const handleDeskew = async () => {
+    setIsDeskewing(true);
+    try {
+      update({ rotation: await detectSkew(source, adjustments.crop) });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('errors.unknown'));
+    } finally {
+      setIsDeskewing(false);
+    }
+  };
+
+  const rotateBy = (degrees: number) => update({ rotation: ((((adjustments.rotation + degrees) % 360) + 540) % 360) - 180 });
+
+  const shownCrop = draftCrop || adjustments.crop;
+  const inputClass = "px-2 py-1 text-sm border border-gray-300 dark:border-slate-700 rounded-lg bg-white dark:bg-slate-800/90 focus:outline-none focus:ring-2 focus:ring-purple-400";
+  const smallButton = "px-2 py-1 text-xs font-semibold text-purple-600 border border-purple-300 rounded-lg hover:bg-purple-50 dark:hover:bg-indigo-400/15 transition-colors disabled:opacity-50";
+
+  return (
+    <div className="bg-gray-50/50 dark:bg-slate-700/50 rounded-xl p-4 flex flex-col gap-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-gray-600 dark:text-slate-300">{t('imageAdjust.title')}</h3>
+        {hasAdjustments(adjustments) && (
+          <button onClick={() => onChange(DEFAULT_ADJUSTMENTS)} className="text-xs text-gray-500 dark:text-slate-400 hover:text-purple-600 hover:underline">
+            {t('imageAdjust.reset')}
+          </button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="flex flex-col items-center gap-1">
+          <span className="text-xs font-semibold text-gray-500 dark:text-slate-400">{t('imageAdjust.original')}</span>
+          {originalUrl && (
+            <div className="relative inline-block select-none">
+              <img src={originalUrl} alt={t('graphToData.previewAlt')} className="max-h-64 rounded-lg shadow-md" draggable={false} />
+              <div
+                ref={overlayRef}
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                className="absolute inset-0 cursor-crosshair"
+              >
+                {shownCrop && (
+                  <div
+                    className="absolute border-2 border-dashed border-pink-500 shadow-[0_0_0_9999px_rgba(0,0,0,0.35)]"
+                    style={{ left: `${shownCrop.x * 100}%`, top: `${shownCrop.y * 100}%`, width: `${shownCrop.width * 100}%`, height: `${shownCrop.height * 100}%` }}
+                  />
+                )}
+              </div>
+            </div>
+          )}
+          <span className="text-xs text-gray-400 dark:text-slate-400">{t('imageAdjust.cropHint')}</span>
+        </div>
+        <div className="flex flex-col items-center gap-1">
+          <span className="text-xs font-semibold text-gray-500 dark:text-slate-400">{t('imageAdjust.processed')}</span>
+          {processed && <img src={processed.url} alt={t('imageAdjust.processed')} className="max-h-64 rounded-lg shadow-md" />}
+          {processed && (
+            <span className="text-xs text-gray-500 dark:text-slate-400">
+              {t('imageAdjust.output', { width: String(processed.width), height: String(processed.height), size: formatBytes(processed.size) })}
+              {' · '}
+              {t('imageAdjust.limit', { dimension: String(limits.maxDimension), size: formatBytes(limits.maxBytes) })}
+            </span>
+          )}
+          {error && <span className="text-xs text-red-600">{error}</span>}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-sm">
+        <div className="flex flex-col gap-1">
+          <span className="font-medium text-gray-600 dark:text-slate-300">{t('imageAdjust.rotation', { degrees: adjustments.rotation.toFixed(1) })}</span>
+          <input type="range" min={-45} max={45} step={0.5} value={Math.max(-45, Math.min(45, adjustments.rotation))} onChange={e => update({ rotation: Number(e.target.value) })} />
+          <div className="flex flex-wrap gap-2">
+            <button onClick={() => rotateBy(-90)} className={smallButton}>↺ 90°</button>
+            <button onClick={() => rotateBy(90)} className={smallButton}>↻ 90°</button>
+            <button onClick={handleDeskew} disabled={isDeskewing} className={smallButton}>{t('imageAdjust.deskew')}</button>
+            {adjustments.crop && <button onClick={() => update({ crop: null })} className={smallButton}>{t('imageAdjust.clearCrop')}</button>}
+          </div>
+        </div>
+        <div className="flex flex-col gap-1">
+          <span className="font-medium text-gray-600 dark:text-slate-300">{t('imageAdjust.contrast', { value: String(adjustments.contrast) })}</span>
+          <input type="range" min={-100} max={100} step={5} value={adjustments.contrast} onChange={e => update({ contrast: Number(e.target.value) })} />
+          <div className="flex flex-wrap items-center gap-3">
+            <label className="flex items-center gap-1 text-gray-700 dark:text-slate-200">
+              <input type="checkbox" checked={adjustments.grayscale} onChange={e => update({ grayscale: e.target.checked })} />
+              {t('imageAdjust.grayscale')}
+            </label>
+            <label className="flex items-center gap-1 text-gray-700 dark:text-slate-200">
+              <input type="checkbox" checked={adjustments.threshold !== null} onChange={e => update({ threshold: e.target.checked ? 160 : null })} />
+              {t('imageAdjust.threshold')}
+            </label>
+            {adjustments.threshold !== null && (
+              <input type="range" min={16} max={240} step={4} value={adjustments.threshold} onChange={e => update({ threshold: Number(e.target.value) })} className="flex-grow" />
+            )}
+          </div>
+        </div>
+        <label className="flex items-center gap-2">
+          <span className="font-medium text-gray-600 dark:text-slate-300">{t('imageAdjust.upscale')}</span>
+          <select value={adjustments.upscale} onChange={e => update({ upscale: Number(e.target.value) })} className={inputClass}>
+            {UPSCALE_FACTORS.map(factor => <option key={factor} value={factor}>{factor}×</option>)}
+          </select>
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default ImageAdjustPanel;
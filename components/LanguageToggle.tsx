@@ -26,13 +26,13 @@ const LanguageToggle: React.FC = () => {
     <div className="relative" ref={dropdownRef}>
       <button
         onClick={() => setIsOpen(!isOpen)}
-        className="w-10 h-10 flex items-center justify-center bg-white/50 backdrop-blur-md rounded-full text-gray-600 hover:bg-white/80 transition-colors"
+        className="w-10 h-10 flex items-center justify-center bg-white/50 dark:bg-slate-800/50 backdrop-blur-md rounded-full text-gray-600 dark:text-slate-300 hover:bg-white/80 dark:hover:bg-slate-700/90 transition-colors"
         aria-label="Toggle language"
       >
         <GlobeIcon />
       </button>
       {isOpen && (
-        <div className="absolute top-12 right-0 w-36 bg-white/70 backdrop-blur-lg rounded-lg shadow-xl border border-white/50 p-1.5">
+        <div className="absolute top-12 right-0 w-36 bg-white/70 dark:bg-slate-800/90 backdrop-blur-lg rounded-lg shadow-xl border border-white/50 dark:border-slate-700 p-1.5">
           {Object.keys(languages).map((langKey) => (
             <button
               key={langKey}
@@ -43,7 +43,7 @@ const LanguageToggle: React.FC = () => {
               className={`w-full text-left px-3 py-2 text-sm rounded-md transition-colors ${
                 language === langKey
                   ? 'bg-indigo-500 text-white'
-                  : 'text-gray-700 hover:bg-gray-200/50'
+                  : 'text-gray-700 dark:text-slate-200 hover:bg-gray-200/50 dark:hover:bg-slate-600/60'
               }`}
             >
               {languages[langKey]}
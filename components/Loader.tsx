@@ -2,7 +2,14 @@
 import React from 'react';
 import { useTranslation } from '../hooks/useTranslation';
 
-const Loader: React.FC = () => {
+interface LoaderProps {
+  // Overrides the default "digesting" caption, e.g. with the current parsing stage.
+  label?: string;
+  // Fraction between 0 and 1; shows a progress bar when provided.
+  progress?: number | null;
+}
+
+const Loader: React.FC<LoaderProps> = ({ label, progress }) => {
   const { t } = useTranslation();
   return (
     <div className="flex flex-col items-center justify-center gap-4 text-white font-semibold">
@@ -61,7 +68,12 @@ const Loader: React.FC = () => {
         <div className="dot"></div>
         <div className="dot"></div>
       </div>
-      <p className="mt-2 text-lg animate-pulse">{t('loader.digesting')}</p>
+      <p className="mt-2 text-lg animate-pulse">{label || t('loader.digesting')}</p>
+      {progress !== undefined && progress !== null && (
+        <div className="w-48 h-2 bg-white/30 dark:bg-slate-800/50 rounded-full overflow-hidden" role="progressbar" aria-valuemin={0} aria-valuemax={100} aria-valuenow={Math.round(progress * 100)}>
+          <div className="h-full bg-white dark:bg-slate-800/90 rounded-full transition-all duration-200" style={{ width: `${Math.round(progress * 100)}%` }} />
+        </div>
+      )}
     </div>
   );
 };
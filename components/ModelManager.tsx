@@ -1,17 +1,19 @@
 import React, { useState, useEffect } from 'react';
 import { useModel } from '../hooks/useModel';
 import { useTranslation } from '../hooks/useTranslation';
-import type { ModelConfig, CustomModelConfig, ProviderConfig } from '../types';
-import { testCustomModelConnection, fetchCustomModels } from '../services/aiService';
+import type { GenerationParams, ModelConfig, ModelFeature, ModelProviderType } from '../types';
+import { emptyConnection, getProvider, invalidGenerationParams, listProviders } from '../services/providers';
+import { DEFAULT_TIMEOUT_SECONDS } from '../services/providers/http';
+import { mergeCredentials, splitCredentials } from '../services/credentialStore';
+import CredentialSettings from './CredentialSettings';
+import ProfileBar from './ProfileBar';
 import { ReloadIcon } from './icons';
 
-type ConfigurationTarget = 'dataToGraph' | 'graphToData';
-
 const ModelManager: React.FC<{ onClose: () => void }> = ({ onClose }) => {
-    const { modelConfig, setModelConfig } = useModel();
+    const { modelConfig, setModelConfig, credentialsLocked } = useModel();
     const { t } = useTranslation();
     
-    const [configuring, setConfiguring] = useState<ConfigurationTarget>('dataToGraph');
+    const [configuring, setConfiguring] = useState<ModelFeature>('dataToGraph');
     const [localConfigs, setLocalConfigs] = useState<ModelConfig>(JSON.parse(JSON.stringify(modelConfig))); // Deep copy
     
     const [models, setModels] = useState<string[]>([]);
@@ -19,23 +21,31 @@ const ModelManager: React.FC<{ onClose: () => void }> = ({ onClose }) => {
     const [fetchModelsError, setFetchModelsError] = useState<string | null>(null);
     const [testStatus, setTestStatus] = useState<'idle' | 'testing' | 'success' | 'failed'>('idle');
     const [testMessage, setTestMessage] = useState<string>('');
+    const [showApiKey, setShowApiKey] = useState(false);
 
-    // Reset state when the configuration target changes
+    // Reset state when the configuration target or its profile changes
+    const activeProfileId = localConfigs.activeProfileIds?.[configuring];
     useEffect(() => {
         setModels([]);
         setTestStatus('idle');
         setTestMessage('');
         setFetchModelsError(null);
-    }, [configuring]);
+    }, [configuring, activeProfileId]);
     
     const currentProviderConfig = localConfigs[configuring];
-    const currentCustomConfig = currentProviderConfig.custom || { baseUrl: '', apiKey: '', model: '' };
+    const currentAdapter = getProvider(currentProviderConfig.provider);
+    const currentProvider = currentProviderConfig.provider;
+    const currentCustomConfig = currentProviderConfig[currentProvider] || emptyConnection(currentAdapter);
+    const generation = currentProviderConfig.generation || {};
+    const invalidGeneration = invalidGenerationParams(currentAdapter, generation);
 
-    const handleProviderTabClick = (provider: 'google' | 'custom') => {
+    const handleProviderTabClick = (provider: ModelProviderType) => {
         setLocalConfigs(prev => ({
             ...prev,
             [configuring]: { ...prev[configuring], provider }
         }));
+        setModels([]);
+        setFetchModelsError(null);
         setTestStatus('idle');
     };
 
@@ -45,8 +55,8 @@ const ModelManager: React.FC<{ onClose: () => void }> = ({ onClose }) => {
             ...prev,
             [configuring]: {
                 ...prev[configuring],
-                custom: {
-                    ...(prev[configuring].custom || { baseUrl: '', apiKey: '', model: '' }),
+                [currentProvider]: {
+                    ...(prev[configuring][currentProvider] || emptyConnection(currentAdapter)),
                     [name]: value
                 }
             }
@@ -56,12 +66,12 @@ const ModelManager: React.FC<{ onClose: () => void }> = ({ onClose }) => {
     };
 
     const handleFetchModels = async () => {
-        if (!currentCustomConfig.baseUrl || !currentCustomConfig.apiKey) return;
+        if ((currentAdapter.usesBaseUrl && !currentCustomConfig.baseUrl) || (currentAdapter.requiresApiKey && !currentCustomConfig.apiKey)) return;
         setIsLoadingModels(true);
         setFetchModelsError(null);
         setModels([]);
         try {
-            const fetchedModels = await fetchCustomModels(currentCustomConfig);
+            const fetchedModels = await currentAdapter.listModels(currentCustomConfig);
             setModels(fetchedModels);
             if (fetchedModels.length > 0 && !fetchedModels.includes(currentCustomConfig.model)) {
                 handleCustomConfigChange({ target: { name: 'model', value: fetchedModels[0] } } as any);
@@ -77,7 +87,7 @@ const ModelManager: React.FC<{ onClose: () => void }> = ({ onClose }) => {
         setTestStatus('testing');
         setTestMessage('');
         try {
-            await testCustomModelConnection(currentCustomConfig);
+            await currentAdapter.testConnection(currentCustomConfig);
             setTestStatus('success');
             setTestMessage(t('modelManager.testSuccess'));
         } catch (error) {
@@ -86,38 +96,81 @@ const ModelManager: React.FC<{ onClose: () => void }> = ({ onClose }) => {
         }
     };
 
+    const handleTimeoutChange = (value: string) => {
+        const seconds = parseInt(value, 10);
+        setLocalConfigs(prev => ({
+            ...prev,
+            [configuring]: { ...prev[configuring], timeoutSeconds: Number.isFinite(seconds) && seconds > 0 ? seconds : undefined }
+        }));
+    };
+
+    // Empty fields go back to the provider's default.
+    const handleGenerationChange = (param: keyof GenerationParams, value: string) => {
+        const number = param === 'temperature' ? parseFloat(value) : parseInt(value, 10);
+        setLocalConfigs(prev => ({
+            ...prev,
+            [configuring]: {
+                ...prev[configuring],
+                generation: { ...prev[configuring].generation, [param]: Number.isFinite(number) ? number : undefined }
+            }
+        }));
+    };
+
     const handleSave = () => {
+        // Show the first feature whose generation params its provider would reject instead of saving them.
+        const invalidFeature = (['dataToGraph', 'graphToData'] as ModelFeature[]).find(feature =>
+            invalidGenerationParams(getProvider(localConfigs[feature].provider), localConfigs[feature].generation).length > 0);
+        if (invalidFeature) {
+            setConfiguring(invalidFeature);
+            return;
+        }
         setModelConfig(localConfigs);
         onClose();
     };
 
     const CustomModelPanel = (
          <div className="space-y-4">
+            {currentAdapter.usesBaseUrl && (
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-slate-200 mb-1">{t('modelManager.apiUrl')}</label>
+                    <input type="text" name="baseUrl" value={currentCustomConfig.baseUrl} onChange={handleCustomConfigChange} className="w-full px-3 py-2 border border-gray-300 dark:border-slate-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-400" placeholder={currentAdapter.defaultBaseUrl || 'https://api.example.com/v1'} />
+                </div>
+            )}
             <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">{t('modelManager.apiUrl')}</label>
-                <input type="text" name="baseUrl" value={currentCustomConfig.baseUrl} onChange={handleCustomConfigChange} className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-400" placeholder="https://api.example.com/v1" />
-            </div>
-            <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">{t('modelManager.apiKey')}</label>
-                <input type="password" name="apiKey" value={currentCustomConfig.apiKey} onChange={handleCustomConfigChange} className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-400" placeholder="sk-..." />
+                <label className="block text-sm font-medium text-gray-700 dark:text-slate-200 mb-1">
+                    {t('modelManager.apiKey')}
+                    {!currentAdapter.requiresApiKey && <span className="ml-1 font-normal text-gray-400 dark:text-slate-400">({t('modelManager.optional')})</span>}
+                </label>
+                <div className="flex items-center gap-2">
+                    <input type={showApiKey ? 'text' : 'password'} name="apiKey" value={currentCustomConfig.apiKey} onChange={handleCustomConfigChange} disabled={credentialsLocked} autoComplete="off" className="w-full px-3 py-2 border border-gray-300 dark:border-slate-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-400 disabled:bg-gray-100 dark:disabled:bg-slate-700/50" placeholder={currentProvider === 'google' ? t('modelManager.geminiKeyPlaceholder') : currentAdapter.requiresApiKey ? 'sk-...' : ''} />
+                    <button
+                        type="button"
+                        onClick={() => setShowApiKey(shown => !shown)}
+                        className="px-3 py-2 text-xs font-semibold text-gray-600 dark:text-slate-300 border border-gray-300 dark:border-slate-700 rounded-lg hover:bg-gray-100 dark:hover:bg-slate-600/60 whitespace-nowrap"
+                    >
+                        {showApiKey ? t('credentials.hideKey') : t('credentials.showKey')}
+                    </button>
+                </div>
+                {/* Keys typed while the stored ones are encrypted could not be saved, and unlocking would replace them. */}
+                {credentialsLocked && <p className="text-xs text-amber-700 mt-1">🔒 {t('credentials.unlockToEdit')}</p>}
             </div>
             <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">{t('modelManager.modelName')}</label>
+                <label className="block text-sm font-medium text-gray-700 dark:text-slate-200 mb-1">{t('modelManager.modelName')}</label>
                 <div className="flex items-center gap-2">
-                    <select name="model" value={currentCustomConfig.model} onChange={handleCustomConfigChange} className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-400 bg-white">
+                    <select name="model" value={currentCustomConfig.model} onChange={handleCustomConfigChange} className="w-full px-3 py-2 border border-gray-300 dark:border-slate-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-400 bg-white dark:bg-slate-800/90">
                         {currentCustomConfig.model && !models.includes(currentCustomConfig.model) && <option value={currentCustomConfig.model}>{currentCustomConfig.model}</option>}
                         {models.map(m => <option key={m} value={m}>{m}</option>)}
                         {models.length === 0 && !currentCustomConfig.model && <option value="">{t('modelManager.fetchModels')}</option>}
                     </select>
-                    <button onClick={handleFetchModels} disabled={isLoadingModels} className="p-2 border border-gray-300 rounded-lg hover:bg-gray-100 disabled:opacity-50">
+                    <button onClick={handleFetchModels} disabled={isLoadingModels} className="p-2 border border-gray-300 dark:border-slate-700 rounded-lg hover:bg-gray-100 dark:hover:bg-slate-600/60 disabled:opacity-50">
                         {isLoadingModels ? <div className="w-5 h-5 border-2 border-gray-400 border-t-transparent rounded-full animate-spin"></div> : <ReloadIcon />}
                     </button>
                 </div>
                 {fetchModelsError && <p className="text-xs text-red-600 mt-1">{fetchModelsError}</p>}
-                {!isLoadingModels && models.length === 0 && !fetchModelsError && <p className="text-xs text-gray-500 mt-1">{t('modelManager.noModels')}</p>}
+                {!isLoadingModels && models.length === 0 && !fetchModelsError && <p className="text-xs text-gray-500 dark:text-slate-400 mt-1">{t('modelManager.noModels')}</p>}
             </div>
             <div className="flex items-center justify-between">
-                <button onClick={handleTest} disabled={testStatus === 'testing' || !currentCustomConfig.model} className="px-4 py-2 text-sm font-semibold text-indigo-600 border border-indigo-300 rounded-lg hover:bg-indigo-50 transition-colors disabled:opacity-50">
+                <button onClick={handleTest} disabled={testStatus === 'testing' || !currentCustomConfig.model} className="px-4 py-2 text-sm font-semibold text-indigo-600 border border-indigo-300 rounded-lg hover:bg-indigo-50 dark:hover:bg-indigo-400/15 transition-colors disabled:opacity-50">
                     {testStatus === 'testing' ? t('modelManager.testing') : t('modelManager.testButton')}
                 </button>
                 {testStatus === 'success' && <span className="text-sm text-green-600">{testMessage}</span>}
@@ -127,43 +180,101 @@ const ModelManager: React.FC<{ onClose: () => void }> = ({ onClose }) => {
     );
 
     return (
-        <div className="fixed inset-0 bg-black/30 backdrop-blur-sm flex items-center justify-center z-50" onClick={onClose}>
-            <div className="bg-white/80 backdrop-blur-xl rounded-2xl shadow-2xl w-full max-w-lg p-6 border border-white/50" onClick={e => e.stopPropagation()}>
-                <h2 className="text-2xl font-bold text-gray-800 mb-4">{t('modelManager.title')}</h2>
+        <div className="fixed inset-0 bg-black/30 dark:bg-black/60 backdrop-blur-sm flex items-center justify-center z-50" onClick={onClose}>
+            <div className="bg-white/80 dark:bg-slate-800/90 backdrop-blur-xl rounded-2xl shadow-2xl w-full max-w-lg max-h-[90vh] overflow-y-auto p-6 border border-white/50 dark:border-slate-700" onClick={e => e.stopPropagation()}>
+                <h2 className="text-2xl font-bold text-gray-800 dark:text-slate-200 mb-4">{t('modelManager.title')}</h2>
 
                 {/* Main Feature Tabs */}
-                <div className="flex bg-gray-200/50 rounded-lg p-1 mb-4">
-                    <button onClick={() => setConfiguring('dataToGraph')} className={`w-1/2 px-4 py-2 text-sm font-semibold rounded-md transition-all ${configuring === 'dataToGraph' ? 'bg-white shadow text-indigo-600' : 'text-gray-600'}`}>
+                <div className="flex bg-gray-200/50 dark:bg-slate-700/50 rounded-lg p-1 mb-4">
+                    <button onClick={() => setConfiguring('dataToGraph')} className={`w-1/2 px-4 py-2 text-sm font-semibold rounded-md transition-all ${configuring === 'dataToGraph' ? 'bg-white dark:bg-slate-800/90 shadow text-indigo-600' : 'text-gray-600 dark:text-slate-300'}`}>
                         {t('modelManager.configureDataToGraph')}
                     </button>
-                    <button onClick={() => setConfiguring('graphToData')} className={`w-1/2 px-4 py-2 text-sm font-semibold rounded-md transition-all ${configuring === 'graphToData' ? 'bg-white shadow text-purple-600' : 'text-gray-600'}`}>
+                    <button onClick={() => setConfiguring('graphToData')} className={`w-1/2 px-4 py-2 text-sm font-semibold rounded-md transition-all ${configuring === 'graphToData' ? 'bg-white dark:bg-slate-800/90 shadow text-purple-600' : 'text-gray-600 dark:text-slate-300'}`}>
                          {t('modelManager.configureGraphToData')}
                     </button>
                 </div>
 
+                <ProfileBar config={localConfigs} feature={configuring} onChange={setLocalConfigs} />
+
                 {/* Provider Tabs */}
-                <div className="flex border-b border-gray-200 mb-4">
-                    <button onClick={() => handleProviderTabClick('google')} className={`px-4 py-2 text-sm font-medium transition-colors ${currentProviderConfig.provider === 'google' ? 'border-b-2 border-indigo-500 text-indigo-600' : 'text-gray-500 hover:text-gray-700'}`}>
-                        Google Gemini
-                    </button>
-                    <button onClick={() => handleProviderTabClick('custom')} className={`px-4 py-2 text-sm font-medium transition-colors ${currentProviderConfig.provider === 'custom' ? 'border-b-2 border-indigo-500 text-indigo-600' : 'text-gray-500 hover:text-gray-700'}`}>
-                        {t('modelManager.customTab')}
-                    </button>
+                <div className="flex flex-wrap border-b border-gray-200 dark:border-slate-700 mb-4">
+                    {listProviders().map(adapter => (
+                        <button key={adapter.id} onClick={() => handleProviderTabClick(adapter.id)} className={`px-4 py-2 text-sm font-medium transition-colors ${currentProvider === adapter.id ? 'border-b-2 border-indigo-500 text-indigo-600' : 'text-gray-500 dark:text-slate-400 hover:text-gray-700 dark:hover:text-slate-200'}`}>
+                            {t(adapter.labelKey)}
+                        </button>
+                    ))}
                 </div>
 
                 {/* Content */}
                 <div className="min-h-[290px]">
-                    {currentProviderConfig.provider === 'google' && (
-                        <p className="text-sm text-gray-600 bg-gray-100 p-3 rounded-lg">
+                    {currentProvider === 'google' && (
+                        <p className="text-sm text-gray-600 dark:text-slate-300 bg-gray-100 dark:bg-slate-700/50 p-3 rounded-lg mb-4">
                             {configuring === 'dataToGraph' ? t('modelManager.googleDescData') : t('modelManager.googleDescGraph')}
                         </p>
                     )}
-                    {currentProviderConfig.provider === 'custom' && CustomModelPanel}
+                    {CustomModelPanel}
+                    <div className="mt-4">
+                        <label className="block text-sm font-medium text-gray-700 dark:text-slate-200 mb-1">{t('modelManager.timeout')}</label>
+                        <input
+                            type="number"
+                            min={1}
+                            value={currentProviderConfig.timeoutSeconds ?? ''}
+                            onChange={e => handleTimeoutChange(e.target.value)}
+                            placeholder={String(DEFAULT_TIMEOUT_SECONDS)}
+                            className="w-full px-3 py-2 border border-gray-300 dark:border-slate-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-400"
+                        />
+                        <p className="text-xs text-gray-500 dark:text-slate-400 mt-1">{t('modelManager.timeoutHint')}</p>
+                    </div>
+                    <div className="mt-4">
+                        <label className="block text-sm font-medium text-gray-700 dark:text-slate-200 mb-1">{t('modelManager.generation')}</label>
+                        <div className="grid grid-cols-3 gap-2">
+                            <input
+                                type="number"
+                                min={0}
+                                max={currentAdapter.maxTemperature}
+                                step={0.1}
+                                value={generation.temperature ?? ''}
+                                onChange={e => handleGenerationChange('temperature', e.target.value)}
+                                placeholder={t('modelManager.temperature')}
+                                title={t('modelManager.temperature')}
+                                className={`w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-400 ${invalidGeneration.includes('temperature') ? 'border-red-400' : 'border-gray-300 dark:border-slate-700'}`}
+                            />
+                            <input
+                                type="number"
+                                min={1}
+                                value={generation.maxTokens ?? ''}
+                                onChange={e => handleGenerationChange('maxTokens', e.target.value)}
+                                placeholder={t('modelManager.maxTokens')}
+                                title={t('modelManager.maxTokens')}
+                                className={`w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-400 ${invalidGeneration.includes('maxTokens') ? 'border-red-400' : 'border-gray-300 dark:border-slate-700'}`}
+                            />
+                            <input
+                                type="number"
+                                value={currentAdapter.supportsSeed ? generation.seed ?? '' : ''}
+                                onChange={e => handleGenerationChange('seed', e.target.value)}
+                                disabled={!currentAdapter.supportsSeed}
+                                placeholder={t('modelManager.seed')}
+                                title={currentAdapter.supportsSeed ? t('modelManager.seed') : t('modelManager.seedUnsupported')}
+                                className="w-full px-3 py-2 border border-gray-300 dark:border-slate-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-400 disabled:bg-gray-100 dark:disabled:bg-slate-700/50"
+                            />
+                        </div>
+                        {invalidGeneration.map(param => (
+                            <p key={param} className="text-xs text-red-600 mt-1">
+                                {t(`modelManager.invalidGeneration.${param}`, { max: String(currentAdapter.maxTemperature) })}
+                            </p>
+                        ))}
+                        <p className="text-xs text-gray-500 dark:text-slate-400 mt-1">{t('modelManager.generationHint')}</p>
+                    </div>
                 </div>
 
+                <CredentialSettings
+                    onUnlocked={credentials => setLocalConfigs(prev => mergeCredentials(prev, credentials))}
+                    onForgotten={() => setLocalConfigs(prev => splitCredentials(prev).config)}
+                />
+
                 {/* Actions */}
-                <div className="flex justify-end gap-3 mt-6 pt-4 border-t border-gray-200">
-                    <button onClick={onClose} className="px-4 py-2 text-sm font-medium text-gray-600 bg-white border border-gray-300 rounded-lg hover:bg-gray-100 transition-colors">
+                <div className="flex justify-end gap-3 mt-6 pt-4 border-t border-gray-200 dark:border-slate-700">
+                    <button onClick={onClose} className="px-4 py-2 text-sm font-medium text-gray-600 dark:text-slate-300 bg-white dark:bg-slate-800/90 border border-gray-300 dark:border-slate-700 rounded-lg hover:bg-gray-100 dark:hover:bg-slate-600/60 transition-colors">
                         {t('modelManager.cancel')}
                     </button>
                     <button onClick={handleSave} className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 transition-colors">
@@ -0,0 +1,213 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { cropRegion, detectPageCharts, loadPdf, renderPage } from '../services/pdfDocument';
+import type { PageRegion } from '../services/pdfDocument';
+import { useTranslation } from '../hooks/useTranslation';
+import type { BatchInput } from './BatchQueue';
+import Loader from './Loader';
+
+interface PdfRegionPickerProps {
+  file: File;
+  onExtract: (inputs: BatchInput[]) => void;
+}
+
+// Drawn boxes smaller than this fraction of the page are treated as stray clicks.
+const MIN_REGION_SIZE = 0.02;
+
+const PdfRegionPicker: React.FC<PdfRegionPickerProps> = ({ file, onExtract }) => {
+  const { t } = useTranslation();
+  const [pdf, setPdf] = useState<any>(null);
+  const [pageNumber, setPageNumber] = useState(1);
+  // Only the current page is kept as an image; other pages are re-rendered when cropped.
+  const [pageImage, setPageImage] = useState<string | null>(null);
+  const [regions, setRegions] = useState<{ [page: number]: PageRegion[] }>({});
+  const [draft, setDraft] = useState<PageRegion | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const drawStartRef = useRef<{ x: number; y: number } | null>(null);
+  const overlayRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let loaded: any = null;
+    setPdf(null);
+    setRegions({});
+    setPageNumber(1);
+    setError(null);
+    loadPdf(file)
+      .then(doc => {
+        loaded = doc;
+        if (cancelled) doc.destroy();
+        else setPdf(doc);
+      })
+      .catch(err => !cancelled && setError(err instanceof Error ? err.message : t('errors.fileReadFailed')));
+    return () => {
+      cancelled = true;
+      loaded?.destroy();
+    };
+  }, [file]);
+
+  // Renders the current page and, the first time it is shown, detects its charts.
+  useEffect(() => {
+    if (!pdf) return;
+    let cancelled = false;
+    setBusy(t('pdf.rendering', { page: String(pageNumber) }));
+    renderPage(pdf, pageNumber)
+      .then(page => {
+        if (cancelled) return;
+        setPageImage(page.canvas.toDataURL('image/jpeg', 0.85));
+        setRegions(prev => (prev[pageNumber] ? prev : { ...prev, [pageNumber]: detectPageCharts(page) }));
+      })
+      .catch(err => !cancelled && setError(err instanceof Error ? err.message : t('errors.unknown')))
+      .finally(() => !cancelled && setBusy(null));
+    return () => { cancelled = true; };
+  }, [pdf, pageNumber]);
+
+  const detectAllPages = async () => {
+    if (!pdf) return;
+    setError(null);
+    try {
+      for (let page = 1; page <= pdf.numPages; page++) {
+        if (regions[page]) continue;
+        setBusy(t('pdf.detecting', { page: String(page), total: String(pdf.numPages) }));
+        const rendered = await renderPage(pdf, page);
+        const detected = detectPageCharts(rendered);
+        setRegions(prev => ({ ...prev, [page]: prev[page] || detected }));
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('errors.unknown'));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleExtract = async () => {
+    if (!pdf) return;
+    setError(null);
+    const baseName = file.name.replace(/\.pdf$/i, '');
+    const inputs: BatchInput[] = [];
+    try {
+      for (const page of Object.keys(regions).map(Number).sort((a, b) => a - b)) {
+        if (regions[page].length === 0) continue;
+        setBusy(t('pdf.cropping', { page: String(page) }));
+        const rendered = await renderPage(pdf, page);
+        for (const [i, region] of regions[page].entries()) {
+          const blob = await cropRegion(rendered.canvas, region);
+          inputs.push({
+            file: new File([blob], `${baseName}-p${page}-${i + 1}.png`, { type: 'image/png' }),
+            name: `${file.name} p.${page} #${i + 1}`,
+            source: { document: file.name, pageNumber: page },
+          });
+        }
+      }
+      onExtract(inputs);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('errors.unknown'));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const pointerPosition = (e: React.PointerEvent) => {
+    const rect = overlayRef.current!.getBoundingClientRect();
+    return {
+      x: Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)),
+      y: Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height)),
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (e.target !== overlayRef.current) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drawStartRef.current = pointerPosition(e);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const start = drawStartRef.current;
+    if (!start) return;
+    const point = pointerPosition(e);
+    setDraft({ x: Math.min(start.x, point.x), y: Math.min(start.y, point.y), width: Math.abs(point.x - start.x), height: Math.abs(point.y - start.y) });
+  };
+
+  const handlePointerUp = () => {
+    drawStartRef.current = null;
+    if (draft && draft.width >= MIN_REGION_SIZE && draft.height >= MIN_REGION_SIZE) {
+      setRegions(prev => ({ ...prev, [pageNumber]: [...(prev[pageNumber] || []), draft] }));
+    }
+    setDraft(null);
+  };
+
+  const removeRegion = (index: number) =>
+    setRegions(prev => ({ ...prev, [pageNumber]: (prev[pageNumber] || []).filter((_, i) => i !== index) }));
+
+  const pageRegions = regions[pageNumber] || [];
+  const totalRegions = Object.keys(regions).reduce((sum, page) => sum + regions[Number(page)].length, 0);
+  const buttonClass = "px-3 py-1.5 text-sm font-semibold text-purple-600 border border-purple-300 rounded-lg hover:bg-purple-50 dark:hover:bg-indigo-400/15 transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+  const boxStyle = (region: PageRegion) => ({
+    left: `${region.x * 100}%`, top: `${region.y * 100}%`, width: `${region.width * 100}%`, height: `${region.height * 100}%`,
+  });
+
+  return (
+    <div className="bg-white/50 dark:bg-slate-800/50 rounded-xl p-4 border border-gray-200 dark:border-slate-700 flex flex-col gap-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <h3 className="font-semibold text-gray-700 dark:text-slate-200">{file.name}</h3>
+          <p className="text-xs text-gray-500 dark:text-slate-400">{t('pdf.hint')}</p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <button onClick={detectAllPages} disabled={!pdf || !!busy} className={buttonClass}>{t('pdf.detectAll')}</button>
+          <button
+            onClick={handleExtract}
+            disabled={!pdf || !!busy || totalRegions === 0}
+            className="px-4 py-1.5 text-sm font-semibold text-white bg-gradient-to-br from-purple-500 to-pink-500 rounded-lg shadow hover:shadow-md transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            🔎 {t('pdf.extract', { count: String(totalRegions) })}
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {pdf && (
+        <div className="flex items-center justify-center gap-3 text-sm text-gray-600 dark:text-slate-300">
+          <button onClick={() => setPageNumber(page => page - 1)} disabled={pageNumber <= 1 || !!busy} className="px-2 hover:text-purple-600 disabled:opacity-30">◀</button>
+          <span>{t('pdf.page', { page: String(pageNumber), total: String(pdf.numPages) })}</span>
+          <button onClick={() => setPageNumber(page => page + 1)} disabled={pageNumber >= pdf.numPages || !!busy} className="px-2 hover:text-purple-600 disabled:opacity-30">▶</button>
+          <span className="text-xs text-gray-400 dark:text-slate-400">{t('pdf.regionsOnPage', { count: String(pageRegions.length) })}</span>
+        </div>
+      )}
+
+      {busy && <Loader label={busy} />}
+
+      {pageImage && (
+        <div className="flex justify-center">
+          <div className="relative inline-block select-none">
+            <img src={pageImage} alt={t('pdf.page', { page: String(pageNumber), total: String(pdf?.numPages ?? '') })} className="max-h-[70vh] rounded shadow-md" draggable={false} />
+            <div
+              ref={overlayRef}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              className="absolute inset-0 cursor-crosshair"
+            >
+              {pageRegions.map((region, i) => (
+                <div key={i} className="absolute border-2 border-purple-500 bg-purple-500/10" style={boxStyle(region)}>
+                  <span className="absolute -top-0.5 -left-0.5 px-1.5 text-xs font-semibold text-white bg-purple-500 rounded-br">{i + 1}</span>
+                  <button
+                    onClick={() => removeRegion(i)}
+                    className="absolute -top-0.5 -right-0.5 px-1.5 text-xs text-white bg-purple-500 hover:bg-red-500 rounded-bl"
+                    title={t('pdf.removeRegion')}
+                  >
+                    ✕
+                  </button>
+                </div>
+              ))}
+              {draft && <div className="absolute border-2 border-dashed border-pink-500" style={boxStyle(draft)} />}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PdfRegionPicker;
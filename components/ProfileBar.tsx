@@ -0,0 +1,136 @@
+import React, { useRef, useState } from 'react';
+import { useTranslation } from '../hooks/useTranslation';
+import { useModel } from '../hooks/useModel';
+import { MODEL_PROVIDER_IDS } from '../types';
+import type { ModelConfig, ModelFeature } from '../types';
+import {
+  applyProfile,
+  createProfile,
+  differsFromProfile,
+  duplicateProfile,
+  exportProfiles,
+  parseProfilesFile,
+  removeProfile,
+  uniqueProfileName,
+  upsertProfile,
+} from '../services/modelProfiles';
+
+interface ProfileBarProps {
+  config: ModelConfig;
+  feature: ModelFeature;
+  onChange: (config: ModelConfig) => void;
+}
+
+// Saved provider profiles for the feature being configured. Changes only reach the app when the dialog is saved.
+const ProfileBar: React.FC<ProfileBarProps> = ({ config, feature, onChange }) => {
+  const { t } = useTranslation();
+  const { credentialsLocked } = useModel();
+  const [includeKeys, setIncludeKeys] = useState(false);
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const profiles = config.profiles || [];
+  const active = profiles.find(profile => profile.id === config.activeProfileIds?.[feature]) || null;
+  const modified = !!active && differsFromProfile(config[feature], active);
+
+  const handleSelect = (id: string) => {
+    const profile = profiles.find(candidate => candidate.id === id);
+    if (profile) onChange(applyProfile(config, feature, profile));
+    else onChange({ ...config, activeProfileIds: { ...config.activeProfileIds, [feature]: undefined } });
+    setMessage(null);
+  };
+
+  const handleSaveAs = () => {
+    const name = window.prompt(t('profiles.namePrompt'), active ? active.name : '');
+    if (name === null) return;
+    const profile = createProfile(name, config[feature], profiles);
+    const next = upsertProfile(config, profile);
+    onChange({ ...next, activeProfileIds: { ...next.activeProfileIds, [feature]: profile.id } });
+    setMessage({ text: t('profiles.saved', { name: profile.name }), error: false });
+  };
+
+  const handleUpdate = () => {
+    if (!active) return;
+    onChange(upsertProfile(config, { ...active, config: JSON.parse(JSON.stringify(config[feature])) }));
+    setMessage({ text: t('profiles.updated', { name: active.name }), error: false });
+  };
+
+  const handleDuplicate = () => {
+    if (!active) return;
+    const copy = duplicateProfile(active, profiles);
+    onChange(applyProfile(upsertProfile(config, copy), feature, copy));
+    setMessage({ text: t('profiles.saved', { name: copy.name }), error: false });
+  };
+
+  const handleRename = () => {
+    if (!active) return;
+    const name = window.prompt(t('profiles.namePrompt'), active.name);
+    if (!name || !name.trim() || name.trim() === active.name) return;
+    const others = profiles.filter(profile => profile.id !== active.id);
+    onChange(upsertProfile(config, { ...active, name: uniqueProfileName(name.trim(), others) }));
+  };
+
+  const handleDelete = () => {
+    if (!active || !window.confirm(t('profiles.deleteConfirm', { name: active.name }))) return;
+    onChange(removeProfile(config, active.id));
+    setMessage(null);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseProfilesFile(await file.text(), profiles);
+      // Imported keys could not be stored while the saved keys are encrypted and locked.
+      if (credentialsLocked && imported.some(profile => MODEL_PROVIDER_IDS.some(provider => profile.config[provider]?.apiKey))) {
+        setMessage({ text: t('credentials.unlockToImport'), error: true });
+        return;
+      }
+      onChange({ ...config, profiles: [...profiles, ...imported] });
+      setMessage({ text: t('profiles.imported', { count: String(imported.length) }), error: false });
+    } catch (err) {
+      setMessage({ text: err instanceof Error ? err.message : t('errors.unknown'), error: true });
+    }
+  };
+
+  const buttonClass = "px-2 py-1 text-xs font-semibold text-indigo-600 border border-indigo-300 rounded-md hover:bg-indigo-50 dark:hover:bg-indigo-400/15 transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+  return (
+    <div className="mb-4 flex flex-col gap-2">
+      <div className="flex items-center gap-2">
+        <label className="text-sm font-medium text-gray-700 dark:text-slate-200 whitespace-nowrap">{t('profiles.label')}</label>
+        <select
+          value={active?.id || ''}
+          onChange={e => handleSelect(e.target.value)}
+          className="w-full px-3 py-1.5 text-sm border border-gray-300 dark:border-slate-700 rounded-lg bg-white dark:bg-slate-800/90 focus:outline-none focus:ring-2 focus:ring-indigo-400"
+        >
+          <option value="">{t('profiles.unsaved')}</option>
+          {profiles.map(profile => (
+            <option key={profile.id} value={profile.id}>
+              {profile.name}{profile.id === active?.id && modified ? ` (${t('profiles.modified')})` : ''}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <button onClick={handleSaveAs} className={buttonClass}>{t('profiles.saveAs')}</button>
+        <button onClick={handleUpdate} disabled={!modified} className={buttonClass}>{t('profiles.update')}</button>
+        <button onClick={handleDuplicate} disabled={!active} className={buttonClass}>{t('profiles.duplicate')}</button>
+        <button onClick={handleRename} disabled={!active} className={buttonClass}>{t('profiles.rename')}</button>
+        <button onClick={handleDelete} disabled={!active} className="px-2 py-1 text-xs font-semibold text-red-600 hover:underline disabled:opacity-50 disabled:cursor-not-allowed">{t('profiles.delete')}</button>
+        <span className="flex-grow" />
+        <button onClick={() => fileInputRef.current?.click()} className={buttonClass}>{t('profiles.import')}</button>
+        <input ref={fileInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleImport} />
+        <button onClick={() => exportProfiles(profiles, includeKeys)} disabled={profiles.length === 0} className={buttonClass}>{t('profiles.export')}</button>
+        <label className="flex items-center gap-1 text-xs text-gray-600 dark:text-slate-300 cursor-pointer" title={t('profiles.includeKeysHint')}>
+          <input type="checkbox" checked={includeKeys} onChange={e => setIncludeKeys(e.target.checked)} />
+          {t('profiles.includeKeys')}
+        </label>
+      </div>
+      {message && <p className={`text-xs ${message.error ? 'text-red-600' : 'text-green-600'}`}>{message.text}</p>}
+    </div>
+  );
+};
+
+export default ProfileBar;
@@ -0,0 +1,184 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { ModelFeature } from '../types';
+import { usePromptTemplates } from '../hooks/usePromptTemplates';
+import { useTranslation } from '../hooks/useTranslation';
+import { BUILTIN_PROMPTS, PROMPT_PLACEHOLDERS, placeholderIssues } from '../services/promptTemplates';
+
+const FEATURES: ModelFeature[] = ['dataToGraph', 'graphToData'];
+
+const PromptTemplateManager: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const { templates, getPrompt, saveVersion, activateVersion, deleteVersion, resetToDefault } = usePromptTemplates();
+  const { t } = useTranslation();
+  const [feature, setFeature] = useState<ModelFeature>('dataToGraph');
+  // The version shown in the editor; null is the built-in template.
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+  const [label, setLabel] = useState('');
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const featureTemplates = templates[feature];
+  const active = getPrompt(feature);
+  const selected = featureTemplates.versions.find(version => version.id === selectedId) || null;
+  const selectedText = selected ? selected.text : BUILTIN_PROMPTS[feature].text;
+  const selectedVersion = selected ? selected.id : BUILTIN_PROMPTS[feature].version;
+  const isDirty = draft !== selectedText;
+  const issues = placeholderIssues(feature, draft);
+
+  // Open each feature on the version it currently uses.
+  useEffect(() => {
+    const id = templates[feature].activeId;
+    setSelectedId(id);
+    setDraft(getPrompt(feature).text);
+    setLabel('');
+  }, [feature]);
+
+  const select = (id: string | null) => {
+    if (isDirty && !window.confirm(t('prompts.discardConfirm'))) return;
+    setSelectedId(id);
+    setDraft(id ? featureTemplates.versions.find(version => version.id === id)?.text || '' : BUILTIN_PROMPTS[feature].text);
+  };
+
+  const handleSave = () => {
+    setSelectedId(saveVersion(feature, draft, label));
+    setLabel('');
+  };
+
+  const handleDelete = () => {
+    if (!selected || !window.confirm(t('prompts.deleteConfirm', { version: selected.id }))) return;
+    deleteVersion(feature, selected.id);
+    setSelectedId(null);
+    setDraft(BUILTIN_PROMPTS[feature].text);
+  };
+
+  const handleReset = () => {
+    resetToDefault(feature);
+    setSelectedId(null);
+    setDraft(BUILTIN_PROMPTS[feature].text);
+  };
+
+  const handleClose = () => {
+    if (isDirty && !window.confirm(t('prompts.discardConfirm'))) return;
+    onClose();
+  };
+
+  const insertPlaceholder = (name: string) => {
+    const textarea = textareaRef.current;
+    const token = `{${name}}`;
+    if (!textarea) {
+      setDraft(prev => prev + token);
+      return;
+    }
+    const { selectionStart, selectionEnd } = textarea;
+    setDraft(draft.slice(0, selectionStart) + token + draft.slice(selectionEnd));
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(selectionStart + token.length, selectionStart + token.length);
+    });
+  };
+
+  const buttonClass = "px-3 py-1.5 text-sm font-semibold text-indigo-600 border border-indigo-300 rounded-lg hover:bg-indigo-50 dark:hover:bg-indigo-400/15 transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+  return (
+    <div className="fixed inset-0 bg-black/30 dark:bg-black/60 backdrop-blur-sm flex items-center justify-center z-50" onClick={handleClose}>
+      <div className="bg-white/80 dark:bg-slate-800/90 backdrop-blur-xl rounded-2xl shadow-2xl w-full max-w-3xl max-h-[90vh] overflow-y-auto p-6 border border-white/50 dark:border-slate-700 flex flex-col gap-4" onClick={e => e.stopPropagation()}>
+        <h2 className="text-2xl font-bold text-gray-800 dark:text-slate-200">{t('prompts.title')}</h2>
+
+        <div className="flex bg-gray-200/50 dark:bg-slate-700/50 rounded-lg p-1">
+          {FEATURES.map(option => (
+            <button
+              key={option}
+              onClick={() => {
+                if (option === feature || (isDirty && !window.confirm(t('prompts.discardConfirm')))) return;
+                setFeature(option);
+              }}
+              className={`w-1/2 px-4 py-2 text-sm font-semibold rounded-md transition-all ${
+                feature === option ? `bg-white dark:bg-slate-800/90 shadow ${option === 'dataToGraph' ? 'text-indigo-600' : 'text-purple-600'}` : 'text-gray-600 dark:text-slate-300'
+              }`}
+            >
+              {t(`prompts.features.${option}`)}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <label className="text-sm font-medium text-gray-700 dark:text-slate-200">{t('prompts.version')}</label>
+          <select
+            value={selectedId || ''}
+            onChange={e => select(e.target.value || null)}
+            className="flex-grow px-3 py-1.5 text-sm border border-gray-300 dark:border-slate-700 rounded-lg bg-white dark:bg-slate-800/90 focus:outline-none focus:ring-2 focus:ring-indigo-400"
+          >
+            <option value="">{t('prompts.builtin', { version: BUILTIN_PROMPTS[feature].version })}</option>
+            {featureTemplates.versions.map(version => (
+              <option key={version.id} value={version.id}>
+                {version.id}{version.label ? ` · ${version.label}` : ''} · {new Date(version.createdAt).toLocaleString()}
+              </option>
+            ))}
+          </select>
+          <span className="text-xs text-gray-500 dark:text-slate-400">{t('prompts.inUse', { version: active.version })}</span>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 text-xs text-gray-600 dark:text-slate-300">
+          <span>{t('prompts.placeholders')}</span>
+          {PROMPT_PLACEHOLDERS.map(name => (
+            <button
+              key={name}
+              onClick={() => insertPlaceholder(name)}
+              title={t(`prompts.placeholderHints.${name}`)}
+              className="px-2 py-0.5 rounded-full bg-indigo-100 text-indigo-700 hover:bg-indigo-200 font-mono"
+            >
+              {`{${name}}`}
+            </button>
+          ))}
+        </div>
+
+        <textarea
+          ref={textareaRef}
+          value={draft}
+          onChange={e => setDraft(e.target.value)}
+          rows={16}
+          spellCheck={false}
+          className="w-full px-3 py-2 text-sm font-mono border border-gray-300 dark:border-slate-700 rounded-lg bg-white dark:bg-slate-800/90 resize-y focus:outline-none focus:ring-2 focus:ring-indigo-400"
+        />
+        <p className="text-xs text-gray-500 dark:text-slate-400">{t('prompts.formatHint')}</p>
+        {issues.missing.length > 0 && (
+          <p className="text-xs text-amber-700">{t('prompts.missing', { placeholders: issues.missing.map(name => `{${name}}`).join(', ') })}</p>
+        )}
+        {issues.unknown.length > 0 && (
+          <p className="text-xs text-amber-700">{t('prompts.unknown', { placeholders: issues.unknown.map(name => `{${name}}`).join(', ') })}</p>
+        )}
+
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            value={label}
+            onChange={e => setLabel(e.target.value)}
+            placeholder={t('prompts.labelPlaceholder')}
+            className="px-3 py-1.5 text-sm border border-gray-300 dark:border-slate-700 rounded-lg bg-white dark:bg-slate-800/90 focus:outline-none focus:ring-2 focus:ring-indigo-400"
+          />
+          <button onClick={handleSave} disabled={!isDirty || !draft.trim()} className={buttonClass}>{t('prompts.saveVersion')}</button>
+          <button
+            onClick={() => selected && activateVersion(feature, selected.id)}
+            disabled={!selected || isDirty || active.version === selectedVersion}
+            className={buttonClass}
+          >
+            {t('prompts.use')}
+          </button>
+          <button onClick={handleDelete} disabled={!selected} className="px-2 py-1.5 text-sm font-semibold text-red-600 hover:underline disabled:opacity-50 disabled:cursor-not-allowed">
+            {t('prompts.delete')}
+          </button>
+          <span className="flex-grow" />
+          <button onClick={handleReset} disabled={featureTemplates.activeId === null && !selectedId && !isDirty} className="text-sm text-gray-600 dark:text-slate-300 hover:underline disabled:opacity-50">
+            {t('prompts.reset')}
+          </button>
+        </div>
+
+        <div className="flex justify-end pt-4 border-t border-gray-200 dark:border-slate-700">
+          <button onClick={handleClose} className="px-4 py-2 text-sm font-medium text-gray-600 dark:text-slate-300 bg-white dark:bg-slate-800/90 border border-gray-300 dark:border-slate-700 rounded-lg hover:bg-gray-100 dark:hover:bg-slate-600/60 transition-colors">
+            {t('prompts.close')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PromptTemplateManager;
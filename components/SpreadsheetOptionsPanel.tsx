@@ -0,0 +1,113 @@
+import React, { useEffect, useState } from 'react';
+import type { SpreadsheetOptions } from '../types';
+import type { SheetPreview, SpreadsheetSession } from '../services/parserClient';
+import { isAbortError } from '../services/errors';
+import { useTranslation } from '../hooks/useTranslation';
+
+const PREVIEW_ROWS = 5;
+
+interface SpreadsheetOptionsPanelProps {
+  spreadsheet: SpreadsheetSession;
+  options: SpreadsheetOptions;
+  onChange: (options: SpreadsheetOptions) => void;
+  disabled: boolean;
+}
+
+const inputClass = "w-full px-2 py-1.5 text-sm border border-gray-300 dark:border-slate-700 rounded-lg bg-white dark:bg-slate-800/90 focus:outline-none focus:ring-2 focus:ring-indigo-400 disabled:bg-gray-100 dark:disabled:bg-slate-700/50";
+
+const SpreadsheetOptionsPanel: React.FC<SpreadsheetOptionsPanelProps> = ({ spreadsheet, options, onChange, disabled }) => {
+  const { t } = useTranslation();
+  const [sheetPreview, setSheetPreview] = useState<SheetPreview | null>(null);
+
+  // The preview is built in the parser worker; answers for options that have since changed are dropped.
+  useEffect(() => {
+    let current = true;
+    spreadsheet.preview(options, PREVIEW_ROWS)
+      .then(result => { if (current) setSheetPreview(result); })
+      .catch(err => {
+        if (current && !isAbortError(err)) {
+          setSheetPreview({ options, sheetRange: '', extraction: null, error: err instanceof Error ? err.message : String(err) });
+        }
+      });
+    return () => { current = false; };
+  }, [spreadsheet, options]);
+
+  const preview = {
+    records: sheetPreview?.extraction?.records || [],
+    headers: sheetPreview?.extraction?.headers || [],
+    headerRow: sheetPreview?.extraction?.headerRow ?? null,
+    error: sheetPreview?.error || null,
+  };
+
+  const handleHeaderRowChange = (value: string) => {
+    const row = parseInt(value, 10);
+    onChange({ ...options, headerRow: Number.isFinite(row) && row > 0 ? row : null });
+  };
+
+  return (
+    <div className="bg-white/50 dark:bg-slate-800/50 rounded-xl p-4 border border-gray-200 dark:border-slate-700 flex flex-col gap-3">
+      <h3 className="font-semibold text-gray-700 dark:text-slate-200">{t('spreadsheet.title')}</h3>
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <label className="flex flex-col gap-1 text-sm">
+          <span className="font-medium text-gray-600 dark:text-slate-300">{t('spreadsheet.sheet')}</span>
+          <select
+            value={options.sheetName}
+            onChange={e => onChange({ sheetName: e.target.value, headerRow: null, range: '' })}
+            disabled={disabled}
+            className={inputClass}
+          >
+            {spreadsheet.sheetNames.map((name: string) => <option key={name} value={name}>{name}</option>)}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-sm">
+          <span className="font-medium text-gray-600 dark:text-slate-300">{t('spreadsheet.headerRow')}</span>
+          <input
+            type="number"
+            min={1}
+            value={options.headerRow ?? ''}
+            onChange={e => handleHeaderRowChange(e.target.value)}
+            placeholder={preview.headerRow ? t('spreadsheet.headerRowAuto', { row: String(preview.headerRow) }) : ''}
+            disabled={disabled}
+            className={inputClass}
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-sm">
+          <span className="font-medium text-gray-600 dark:text-slate-300">{t('spreadsheet.range')}</span>
+          <input
+            type="text"
+            value={options.range}
+            onChange={e => onChange({ ...options, range: e.target.value })}
+            placeholder={sheetPreview?.sheetRange || ''}
+            disabled={disabled}
+            className={inputClass}
+          />
+        </label>
+      </div>
+
+      {preview.error && <p className="text-xs text-red-600">{preview.error}</p>}
+      {!preview.error && preview.headers.length > 0 && (
+        <div className="overflow-auto max-h-48 rounded-lg border border-gray-200 dark:border-slate-700 bg-white/60 dark:bg-slate-800/50">
+          <table className="min-w-full text-xs">
+            <thead className="bg-indigo-50 dark:bg-indigo-400/15 sticky top-0">
+              <tr>
+                {preview.headers.map(header => <th key={header} className="px-2 py-1 text-left font-semibold text-gray-700 dark:text-slate-200 whitespace-nowrap">{header}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {preview.records.map((record, r) => (
+                <tr key={r} className="border-t border-gray-100 dark:border-slate-700">
+                  {preview.headers.map(header => (
+                    <td key={header} className="px-2 py-1 whitespace-nowrap text-gray-700 dark:text-slate-200">{record[header] === null ? '' : String(record[header])}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+      {sheetPreview && !preview.error && preview.headers.length === 0 && <p className="text-xs text-gray-500 dark:text-slate-400">{t('spreadsheet.emptySheet')}</p>}
+    </div>
+  );
+};
+
+export default SpreadsheetOptionsPanel;
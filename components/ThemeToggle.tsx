@@ -0,0 +1,122 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { useTheme } from '../hooks/useTheme';
+import { useTranslation } from '../hooks/useTranslation';
+import type { ThemePreference } from '../contexts/ThemeContext';
+import { parsePaletteColors } from '../services/chartTheme';
+import type { ChartPalette } from '../services/chartTheme';
+import { MoonIcon, SunIcon } from './icons';
+
+const THEMES: ThemePreference[] = ['light', 'dark', 'system'];
+
+const Swatches: React.FC<{ colors: string[] | null }> = ({ colors }) => (
+  <span className="flex">
+    {(colors || ['#1783FF', '#00C9C9', '#F0884D', '#D580FF', '#7863FF']).slice(0, 8).map((color, i) => (
+      <span key={i} className="w-3 h-3 first:rounded-l last:rounded-r" style={{ backgroundColor: color }} />
+    ))}
+  </span>
+);
+
+const ThemeToggle: React.FC = () => {
+  const { theme, setTheme, resolvedTheme, palettes, paletteId, setPaletteId, saveCustomPalette, deleteCustomPalette } = useTheme();
+  const { t } = useTranslation();
+  const [isOpen, setIsOpen] = useState(false);
+  // The custom palette being created or edited.
+  const [draft, setDraft] = useState<{ id: string | null; name: string; colors: string } | null>(null);
+  const dropdownRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const parsed = draft ? parsePaletteColors(draft.colors) : null;
+  const canSave = !!draft && draft.name.trim() !== '' && !!parsed && parsed.colors.length >= 2 && parsed.invalid.length === 0;
+
+  const handleSave = () => {
+    if (!draft || !parsed || !canSave) return;
+    const palette: ChartPalette = { id: draft.id || `custom-${Date.now()}`, name: draft.name.trim(), colors: parsed.colors };
+    saveCustomPalette(palette);
+    setDraft(null);
+  };
+
+  const inputClass = "w-full px-2 py-1 text-sm border border-gray-300 dark:border-slate-700 rounded-md bg-white dark:bg-slate-800/90 focus:outline-none focus:ring-2 focus:ring-indigo-400";
+
+  return (
+    <div className="relative" ref={dropdownRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-10 h-10 flex items-center justify-center bg-white/50 dark:bg-slate-800/50 backdrop-blur-md rounded-full text-gray-600 dark:text-slate-300 hover:bg-white/80 dark:hover:bg-slate-700/90 transition-colors"
+        aria-label="Toggle theme"
+      >
+        {resolvedTheme === 'dark' ? <MoonIcon /> : <SunIcon />}
+      </button>
+      {isOpen && (
+        <div className="absolute top-12 right-0 w-72 z-30 bg-white/90 dark:bg-slate-800/90 backdrop-blur-lg rounded-lg shadow-xl border border-white/50 dark:border-slate-700 p-2 flex flex-col gap-2">
+          <div className="grid grid-cols-3 gap-1">
+            {THEMES.map(option => (
+              <button
+                key={option}
+                onClick={() => setTheme(option)}
+                className={`px-2 py-1.5 text-sm rounded-md transition-colors ${
+                  theme === option ? 'bg-indigo-500 text-white' : 'text-gray-700 dark:text-slate-200 hover:bg-gray-200/50 dark:hover:bg-slate-600/60'
+                }`}
+              >
+                {t(`theme.${option}`)}
+              </button>
+            ))}
+          </div>
+
+          <div className="border-t border-gray-200 dark:border-slate-700 pt-2">
+            <p className="px-1 pb-1 text-xs font-semibold text-gray-500 dark:text-slate-400">{t('theme.chartPalette')}</p>
+            <div className="flex flex-col max-h-64 overflow-y-auto">
+              {palettes.map(palette => (
+                <div
+                  key={palette.id}
+                  className={`flex items-center gap-2 px-2 py-1.5 rounded-md text-sm ${paletteId === palette.id ? 'bg-indigo-500 text-white' : 'text-gray-700 dark:text-slate-200 hover:bg-gray-200/50 dark:hover:bg-slate-600/60'}`}
+                >
+                  <button onClick={() => setPaletteId(palette.id)} className="flex-grow flex items-center gap-2 text-left min-w-0">
+                    <Swatches colors={palette.colors} />
+                    <span className="truncate">{palette.name}</span>
+                    {palette.colorBlindSafe && <span className="text-xs opacity-75" title={t('theme.colorBlindSafe')}>👁</span>}
+                  </button>
+                  {palette.custom && (
+                    <>
+                      <button onClick={() => setDraft({ id: palette.id, name: palette.name, colors: (palette.colors || []).join(', ') })} className="text-xs opacity-75 hover:opacity-100" title={t('theme.editPalette')}>✎</button>
+                      <button onClick={() => deleteCustomPalette(palette.id)} className="text-xs opacity-75 hover:opacity-100" title={t('theme.deletePalette')}>✕</button>
+                    </>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {draft ? (
+            <div className="border-t border-gray-200 dark:border-slate-700 pt-2 flex flex-col gap-1.5">
+              <input value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} placeholder={t('theme.paletteName')} className={inputClass} />
+              <textarea value={draft.colors} onChange={e => setDraft({ ...draft, colors: e.target.value })} placeholder="#1d4ed8, #f59e0b, #10b981" rows={2} className={inputClass} />
+              {parsed && parsed.colors.length > 0 && <Swatches colors={parsed.colors} />}
+              {parsed && parsed.invalid.length > 0 && (
+                <p className="text-xs text-red-600">{t('theme.invalidColors', { colors: parsed.invalid.join(', ') })}</p>
+              )}
+              <div className="flex justify-end gap-2">
+                <button onClick={() => setDraft(null)} className="px-2 py-1 text-xs text-gray-600 dark:text-slate-300 hover:underline">{t('theme.cancel')}</button>
+                <button onClick={handleSave} disabled={!canSave} className="px-3 py-1 text-xs font-semibold text-white bg-indigo-500 rounded-md disabled:opacity-50">{t('theme.savePalette')}</button>
+              </div>
+            </div>
+          ) : (
+            <button onClick={() => setDraft({ id: null, name: '', colors: '' })} className="text-sm text-indigo-600 hover:underline text-left px-1">
+              + {t('theme.newPalette')}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ThemeToggle;
@@ -0,0 +1,288 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { AggregateOperation, ChartRecommendation, FilterOperator, TransformStep } from '../types';
+import {
+  AGGREGATE_OPERATIONS,
+  DATE_BUCKET_UNITS,
+  FILTER_OPERATORS,
+  TRANSFORM_STEP_TYPES,
+  applyTransform,
+  columnsOf,
+  transformedFields,
+  validateTransform,
+} from '../services/dataTransform';
+import { EXPRESSION_FUNCTIONS } from '../services/expression';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface TransformEditorProps {
+  recommendation: ChartRecommendation;
+  // Rows before any transform, used to list the columns a pivot creates.
+  data: any[];
+  fields: string[];
+  onChange: (recommendation: ChartRecommendation) => void;
+}
+
+const OPERATOR_SYMBOLS: { [operator in FilterOperator]: string } = {
+  eq: '=', neq: '≠', gt: '>', gte: '≥', lt: '<', lte: '≤', contains: '∋',
+};
+
+const inputClass = "px-2 py-1 text-sm border border-gray-300 dark:border-slate-700 rounded-lg bg-white dark:bg-slate-800/90 focus:outline-none focus:ring-2 focus:ring-indigo-400";
+
+const newStep = (type: TransformStep['type'], fields: string[]): TransformStep => {
+  const [first = '', second = first, third = second] = fields;
+  switch (type) {
+    case 'filter': return { type, conditions: [{ field: first, operator: 'eq', value: '' }] };
+    case 'compute': return { type, as: 'computed', expression: '' };
+    case 'dateBucket': return { type, field: first, unit: 'month' };
+    case 'aggregate': return { type, groupBy: [first], aggregations: [{ field: second, op: 'sum' }] };
+    case 'pivot': return { type, index: [first], columns: second, values: third, op: 'sum' };
+    case 'unpivot': return { type, fields: [second], keyName: 'key', valueName: 'value' };
+    case 'sort': return { type, field: first, direction: 'asc' };
+    case 'topN': return { type, field: first, n: 10, direction: 'desc' };
+  }
+};
+
+const FieldSelect: React.FC<{ value: string; fields: string[]; onChange: (field: string) => void }> = ({ value, fields, onChange }) => (
+  <select value={value} onChange={e => onChange(e.target.value)} className={inputClass}>
+    {!fields.includes(value) && <option value={value}>{value || '—'}</option>}
+    {fields.map(field => <option key={field} value={field}>{field}</option>)}
+  </select>
+);
+
+const FieldChips: React.FC<{ value: string[]; fields: string[]; onChange: (fields: string[]) => void }> = ({ value, fields, onChange }) => (
+  <div className="flex flex-wrap gap-1">
+    {Array.from(new Set([...fields, ...value])).map(field => {
+      const selected = value.includes(field);
+      return (
+        <button
+          key={field}
+          type="button"
+          onClick={() => onChange(selected ? value.filter(name => name !== field) : [...value, field])}
+          className={`px-2 py-0.5 text-xs rounded-full border transition-colors ${selected ? 'bg-indigo-500 text-white border-indigo-500' : 'bg-white dark:bg-slate-800/90 text-gray-600 dark:text-slate-300 border-gray-300 dark:border-slate-700 hover:border-indigo-400'}`}
+        >
+          {field}
+        </button>
+      );
+    })}
+  </div>
+);
+
+const TransformEditor: React.FC<TransformEditorProps> = ({ recommendation, data, fields, onChange }) => {
+  const { t } = useTranslation();
+  const [draft, setDraft] = useState<TransformStep[]>(recommendation.transform || []);
+  const [newType, setNewType] = useState<TransformStep['type']>('filter');
+
+  // Refinements and resets replace the steps from outside; unapplied edits are dropped then.
+  useEffect(() => {
+    setDraft(recommendation.transform || []);
+  }, [recommendation.transform]);
+
+  const issues = useMemo(() => validateTransform(draft, fields), [draft, fields]);
+
+  // Columns available to each step, plus the final set. After a pivot they are read from the transformed rows.
+  const fieldsBefore = useMemo(() => draft.map((_, i) => i).concat(draft.length).map(i => {
+    const steps = draft.slice(0, i);
+    const known = transformedFields(fields, steps);
+    if (known) return known;
+    try {
+      return columnsOf(applyTransform(data, steps));
+    } catch {
+      return [];
+    }
+  }), [draft, fields, data]);
+
+  const changed = JSON.stringify(draft) !== JSON.stringify(recommendation.transform || []);
+
+  const updateStep = (index: number, step: TransformStep) => setDraft(steps => steps.map((current, i) => (i === index ? step : current)));
+  const removeStep = (index: number) => setDraft(steps => steps.filter((_, i) => i !== index));
+  const moveStep = (index: number, offset: number) => setDraft(steps => {
+    const next = [...steps];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    return next;
+  });
+
+  const handleApply = () => {
+    onChange({ ...recommendation, transform: draft.length > 0 ? draft : undefined });
+  };
+
+  const renderStep = (step: TransformStep, index: number) => {
+    const available = fieldsBefore[index];
+    const update = (changes: Partial<TransformStep>) => updateStep(index, { ...step, ...changes } as TransformStep);
+
+    switch (step.type) {
+      case 'filter':
+        return (
+          <div className="flex flex-col gap-2">
+            {step.conditions.map((condition, j) => {
+              const updateCondition = (changes: Partial<typeof condition>) =>
+                update({ conditions: step.conditions.map((c, k) => (k === j ? { ...c, ...changes } : c)) });
+              return (
+                <div key={j} className="flex flex-wrap items-center gap-2">
+                  <FieldSelect value={condition.field} fields={available} onChange={field => updateCondition({ field })} />
+                  <select value={condition.operator} onChange={e => updateCondition({ operator: e.target.value as FilterOperator })} className={inputClass}>
+                    {FILTER_OPERATORS.map(operator => <option key={operator} value={operator}>{OPERATOR_SYMBOLS[operator]} {t(`transform.operators.${operator}`)}</option>)}
+                  </select>
+                  <input value={String(condition.value)} onChange={e => updateCondition({ value: e.target.value })} placeholder={t('transform.value')} className={`${inputClass} flex-grow min-w-[6rem]`} />
+                  {step.conditions.length > 1 && (
+                    <button type="button" onClick={() => update({ conditions: step.conditions.filter((_, k) => k !== j) })} className="text-gray-400 dark:text-slate-400 hover:text-red-500" title={t('transform.remove')}>✕</button>
+                  )}
+                </div>
+              );
+            })}
+            <button type="button" onClick={() => update({ conditions: [...step.conditions, { field: available[0] || '', operator: 'eq', value: '' }] })} className="self-start text-xs text-indigo-600 hover:underline">
+              + {t('transform.addCondition')}
+            </button>
+          </div>
+        );
+      case 'aggregate':
+        return (
+          <div className="flex flex-col gap-2 text-sm">
+            <span className="text-gray-600 dark:text-slate-300">{t('transform.groupBy')}</span>
+            <FieldChips value={step.groupBy} fields={available} onChange={groupBy => update({ groupBy })} />
+            <span className="text-gray-600 dark:text-slate-300">{t('transform.aggregations')}</span>
+            {step.aggregations.map((aggregation, j) => {
+              const updateAggregation = (changes: Partial<typeof aggregation>) =>
+                update({ aggregations: step.aggregations.map((a, k) => (k === j ? { ...a, ...changes } : a)) });
+              return (
+                <div key={j} className="flex flex-wrap items-center gap-2">
+                  <select value={aggregation.op} onChange={e => updateAggregation({ op: e.target.value as AggregateOperation })} className={inputClass}>
+                    {AGGREGATE_OPERATIONS.map(op => <option key={op} value={op}>{t(`transform.ops.${op}`)}</option>)}
+                  </select>
+                  <FieldSelect value={aggregation.field} fields={available} onChange={field => updateAggregation({ field })} />
+                  <input value={aggregation.as || ''} onChange={e => updateAggregation({ as: e.target.value || undefined })} placeholder={t('transform.as')} className={`${inputClass} flex-grow min-w-[6rem]`} />
+                  {step.aggregations.length > 1 && (
+                    <button type="button" onClick={() => update({ aggregations: step.aggregations.filter((_, k) => k !== j) })} className="text-gray-400 dark:text-slate-400 hover:text-red-500" title={t('transform.remove')}>✕</button>
+                  )}
+                </div>
+              );
+            })}
+            <button type="button" onClick={() => update({ aggregations: [...step.aggregations, { field: available[0] || '', op: 'sum' }] })} className="self-start text-xs text-indigo-600 hover:underline">
+              + {t('transform.addAggregation')}
+            </button>
+          </div>
+        );
+      case 'pivot':
+        return (
+          <div className="flex flex-col gap-2 text-sm">
+            <span className="text-gray-600 dark:text-slate-300">{t('transform.index')}</span>
+            <FieldChips value={step.index} fields={available} onChange={index => update({ index })} />
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-gray-600 dark:text-slate-300">{t('transform.columns')}</span>
+              <FieldSelect value={step.columns} fields={available} onChange={columns => update({ columns })} />
+              <span className="text-gray-600 dark:text-slate-300">{t('transform.values')}</span>
+              <select value={step.op} onChange={e => update({ op: e.target.value as AggregateOperation })} className={inputClass}>
+                {AGGREGATE_OPERATIONS.map(op => <option key={op} value={op}>{t(`transform.ops.${op}`)}</option>)}
+              </select>
+              <FieldSelect value={step.values} fields={available} onChange={values => update({ values })} />
+            </div>
+          </div>
+        );
+      case 'unpivot':
+        return (
+          <div className="flex flex-col gap-2 text-sm">
+            <span className="text-gray-600 dark:text-slate-300">{t('transform.unpivotFields')}</span>
+            <FieldChips value={step.fields} fields={available} onChange={selected => update({ fields: selected })} />
+            <div className="flex flex-wrap items-center gap-2">
+              <input value={step.keyName} onChange={e => update({ keyName: e.target.value })} placeholder={t('transform.keyName')} title={t('transform.keyName')} className={inputClass} />
+              <input value={step.valueName} onChange={e => update({ valueName: e.target.value })} placeholder={t('transform.valueName')} title={t('transform.valueName')} className={inputClass} />
+            </div>
+          </div>
+        );
+      case 'sort':
+      case 'topN':
+        return (
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <FieldSelect value={step.field} fields={available} onChange={field => update({ field })} />
+            <select value={step.direction} onChange={e => update({ direction: e.target.value as 'asc' | 'desc' })} className={inputClass}>
+              <option value="asc">{t('transform.asc')}</option>
+              <option value="desc">{t('transform.desc')}</option>
+            </select>
+            {step.type === 'topN' && (
+              <label className="flex items-center gap-2">
+                <span className="text-gray-600 dark:text-slate-300">{t('transform.n')}</span>
+                <input type="number" min={1} value={step.n} onChange={e => update({ n: Number(e.target.value) })} className={`${inputClass} w-20`} />
+              </label>
+            )}
+          </div>
+        );
+      case 'compute':
+        return (
+          <div className="flex flex-col gap-2 text-sm">
+            <div className="flex flex-wrap items-center gap-2">
+              <input value={step.as} onChange={e => update({ as: e.target.value })} placeholder={t('transform.as')} title={t('transform.as')} className={`${inputClass} w-40`} />
+              <span className="text-gray-500 dark:text-slate-400">=</span>
+              <input value={step.expression} onChange={e => update({ expression: e.target.value })} placeholder="[Revenue] - Cost" className={`${inputClass} flex-grow font-mono min-w-[10rem]`} />
+            </div>
+            <p className="text-xs text-gray-500 dark:text-slate-400">{t('transform.expressionHint', { functions: EXPRESSION_FUNCTIONS.join(', ') })}</p>
+          </div>
+        );
+      case 'dateBucket':
+        return (
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <FieldSelect value={step.field} fields={available} onChange={field => update({ field })} />
+            <select value={step.unit} onChange={e => update({ unit: e.target.value as typeof step.unit })} className={inputClass}>
+              {DATE_BUCKET_UNITS.map(unit => <option key={unit} value={unit}>{t(`transform.units.${unit}`)}</option>)}
+            </select>
+            <input value={step.as || ''} onChange={e => update({ as: e.target.value || undefined })} placeholder={t('transform.as')} title={t('transform.as')} className={inputClass} />
+          </div>
+        );
+    }
+  };
+
+  return (
+    <div className="bg-white/60 dark:bg-slate-800/50 rounded-xl p-4 flex flex-col gap-3">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold text-gray-700 dark:text-slate-200">{t('transform.title')}</h3>
+        {changed && (
+          <button onClick={() => setDraft(recommendation.transform || [])} className="text-xs text-gray-500 dark:text-slate-400 hover:text-indigo-600 hover:underline">
+            {t('transform.discard')}
+          </button>
+        )}
+      </div>
+
+      {draft.length === 0 && <p className="text-sm text-gray-500 dark:text-slate-400">{t('transform.empty')}</p>}
+
+      {draft.map((step, i) => (
+        <div key={i} className="border border-gray-200 dark:border-slate-700 rounded-lg p-3 bg-white/70 dark:bg-slate-800/90 flex flex-col gap-2">
+          <div className="flex items-center justify-between">
+            <span className="text-xs font-semibold uppercase tracking-wide text-indigo-600">{i + 1}. {t(`transform.types.${step.type}`)}</span>
+            <div className="flex items-center gap-2 text-gray-400 dark:text-slate-400">
+              <button type="button" onClick={() => moveStep(i, -1)} disabled={i === 0} className="hover:text-indigo-600 disabled:opacity-30" title={t('transform.moveUp')}>↑</button>
+              <button type="button" onClick={() => moveStep(i, 1)} disabled={i === draft.length - 1} className="hover:text-indigo-600 disabled:opacity-30" title={t('transform.moveDown')}>↓</button>
+              <button type="button" onClick={() => removeStep(i)} className="hover:text-red-500" title={t('transform.remove')}>✕</button>
+            </div>
+          </div>
+          {renderStep(step, i)}
+        </div>
+      ))}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <select value={newType} onChange={e => setNewType(e.target.value as TransformStep['type'])} className={inputClass}>
+          {TRANSFORM_STEP_TYPES.map(type => <option key={type} value={type}>{t(`transform.types.${type}`)}</option>)}
+        </select>
+        <button
+          type="button"
+          onClick={() => setDraft(steps => [...steps, newStep(newType, fieldsBefore[steps.length] || [])])}
+          className="px-3 py-1 text-sm font-semibold text-indigo-600 border border-indigo-300 rounded-lg hover:bg-indigo-50 dark:hover:bg-indigo-400/15 transition-colors"
+        >
+          + {t('transform.addStep')}
+        </button>
+        <button
+          type="button"
+          onClick={handleApply}
+          disabled={!changed || issues.length > 0}
+          className="ml-auto px-4 py-1.5 text-sm font-semibold text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {t('transform.apply')}
+        </button>
+      </div>
+
+      {changed && issues.length > 0 && (
+        <ul className="text-xs text-red-600 list-disc pl-5 space-y-0.5">
+          {issues.map((issue, i) => <li key={i}>{issue}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default TransformEditor;
@@ -1,10 +1,24 @@
 
-import React, { createContext, useState, useEffect, useMemo } from 'react';
+import React, { createContext, useState, useEffect, useMemo, useRef } from 'react';
 import type { ModelConfig } from '../types';
+import { isModelProviderType } from '../services/providers';
+import {
+  clearStoredCredentials, createSalt, decryptCredentials, deriveKey, encryptCredentials, mergeCredentials,
+  readSessionCredentials, readStoredCredentials, splitCredentials, writeStoredCredentials,
+} from '../services/credentialStore';
+import type { CredentialMap, CredentialStorage } from '../services/credentialStore';
 
 interface ModelContextType {
   modelConfig: ModelConfig;
   setModelConfig: (config: ModelConfig) => void;
+  // How API keys are kept between visits.
+  credentialStorage: CredentialStorage;
+  // Encrypted keys are stored but the passphrase has not been entered in this session.
+  credentialsLocked: boolean;
+  // Resolves with the decrypted keys; rejects with WrongPassphraseError.
+  unlockCredentials: (passphrase: string) => Promise<CredentialMap>;
+  changeCredentialStorage: (storage: CredentialStorage, passphrase?: string) => Promise<void>;
+  forgetCredentials: () => void;
 }
 
 const defaultModelConfig: ModelConfig = {
@@ -12,13 +26,9 @@ const defaultModelConfig: ModelConfig = {
     graphToData: { provider: 'google' },
 };
 
-export const ModelContext = createContext<ModelContextType>({
-  modelConfig: defaultModelConfig,
-  setModelConfig: () => {},
-});
+export const ModelContext = createContext<ModelContextType | undefined>(undefined);
 
-export const ModelProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const [modelConfig, setModelConfig] = useState<ModelConfig>(() => {
+const loadModelConfig = (): ModelConfig => {
     if (typeof window === 'undefined') return defaultModelConfig;
     try {
       const savedConfigString = localStorage.getItem('modelConfig');
@@ -37,8 +47,9 @@ export const ModelProvider: React.FC<{ children: React.ReactNode }> = ({ childre
           return migratedConfig;
       }
 
-      // Check if the loaded config has the correct shape
-      if (savedConfig.dataToGraph && savedConfig.graphToData) {
+      // Check if the loaded config has the correct shape and only references registered providers
+      if (savedConfig.dataToGraph && savedConfig.graphToData
+          && isModelProviderType(savedConfig.dataToGraph.provider) && isModelProviderType(savedConfig.graphToData.provider)) {
           return savedConfig;
       }
 
@@ -48,17 +59,86 @@ export const ModelProvider: React.FC<{ children: React.ReactNode }> = ({ childre
       console.error("Failed to parse model config from localStorage", error);
       return defaultModelConfig;
     }
-  });
+};
+
+// The stored config with whatever keys can be read without a passphrase. Configs saved before keys were stored
+// separately still carry their keys inline; they are treated as plain storage and split on the next save.
+const loadInitialState = () => {
+  const config = loadModelConfig();
+  const stored = readStoredCredentials();
+  if (!stored) return { config, storage: 'plain' as CredentialStorage, locked: false };
+  if (stored.storage === 'plain') return { config: mergeCredentials(config, stored.credentials), storage: stored.storage, locked: false };
+  if (stored.storage === 'session') return { config: mergeCredentials(config, readSessionCredentials()), storage: stored.storage, locked: false };
+  return { config, storage: stored.storage, locked: true };
+};
+
+export const ModelProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [initial] = useState(loadInitialState);
+  const [modelConfig, setModelConfig] = useState<ModelConfig>(initial.config);
+  const [credentialStorage, setCredentialStorage] = useState<CredentialStorage>(initial.storage);
+  const [credentialsLocked, setCredentialsLocked] = useState(initial.locked);
+  // Derived from the passphrase once per session; only held in memory.
+  const encryptionRef = useRef<{ key: CryptoKey; salt: Uint8Array } | null>(null);
+  // Encryption is asynchronous; only the latest write may land.
+  const writeIdRef = useRef(0);
 
   useEffect(() => {
+    const { config, credentials } = splitCredentials(modelConfig);
+    const writeId = ++writeIdRef.current;
     try {
-      localStorage.setItem('modelConfig', JSON.stringify(modelConfig));
+      localStorage.setItem('modelConfig', JSON.stringify(config));
+      if (credentialStorage === 'plain') {
+        writeStoredCredentials({ version: 1, storage: 'plain', credentials });
+      } else if (credentialStorage === 'session') {
+        writeStoredCredentials({ version: 1, storage: 'session' }, credentials);
+      } else if (!credentialsLocked && encryptionRef.current) {
+        // While locked the stored keys are unknown, so they are left as they are.
+        const { key, salt } = encryptionRef.current;
+        encryptCredentials(credentials, key, salt)
+          .then(stored => writeId === writeIdRef.current && writeStoredCredentials(stored))
+          .catch(error => console.error("Failed to encrypt credentials", error));
+      }
     } catch (error) {
       console.error("Failed to save model config to localStorage", error);
     }
-  }, [modelConfig]);
+  }, [modelConfig, credentialStorage, credentialsLocked]);
 
-  const value = useMemo(() => ({ modelConfig, setModelConfig }), [modelConfig]);
+  const value = useMemo<ModelContextType>(() => ({
+    modelConfig,
+    setModelConfig,
+    credentialStorage,
+    credentialsLocked,
+    unlockCredentials: async (passphrase: string) => {
+      const stored = readStoredCredentials();
+      if (!stored || stored.storage !== 'encrypted') return {};
+      const { credentials, key, salt } = await decryptCredentials(stored, passphrase);
+      encryptionRef.current = { key, salt };
+      setModelConfig(prev => mergeCredentials(prev, credentials));
+      setCredentialsLocked(false);
+      return credentials;
+    },
+    changeCredentialStorage: async (storage: CredentialStorage, passphrase?: string) => {
+      // The encrypted keys are unknown until unlocked, so switching now would drop them.
+      if (credentialsLocked) throw new Error('Unlock the stored API keys before changing how they are kept.');
+      if (storage === 'encrypted') {
+        if (!passphrase) throw new Error('A passphrase is required to encrypt credentials.');
+        const salt = createSalt();
+        encryptionRef.current = { key: await deriveKey(passphrase, salt), salt };
+      } else {
+        encryptionRef.current = null;
+      }
+      setCredentialStorage(storage);
+      setCredentialsLocked(false);
+    },
+    forgetCredentials: () => {
+      writeIdRef.current++;
+      encryptionRef.current = null;
+      clearStoredCredentials();
+      setModelConfig(prev => splitCredentials(prev).config);
+      setCredentialStorage('plain');
+      setCredentialsLocked(false);
+    },
+  }), [modelConfig, credentialStorage, credentialsLocked]);
 
   return <ModelContext.Provider value={value}>{children}</ModelContext.Provider>;
 };
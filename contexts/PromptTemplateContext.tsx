@@ -0,0 +1,47 @@
+import React, { createContext, useState, useEffect, useMemo } from 'react';
+import type { ModelFeature } from '../types';
+import {
+  addTemplateVersion, loadPromptTemplates, removeTemplateVersion, resolvePrompt, savePromptTemplates, setActiveTemplate,
+} from '../services/promptTemplates';
+import type { PromptTemplateStore, ResolvedPrompt } from '../services/promptTemplates';
+
+interface PromptTemplateContextType {
+  templates: PromptTemplateStore;
+  // The template a new run of the feature is sent with.
+  getPrompt: (feature: ModelFeature) => ResolvedPrompt;
+  // Saves and activates a new version, returning its id.
+  saveVersion: (feature: ModelFeature, text: string, label?: string) => string;
+  activateVersion: (feature: ModelFeature, id: string) => void;
+  deleteVersion: (feature: ModelFeature, id: string) => void;
+  // Switches back to the built-in template; saved versions are kept.
+  resetToDefault: (feature: ModelFeature) => void;
+}
+
+export const PromptTemplateContext = createContext<PromptTemplateContextType | undefined>(undefined);
+
+export const PromptTemplateProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [templates, setTemplates] = useState<PromptTemplateStore>(loadPromptTemplates);
+
+  useEffect(() => {
+    savePromptTemplates(templates);
+  }, [templates]);
+
+  const value = useMemo<PromptTemplateContextType>(() => ({
+    templates,
+    getPrompt: feature => resolvePrompt(templates, feature),
+    saveVersion: (feature, text, label) => {
+      const next = addTemplateVersion(templates, feature, text, label);
+      setTemplates(next);
+      return next[feature].activeId as string;
+    },
+    activateVersion: (feature, id) => setTemplates(prev => setActiveTemplate(prev, feature, id)),
+    deleteVersion: (feature, id) => setTemplates(prev => removeTemplateVersion(prev, feature, id)),
+    resetToDefault: feature => setTemplates(prev => setActiveTemplate(prev, feature, null)),
+  }), [templates]);
+
+  return (
+    <PromptTemplateContext.Provider value={value}>
+      {children}
+    </PromptTemplateContext.Provider>
+  );
+};
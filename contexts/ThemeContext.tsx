@@ -0,0 +1,100 @@
+import React, { createContext, useState, useEffect, useMemo } from 'react';
+import { BUILTIN_PALETTES } from '../services/chartTheme';
+import type { ChartPalette, ChartTheme } from '../services/chartTheme';
+
+export type ThemePreference = 'light' | 'dark' | 'system';
+
+interface ThemeContextType {
+  theme: ThemePreference;
+  setTheme: (theme: ThemePreference) => void;
+  // The theme in effect, with 'system' resolved from the OS setting.
+  resolvedTheme: 'light' | 'dark';
+  palettes: ChartPalette[];
+  paletteId: string;
+  setPaletteId: (id: string) => void;
+  saveCustomPalette: (palette: ChartPalette) => void;
+  deleteCustomPalette: (id: string) => void;
+  // What every rendered chart is drawn with.
+  chartTheme: ChartTheme;
+}
+
+const DARK_QUERY = '(prefers-color-scheme: dark)';
+
+export const ThemeContext = createContext<ThemeContextType | undefined>(undefined);
+
+const readCustomPalettes = (): ChartPalette[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem('customChartPalettes') || '[]');
+    return Array.isArray(saved)
+      ? saved.filter(palette => palette && typeof palette.id === 'string' && Array.isArray(palette.colors)).map(palette => ({ ...palette, custom: true }))
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+export const ThemeProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [theme, setTheme] = useState<ThemePreference>(() => {
+    const saved = localStorage.getItem('theme');
+    return saved === 'light' || saved === 'dark' ? saved : 'system';
+  });
+  const [systemDark, setSystemDark] = useState(() => window.matchMedia(DARK_QUERY).matches);
+  const [customPalettes, setCustomPalettes] = useState<ChartPalette[]>(readCustomPalettes);
+  const [paletteId, setPaletteId] = useState(() => localStorage.getItem('chartPalette') || 'default');
+
+  useEffect(() => {
+    const query = window.matchMedia(DARK_QUERY);
+    const handleChange = (e: MediaQueryListEvent) => setSystemDark(e.matches);
+    query.addEventListener('change', handleChange);
+    return () => query.removeEventListener('change', handleChange);
+  }, []);
+
+  const resolvedTheme = theme === 'system' ? (systemDark ? 'dark' : 'light') : theme;
+
+  useEffect(() => {
+    document.documentElement.classList.toggle('dark', resolvedTheme === 'dark');
+    document.documentElement.style.colorScheme = resolvedTheme;
+  }, [resolvedTheme]);
+
+  useEffect(() => {
+    localStorage.setItem('theme', theme);
+  }, [theme]);
+
+  useEffect(() => {
+    localStorage.setItem('chartPalette', paletteId);
+  }, [paletteId]);
+
+  useEffect(() => {
+    localStorage.setItem('customChartPalettes', JSON.stringify(customPalettes.map(({ custom, ...palette }) => palette)));
+  }, [customPalettes]);
+
+  const palettes = useMemo(() => [...BUILTIN_PALETTES, ...customPalettes], [customPalettes]);
+  // A deleted or unknown palette falls back to the library colours.
+  const palette = palettes.find(candidate => candidate.id === paletteId) || BUILTIN_PALETTES[0];
+
+  const saveCustomPalette = (saved: ChartPalette) => {
+    setCustomPalettes(prev => {
+      const next = { ...saved, custom: true };
+      return prev.some(existing => existing.id === saved.id) ? prev.map(existing => (existing.id === saved.id ? next : existing)) : [...prev, next];
+    });
+    setPaletteId(saved.id);
+  };
+
+  const deleteCustomPalette = (id: string) => {
+    setCustomPalettes(prev => prev.filter(existing => existing.id !== id));
+    if (paletteId === id) setPaletteId('default');
+  };
+
+  const chartTheme = useMemo<ChartTheme>(
+    () => ({ dark: resolvedTheme === 'dark', colors: palette.colors }),
+    [resolvedTheme, palette]
+  );
+
+  return (
+    <ThemeContext.Provider
+      value={{ theme, setTheme, resolvedTheme, palettes, paletteId: palette.id, setPaletteId, saveCustomPalette, deleteCustomPalette, chartTheme }}
+    >
+      {children}
+    </ThemeContext.Provider>
+  );
+};
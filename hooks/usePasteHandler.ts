@@ -0,0 +1,18 @@
+import { useEffect, useRef } from 'react';
+import { isEditableTarget } from '../services/clipboard';
+
+// Calls the handler for pastes anywhere on the page while enabled, except pastes into text fields.
+export const usePasteHandler = (enabled: boolean, handler: (e: ClipboardEvent) => void) => {
+  // Read through a ref so the window listener sees the latest handler without re-subscribing.
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(() => {
+    if (!enabled) return;
+    const listener = (e: ClipboardEvent) => {
+      if (!isEditableTarget(e.target)) handlerRef.current(e);
+    };
+    window.addEventListener('paste', listener);
+    return () => window.removeEventListener('paste', listener);
+  }, [enabled]);
+};
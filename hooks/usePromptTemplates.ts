@@ -0,0 +1,10 @@
+import { useContext } from 'react';
+import { PromptTemplateContext } from '../contexts/PromptTemplateContext';
+
+export const usePromptTemplates = () => {
+  const context = useContext(PromptTemplateContext);
+  if (context === undefined) {
+    throw new Error('usePromptTemplates must be used within a PromptTemplateProvider');
+  }
+  return context;
+};
@@ -3,6 +3,8 @@ import ReactDOM from 'react-dom/client';
 import App from './App';
 import { LanguageProvider } from './contexts/LanguageContext';
 import { ModelProvider } from './contexts/ModelContext';
+import { ThemeProvider } from './contexts/ThemeContext';
+import { PromptTemplateProvider } from './contexts/PromptTemplateContext';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -13,9 +15,13 @@ const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
     <LanguageProvider>
-      <ModelProvider>
-        <App />
-      </ModelProvider>
+      <ThemeProvider>
+        <ModelProvider>
+          <PromptTemplateProvider>
+            <App />
+          </PromptTemplateProvider>
+        </ModelProvider>
+      </ThemeProvider>
     </LanguageProvider>
   </React.StrictMode>
 );
\ No newline at end of file
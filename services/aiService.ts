@@ -1,31 +1,245 @@
 
-import { GoogleGenAI, Type } from '@google/genai';
-import type { ChartRecommendation, ExtractedDataResponse, ProviderConfig, CustomModelConfig } from '../types';
+import { Type } from '@google/genai';
+import type { ChartRecommendation, DataProfile, ExtractedDataResponse, ProviderConfig } from '../types';
+import { AGGREGATE_OPERATIONS, DATE_BUCKET_UNITS, FILTER_OPERATORS, TRANSFORM_STEP_TYPES, transformedFields, validateTransform } from './dataTransform';
+import { EXPRESSION_FUNCTIONS } from './expression';
+import { normalizeDataSeries } from './dataSeries';
+import { formatProfileForPrompt } from './dataProfiler';
+import { AiResponseValidationError, createAbortError } from './errors';
+import { validateAgainstSchema } from './schemaValidation';
+import { getConnection, getProvider } from './providers';
+import type { CompletionRequest, ImageInput } from './providers';
+import { BUILTIN_PROMPTS, renderPrompt } from './promptTemplates';
 
-const getGeminiClient = () => {
-    // Per coding guidelines, API key must be from process.env.API_KEY and initialized with a named parameter.
-    return new GoogleGenAI({ apiKey: process.env.API_KEY });
+// How many times the model is asked to fix a response that fails validation.
+const MAX_REPAIR_ATTEMPTS = 2;
+
+type ParseResult = { ok: true; value: any } | { ok: false; issue: string };
+
+// Models sometimes wrap JSON in markdown code blocks. This extracts the JSON before parsing.
+const parseModelJson = (jsonText: string): ParseResult => {
+    const match = jsonText.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
+    const parsableText = match ? match[1] : jsonText;
+    try {
+        return { ok: true, value: JSON.parse(parsableText.trim()) };
+    } catch (e) {
+        console.error("Failed to parse JSON response from the AI:", jsonText, e);
+        return { ok: false, issue: `response is not valid JSON (${e instanceof Error ? e.message : String(e)})` };
+    }
+};
+
+const JSON_ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' };
+
+// Reads the value of a string field out of a JSON document that is still streaming in, so long text
+// fields can be shown while the rest of the answer arrives. Returns null until the field has started.
+export const readPartialJsonString = (jsonText: string, key: string): string | null => {
+    const match = new RegExp(`"${key}"\\s*:\\s*"`).exec(jsonText);
+    if (!match) return null;
+
+    let value = '';
+    let i = match.index + match[0].length;
+    while (i < jsonText.length && jsonText[i] !== '"') {
+        if (jsonText[i] !== '\\') {
+            value += jsonText[i++];
+            continue;
+        }
+        const escaped = jsonText[i + 1];
+        if (escaped === undefined) break;
+        if (escaped === 'u') {
+            const hex = jsonText.slice(i + 2, i + 6);
+            if (hex.length < 4) break;
+            value += String.fromCharCode(parseInt(hex, 16));
+            i += 6;
+        } else {
+            value += JSON_ESCAPES[escaped] ?? escaped;
+            i += 2;
+        }
+    }
+    return value;
+};
+
+export interface AnalysisOptions {
+    signal?: AbortSignal;
+    // Receives the long text field of the answer (analysis or report) while it streams in.
+    onPartialText?: (text: string) => void;
+    // Template text with placeholders; the built-in template when unset.
+    promptTemplate?: string;
+    // Name of the language prose should be written in, e.g. "English".
+    language?: string;
+    // Fills {fileName} in image prompts; data prompts take the file name as an argument.
+    fileName?: string;
+}
+
+const repairPrompt = (originalPrompt: string, previousText: string, issues: string[]) => `${originalPrompt}
+
+Your previous response could not be used because it did not match the required format:
+${issues.map(issue => `- ${issue}`).join('\n')}
+
+Previous response:
+${previousText.slice(0, 4000)}
+
+Return the corrected response as a single, valid JSON object that fixes every problem listed above, without any surrounding text or markdown.
+`;
+
+// Sends a request through the adapter registered for the configured provider, parses its JSON answer and
+// validates it. Invalid answers are sent back with the list of problems until the retry budget runs out.
+const completeJson = async (
+    providerConfig: ProviderConfig,
+    request: CompletionRequest,
+    validate: (value: any) => string[],
+    image?: ImageInput,
+    onText?: (textSoFar: string) => void
+): Promise<any> => {
+    const adapter = getProvider(providerConfig.provider);
+    const connection = getConnection(providerConfig);
+    let prompt = request.prompt;
+    let issues: string[] = [];
+    const timeoutMs = providerConfig.timeoutSeconds ? providerConfig.timeoutSeconds * 1000 : undefined;
+
+    for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+        if (request.signal?.aborted) throw createAbortError();
+        const attemptRequest = { ...request, prompt, timeoutMs, onText, generation: providerConfig.generation };
+        const text = image
+            ? await adapter.completeVision({ ...attemptRequest, image }, connection)
+            : await adapter.completeText(attemptRequest, connection);
+
+        const parsed = parseModelJson(text);
+        if (parsed.ok === true) {
+            issues = validate(parsed.value);
+            if (issues.length === 0) {
+                return parsed.value;
+            }
+        } else {
+            issues = [parsed.issue];
+        }
+        console.warn(`AI response failed validation (attempt ${attempt + 1}):`, issues);
+        prompt = repairPrompt(request.prompt, text, issues);
+    }
+
+    throw new AiResponseValidationError(issues, MAX_REPAIR_ATTEMPTS + 1);
 };
 
 // --- Data to Graph ---
 
-const dataToGraphPrompt = (dataSample: string, fileName: string) => `
-Analyze the following data sample from the file "${fileName}" and provide recommendations for the best chart types to visualize it. The data is in JSON format.
-Data sample:
-${dataSample}
+// The template's guidance followed by the response format, which templates cannot change.
+const dataToGraphPrompt = (dataSample: string, fileName: string, profile: DataProfile, options: AnalysisOptions) => `${renderPrompt(
+    options.promptTemplate ?? BUILTIN_PROMPTS.dataToGraph.text,
+    { fileName, sample: dataSample, profile: formatProfileForPrompt(profile), language: options.language || 'English' }
+)}
 
-Your task is to:
-1.  Provide a brief, insightful analysis of the data's structure, key fields, and potential relationships. This should be a single paragraph.
-2.  Suggest exactly 3 different chart types that would be effective for this data.
-3.  For each recommendation, provide:
-    a. A descriptive title for the chart (e.g., "Monthly Sales Trend").
-    b. The chart type (must be one of: 'line', 'column', 'bar', 'pie', 'area', 'scatter', 'rose').
-    c. A concise reason (max 20 words) explaining why this chart is a good fit.
-    d. A valid JSON configuration object for Ant Design Charts (G2Plot). The config must only include fields present in the data sample. For example: { "xField": "date", "yField": "sales" }. Do not invent fields. Use the exact field names from the data.
+Each recommendation may also include a transform: ${transformInstructions}
 
-Your response must be a single, valid JSON object, without any surrounding text or markdown.
+Your response must be a single, valid JSON object with "dataAnalysis" and "chartRecommendations" (each with "title", "chartType", "reason", "config" and optionally "transform"), without any surrounding text or markdown.
 `;
 
+export const SUPPORTED_CHART_TYPES = ['line', 'column', 'bar', 'pie', 'area', 'scatter', 'rose'] as const;
+
+// Config keys that name a data field; used to check the model only references columns that exist.
+const FIELD_CONFIG_KEYS = ['xField', 'yField', 'seriesField', 'colorField', 'angleField', 'sizeField', 'percent', 'taskField', 'sourceField', 'targetField', 'valueField'];
+
+const chartConfigSchema = {
+    type: Type.OBJECT,
+    description: "A valid JSON configuration object for Ant Design Charts, mapping data fields.",
+    // Define common properties to guide the model, but they are not required.
+    properties: {
+        xField: { type: Type.STRING },
+        yField: { type: Type.STRING },
+        seriesField: { type: Type.STRING },
+        colorField: { type: Type.STRING },
+        angleField: { type: Type.STRING },
+        sizeField: { type: Type.STRING },
+        percent: { type: Type.STRING },
+        taskField: { type: Type.STRING },
+        sourceField: { type: Type.STRING },
+        targetField: { type: Type.STRING },
+        valueField: { type: Type.STRING },
+    }
+};
+
+const validateConfigFields = (config: any, fields: string[], path: string): string[] => {
+    const issues: string[] = [];
+    for (const key of FIELD_CONFIG_KEYS) {
+        const referenced = Array.isArray(config[key]) ? config[key] : [config[key]];
+        for (const field of referenced) {
+            if (typeof field === 'string' && !fields.includes(field)) {
+                issues.push(`${path}.${key}: "${field}" is not a field in the data (available: ${fields.join(', ')})`);
+            }
+        }
+    }
+    return issues;
+};
+
+// Gemini schemas have no unions, so every step kind shares one object; validateTransform checks the combination.
+const transformSchema = {
+    type: Type.ARRAY,
+    description: "Optional steps applied to the rows before charting, in order.",
+    items: {
+        type: Type.OBJECT,
+        properties: {
+            type: { type: Type.STRING, enum: [...TRANSFORM_STEP_TYPES] },
+            conditions: {
+                type: Type.ARRAY,
+                items: {
+                    type: Type.OBJECT,
+                    properties: {
+                        field: { type: Type.STRING },
+                        operator: { type: Type.STRING, enum: [...FILTER_OPERATORS] },
+                        value: { type: Type.STRING },
+                    },
+                    required: ['field', 'operator', 'value'],
+                },
+            },
+            groupBy: { type: Type.ARRAY, items: { type: Type.STRING } },
+            aggregations: {
+                type: Type.ARRAY,
+                items: {
+                    type: Type.OBJECT,
+                    properties: {
+                        field: { type: Type.STRING },
+                        op: { type: Type.STRING, enum: [...AGGREGATE_OPERATIONS] },
+                        as: { type: Type.STRING },
+                    },
+                    required: ['field', 'op'],
+                },
+            },
+            index: { type: Type.ARRAY, items: { type: Type.STRING } },
+            columns: { type: Type.STRING },
+            values: { type: Type.STRING },
+            op: { type: Type.STRING, enum: [...AGGREGATE_OPERATIONS] },
+            fields: { type: Type.ARRAY, items: { type: Type.STRING } },
+            keyName: { type: Type.STRING },
+            valueName: { type: Type.STRING },
+            field: { type: Type.STRING },
+            direction: { type: Type.STRING, enum: ['asc', 'desc'] },
+            n: { type: Type.INTEGER },
+            as: { type: Type.STRING },
+            expression: { type: Type.STRING },
+            unit: { type: Type.STRING, enum: [...DATE_BUCKET_UNITS] },
+        },
+        required: ['type'],
+    },
+};
+
+const transformInstructions = `"transform" is an optional list of steps run locally on all rows before charting, in order. Use it when a summary reads better than raw rows:
+    - { "type": "filter", "conditions": [{ "field", "operator" (${FILTER_OPERATORS.join(', ')}), "value" }] } keeps rows matching every condition. Dates compare chronologically, e.g. "only 2023" is gte "2023-01-01" and lt "2024-01-01".
+    - { "type": "compute", "as", "expression" } adds a numeric column. Expressions use + - * / %, parentheses, numbers, column names (in [brackets] when they contain spaces) and the functions ${EXPRESSION_FUNCTIONS.join(', ')}.
+    - { "type": "dateBucket", "field", "unit" (${DATE_BUCKET_UNITS.join(', ')}), "as" } turns dates into period labels such as "2023-05" or "2023-Q2".
+    - { "type": "aggregate", "groupBy": [fields], "aggregations": [{ "field", "op" (${AGGREGATE_OPERATIONS.join(', ')}), "as" }] } replaces the rows with one row per group; only the groupBy fields and the "as" names (or the field names) remain.
+    - { "type": "pivot", "index": [fields], "columns", "values", "op" } makes one column per distinct value of "columns".
+    - { "type": "unpivot", "fields": [fields], "keyName", "valueName" } turns the listed columns into rows, e.g. for a series field.
+    - { "type": "sort", "field", "direction" ("asc" or "desc") }.
+    - { "type": "topN", "field", "n", "direction" } keeps the n rows with the highest ("desc") or lowest ("asc") values.
+    Every field in "config" must exist after the transform.`;
+
+// Checks one recommendation's transform and that its config only maps columns that exist after it.
+const validateRecommendationFields = (rec: any, fields: string[], path: string): string[] => {
+    const transformIssues = validateTransform(rec.transform, fields, path ? `${path}.transform` : 'transform');
+    if (transformIssues.length > 0) return transformIssues;
+    // After a pivot the columns depend on the data values, so the config cannot be checked here.
+    const available = transformedFields(fields, rec.transform);
+    return available ? validateConfigFields(rec.config, available, path ? `${path}.config` : 'config') : [];
+};
+
 const dataToGraphSchema = {
     type: Type.OBJECT,
     properties: {
@@ -40,26 +254,10 @@ const dataToGraphSchema = {
                 type: Type.OBJECT,
                 properties: {
                     title: { type: Type.STRING, description: "A descriptive title for the chart." },
-                    chartType: { type: Type.STRING, description: "The type of chart (e.g., 'line', 'column')." },
+                    chartType: { type: Type.STRING, description: "The type of chart (e.g., 'line', 'column').", enum: [...SUPPORTED_CHART_TYPES] },
                     reason: { type: Type.STRING, description: "A concise reason for choosing this chart type." },
-                    config: {
-                        type: Type.OBJECT,
-                        description: "A valid JSON configuration object for Ant Design Charts, mapping data fields.",
-                        // Define common properties to guide the model, but they are not required.
-                        properties: {
-                            xField: { type: Type.STRING },
-                            yField: { type: Type.STRING },
-                            seriesField: { type: Type.STRING },
-                            colorField: { type: Type.STRING },
-                            angleField: { type: Type.STRING },
-                            sizeField: { type: Type.STRING },
-                            percent: { type: Type.STRING },
-                            taskField: { type: Type.STRING },
-                            sourceField: { type: Type.STRING },
-                            targetField: { type: Type.STRING },
-                            valueField: { type: Type.STRING },
-                        }
-                    },
+                    config: chartConfigSchema,
+                    transform: transformSchema,
                 },
                 required: ['title', 'chartType', 'reason', 'config'],
             },
@@ -69,75 +267,139 @@ const dataToGraphSchema = {
 };
 
 
-export async function analyzeDataForGraphSuggestions(dataSample: string, fileName: string, providerConfig: ProviderConfig): Promise<{ dataAnalysis: string; chartRecommendations: ChartRecommendation[] }> {
-    if (providerConfig.provider === 'google') {
-        const ai = getGeminiClient();
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: dataToGraphPrompt(dataSample, fileName),
-            config: {
-                responseMimeType: 'application/json',
-                responseSchema: dataToGraphSchema as any, // Cast to any to handle schema structure
-            },
-        });
+const validateDataToGraphResponse = (value: any, fields: string[]): string[] => {
+    const issues = validateAgainstSchema(value, dataToGraphSchema);
+    if (issues.length > 0) return issues;
 
-        const jsonText = response.text.trim();
-        try {
-            return JSON.parse(jsonText);
-        } catch (e) {
-            console.error("Failed to parse JSON response from Gemini:", jsonText, e);
-            throw new Error("The AI returned an invalid response. Please try again.");
-        }
-    } else { // 'custom'
-        const customConfig = providerConfig.custom;
-        if (!customConfig || !customConfig.baseUrl || !customConfig.apiKey || !customConfig.model) {
-            throw new Error("Custom model provider is not configured correctly.");
-        }
-        const response = await fetch(`${customConfig.baseUrl}/chat/completions`, {
-            method: 'POST',
-            headers: {
-                'Content-Type': 'application/json',
-                'Authorization': `Bearer ${customConfig.apiKey}`
-            },
-            body: JSON.stringify({
-                model: customConfig.model,
-                messages: [{ role: 'user', content: dataToGraphPrompt(dataSample, fileName) }],
-                response_format: { type: "json_object" }
-            })
+    if (value.chartRecommendations.length === 0) {
+        issues.push('chartRecommendations: at least one recommendation is required');
+    }
+    if (fields.length > 0) {
+        value.chartRecommendations.forEach((rec: any, i: number) => {
+            issues.push(...validateRecommendationFields(rec, fields, `chartRecommendations[${i}]`));
         });
+    }
+    return issues;
+};
 
-        if (!response.ok) {
-            const errorBody = await response.text();
-            throw new Error(`Custom API request failed: ${response.status} ${response.statusText} - ${errorBody}`);
-        }
+// Adapts the raw streamed text to the caller's partial-text callback for one field of the answer.
+const streamField = (key: string, options: AnalysisOptions) => {
+    const { onPartialText } = options;
+    if (!onPartialText) return undefined;
+    return (textSoFar: string) => {
+        const partial = readPartialJsonString(textSoFar, key);
+        if (partial !== null) onPartialText(partial);
+    };
+};
 
-        const result = await response.json();
-        const jsonText = result.choices[0].message.content;
-        try {
-            // Models sometimes wrap JSON in markdown code blocks. This extracts the JSON.
-            const match = jsonText.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
-            const parsableText = match ? match[1] : jsonText;
-            return JSON.parse(parsableText);
-        } catch (e) {
-            console.error("Failed to parse JSON response from custom API:", jsonText, e);
-            throw new Error("The custom AI returned an invalid response. Please try again.");
-        }
-    }
+export async function analyzeDataForGraphSuggestions(dataSample: string, fileName: string, profile: DataProfile, providerConfig: ProviderConfig, options: AnalysisOptions = {}): Promise<{ dataAnalysis: string; chartRecommendations: ChartRecommendation[] }> {
+    const fields = profile.columns.map(column => column.name);
+    const result = await completeJson(providerConfig, {
+        prompt: dataToGraphPrompt(dataSample, fileName, profile, options),
+        responseSchema: dataToGraphSchema,
+        signal: options.signal,
+    }, value => validateDataToGraphResponse(value, fields), undefined, streamField('dataAnalysis', options));
+    // An empty list means the same as no transform; drop it so edits and history compare cleanly.
+    return {
+        ...result,
+        chartRecommendations: result.chartRecommendations.map(({ transform, ...rec }: ChartRecommendation) =>
+            transform && transform.length > 0 ? { ...rec, transform } : rec),
+    };
+}
+
+// --- Chart refinement ---
+
+export interface RefinementTurn {
+    instruction: string;
+    explanation: string;
+}
+
+export interface RefinementResult {
+    recommendation: ChartRecommendation;
+    explanation: string;
+}
+
+const refinementSchema = {
+    type: Type.OBJECT,
+    properties: {
+        explanation: { type: Type.STRING, description: "One or two sentences describing what was changed." },
+        title: { type: Type.STRING },
+        chartType: { type: Type.STRING, enum: [...SUPPORTED_CHART_TYPES] },
+        reason: { type: Type.STRING },
+        config: chartConfigSchema,
+        transform: transformSchema,
+    },
+    required: ['explanation', 'title', 'chartType', 'reason', 'config'],
+};
+
+const refinementPrompt = (recommendation: ChartRecommendation, instruction: string, conversation: RefinementTurn[], profile: DataProfile) => `
+You are refining a chart built with Ant Design Charts (G2Plot) from a dataset.
+
+Column profile of the dataset (${profile.rowCount} rows):
+${formatProfileForPrompt(profile)}
+
+Current chart as JSON:
+${JSON.stringify({ title: recommendation.title, chartType: recommendation.chartType, reason: recommendation.reason, config: recommendation.config, transform: recommendation.transform || [] }, null, 2)}
+${conversation.length > 0 ? `
+Earlier requests in this conversation, already applied to the current chart:
+${conversation.map((turn, i) => `${i + 1}. User: ${turn.instruction}\n   Change: ${turn.explanation}`).join('\n')}
+` : ''}
+The user now asks: "${instruction}"
+
+Return the complete updated chart. Rules:
+1.  "chartType" must be one of: ${SUPPORTED_CHART_TYPES.map(type => `'${type}'`).join(', ')}.
+2.  ${transformInstructions}
+    Keep the existing steps unless the request changes them; return an empty array to remove all of them.
+3.  Only use column names from the profile or created by the transform.
+4.  "explanation" briefly tells the user what changed.
+
+Your response must be a single, valid JSON object, without any surrounding text or markdown.
+`;
+
+const validateRefinementResponse = (value: any, fields: string[]): string[] => {
+    const issues = validateAgainstSchema(value, refinementSchema);
+    if (issues.length > 0) return issues;
+    return validateRecommendationFields(value, fields, '');
+};
+
+export async function refineChartRecommendation(
+    recommendation: ChartRecommendation,
+    instruction: string,
+    conversation: RefinementTurn[],
+    profile: DataProfile,
+    providerConfig: ProviderConfig,
+    options: AnalysisOptions = {}
+): Promise<RefinementResult> {
+    const fields = profile.columns.map(column => column.name);
+    const parsed = await completeJson(providerConfig, {
+        prompt: refinementPrompt(recommendation, instruction, conversation, profile),
+        responseSchema: refinementSchema,
+        signal: options.signal,
+    }, value => validateRefinementResponse(value, fields), undefined, streamField('explanation', options));
+
+    const { explanation, title, chartType, reason, config, transform } = parsed;
+    return {
+        explanation,
+        recommendation: { title, chartType, reason, config, ...(transform && transform.length > 0 ? { transform } : {}) },
+    };
 }
 
 // --- Graph to Data ---
 
-const graphToDataPrompt = `
-You are an expert data analyst. Your task is to analyze the provided image.
+const graphToDataPrompt = (options: AnalysisOptions) => `${renderPrompt(
+    options.promptTemplate ?? BUILTIN_PROMPTS.graphToData.text,
+    { fileName: options.fileName || 'image', language: options.language || 'English' }
+)}
 
-1.  First, determine if the image is a data visualization chart or graph (e.g., bar chart, line graph, pie chart, etc.).
-2.  If it is NOT a chart/graph, respond with a JSON object: { "isChart": false, "reason": "The image does not appear to be a data visualization." }.
-3.  If it IS a chart/graph, respond with a JSON object: { "isChart": true, "report": "..." }.
-4.  The "report" field should be a detailed analysis of the chart, formatted as Markdown. The report must include:
-    *   **Chart Type:** Identify the type of chart (e.g., "Vertical Bar Chart", "Multi-series Line Graph").
-    *   **Data Summary:** Extract and present the key data points in a Markdown table.
-    *   **Insights:** Provide 2-3 bulleted key insights or trends observed from the data.
-    *   **Conclusion:** A brief concluding sentence summarizing the chart's main takeaway.
+Response format:
+1.  If the image is NOT a chart/graph, respond with a JSON object: { "isChart": false, "reason": "The image does not appear to be a data visualization." }.
+2.  If it IS a chart/graph, respond with a JSON object: { "isChart": true, "report": "...", "data": { ... } } where "report" is the Markdown analysis.
+3.  The "data" field holds the extracted data series in a structured form:
+    *   "chartType": the chart type in lowercase (e.g., "bar", "line", "pie", "scatter").
+    *   "title": the chart title, if visible.
+    *   "xAxisLabel" / "yAxisLabel": the axis labels, if visible.
+    *   "columns": an array of { "name": "...", "unit": "..." } objects. The first column is the category or x value; each following column is one series. Omit "unit" when there is none.
+    *   "rows": an array of rows, each an array of values in the same order as "columns". Write numbers as plain numbers without units, currency symbols or thousands separators, and use null for a value that cannot be read.
 
 Do not include any text or markdown formatting outside of the JSON object. Your entire response must be a single, valid JSON object.
 `;
@@ -148,125 +410,68 @@ const graphToDataSchema = {
         isChart: { type: Type.BOOLEAN },
         report: { type: Type.STRING, description: "A markdown report if it is a chart." },
         reason: { type: Type.STRING, description: "Reason if it's not a chart." },
+        data: {
+            type: Type.OBJECT,
+            description: "The extracted data series if it is a chart.",
+            properties: {
+                chartType: { type: Type.STRING, description: "The chart type in lowercase (e.g., 'bar', 'line')." },
+                title: { type: Type.STRING },
+                xAxisLabel: { type: Type.STRING },
+                yAxisLabel: { type: Type.STRING },
+                columns: {
+                    type: Type.ARRAY,
+                    items: {
+                        type: Type.OBJECT,
+                        properties: {
+                            name: { type: Type.STRING },
+                            unit: { type: Type.STRING },
+                        },
+                        required: ['name'],
+                    },
+                },
+                rows: {
+                    type: Type.ARRAY,
+                    description: "Rows of values ordered like 'columns'. Numbers without units or separators, null for a missing value.",
+                    items: {
+                        type: Type.ARRAY,
+                        items: { anyOf: [{ type: Type.NUMBER }, { type: Type.STRING }], nullable: true },
+                    },
+                },
+            },
+            required: ['chartType', 'columns', 'rows'],
+        },
     },
     required: ['isChart'],
 };
 
-export async function analyzeGraphImage(base64Image: string, mimeType: string, providerConfig: ProviderConfig): Promise<ExtractedDataResponse> {
-    const imagePart = {
-        inlineData: {
-            data: base64Image,
-            mimeType: mimeType,
-        },
-    };
-    const textPart = { text: graphToDataPrompt };
-
-    if (providerConfig.provider === 'google') {
-        const ai = getGeminiClient();
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: { parts: [textPart, imagePart] },
-            config: {
-                responseMimeType: 'application/json',
-                responseSchema: graphToDataSchema as any, // Cast to any to handle schema structure
-            }
-        });
-
-        const jsonText = response.text.trim();
-        try {
-            return JSON.parse(jsonText);
-        } catch (e) {
-            console.error("Failed to parse JSON response from Gemini:", jsonText, e);
-            throw new Error("The AI returned an invalid response. Please try again.");
-        }
-    } else { // 'custom'
-        const customConfig = providerConfig.custom;
-        if (!customConfig || !customConfig.baseUrl || !customConfig.apiKey || !customConfig.model) {
-            throw new Error("Custom model provider is not configured correctly.");
-        }
-
-        const response = await fetch(`${customConfig.baseUrl}/chat/completions`, {
-            method: 'POST',
-            headers: {
-                'Content-Type': 'application/json',
-                'Authorization': `Bearer ${customConfig.apiKey}`
-            },
-            body: JSON.stringify({
-                model: customConfig.model,
-                messages: [{
-                    role: 'user',
-                    content: [
-                        { type: 'text', text: graphToDataPrompt },
-                        { type: 'image_url', image_url: { url: `data:${mimeType};base64,${base64Image}` } }
-                    ]
-                }],
-                response_format: { type: "json_object" }
-            })
-        });
-
-        if (!response.ok) {
-            const errorBody = await response.text();
-            throw new Error(`Custom API request failed: ${response.status} ${response.statusText} - ${errorBody}`);
-        }
+const validateGraphToDataResponse = (value: any): string[] => {
+    const issues = validateAgainstSchema(value, graphToDataSchema);
+    if (issues.length > 0) return issues;
 
-        const result = await response.json();
-        const jsonText = result.choices[0].message.content;
-        try {
-            // Models sometimes wrap JSON in markdown code blocks. This extracts the JSON.
-            const match = jsonText.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
-            const parsableText = match ? match[1] : jsonText;
-            return JSON.parse(parsableText);
-        } catch (e) {
-            console.error("Failed to parse JSON response from custom API:", jsonText, e);
-            throw new Error("The custom AI returned an invalid response. Please try again.");
-        }
+    if (value.isChart && !value.report) {
+        issues.push('report: required when isChart is true');
     }
-}
-
-// --- Custom Model Management ---
-
-export async function fetchCustomModels(config: CustomModelConfig): Promise<string[]> {
-    if (!config.baseUrl || !config.apiKey) {
-        throw new Error("API URL and API Key are required to fetch models.");
-    }
-    const response = await fetch(`${config.baseUrl}/models`, {
-        headers: {
-            'Authorization': `Bearer ${config.apiKey}`
-        }
-    });
-
-    if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`Failed to fetch models: ${response.status} ${response.statusText}. ${errorText}`);
-    }
-
-    const result = await response.json();
-    if (!result.data || !Array.isArray(result.data)) {
-        throw new Error("Invalid response format from /models endpoint. Expected a 'data' array.");
+    if (value.data) {
+        const columnCount = value.data.columns.length;
+        value.data.rows.forEach((row: unknown[], i: number) => {
+            if (row.length !== columnCount) {
+                issues.push(`data.rows[${i}]: has ${row.length} values but there are ${columnCount} columns`);
+            }
+        });
     }
+    return issues;
+};
 
-    return result.data.map((model: any) => model.id).sort();
-}
+const toExtractedDataResponse = (parsed: any): ExtractedDataResponse => ({
+    ...parsed,
+    data: parsed.isChart ? normalizeDataSeries(parsed.data) : undefined,
+});
 
-export async function testCustomModelConnection(config: CustomModelConfig): Promise<void> {
-    if (!config.baseUrl || !config.apiKey || !config.model) {
-        throw new Error("API URL, API Key, and Model Name are required for testing.");
-    }
-    const response = await fetch(`${config.baseUrl}/chat/completions`, {
-        method: 'POST',
-        headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${config.apiKey}`
-        },
-        body: JSON.stringify({
-            model: config.model,
-            messages: [{ role: 'user', content: "Say 'hello'" }],
-            max_tokens: 5
-        })
-    });
-    if (!response.ok) {
-        const errorBody = await response.text();
-        throw new Error(`Connection test failed: ${response.status} ${response.statusText} - ${errorBody}`);
-    }
-    // If it doesn't throw, it's a success
+export async function analyzeGraphImage(base64Image: string, mimeType: string, providerConfig: ProviderConfig, options: AnalysisOptions = {}): Promise<ExtractedDataResponse> {
+    const parsed = await completeJson(providerConfig, {
+        prompt: graphToDataPrompt(options),
+        responseSchema: graphToDataSchema,
+        signal: options.signal,
+    }, validateGraphToDataResponse, { base64: base64Image, mimeType }, streamField('report', options));
+    return toExtractedDataResponse(parsed);
 }
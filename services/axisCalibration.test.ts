@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import type { AxisCalibration } from './axisCalibration';
+import { axisIssue, compareReadings, positionToValue, readPoints, traceBars, traceLine, valueToPosition } from './axisCalibration';
+
+// Y runs down the image, so the larger value sits at the smaller position.
+const linearY: AxisCalibration = { scale: 'linear', ticks: [{ position: 0.9, value: 0 }, { position: 0.1, value: 100 }] };
+const logY: AxisCalibration = { scale: 'log', ticks: [{ position: 0.9, value: 1 }, { position: 0.1, value: 1000 }] };
+
+const RED: [number, number, number] = [255, 0, 0];
+
+// White image with the given pixels painted red.
+const image = (width: number, height: number, red: (x: number, y: number) => boolean) => {
+    const data = new Uint8ClampedArray(width * height * 4).fill(255);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (!red(x, y)) continue;
+            const i = (y * width + x) * 4;
+            data[i + 1] = 0;
+            data[i + 2] = 0;
+        }
+    }
+    return { width, height, data };
+};
+
+describe('positionToValue / valueToPosition', () => {
+    it('interpolates linearly between the ticks and beyond them', () => {
+        expect(positionToValue(linearY, 0.5)).toBeCloseTo(50);
+        expect(positionToValue(linearY, 0.05)).toBeCloseTo(106.25);
+        expect(valueToPosition(linearY, 25)).toBeCloseTo(0.7);
+    });
+
+    it('interpolates log axes by decade and has no position for non-positive values', () => {
+        expect(positionToValue(logY, 0.5)).toBeCloseTo(Math.sqrt(1000));
+        expect(valueToPosition(logY, 10)).toBeCloseTo(0.9 - 0.8 / 3);
+        expect(valueToPosition(logY, 0)).toBeNull();
+    });
+});
+
+describe('axisIssue', () => {
+    it('reports ticks that cannot define an axis', () => {
+        expect(axisIssue(linearY)).toBeNull();
+        expect(axisIssue({ scale: 'linear', ticks: [{ position: 0.5, value: 0 }, { position: 0.5, value: 10 }] })).toBe('samePosition');
+        expect(axisIssue({ scale: 'linear', ticks: [{ position: 0.1, value: 5 }, { position: 0.9, value: 5 }] })).toBe('sameValue');
+        expect(axisIssue({ scale: 'log', ticks: [{ position: 0.9, value: 0 }, { position: 0.1, value: 10 }] })).toBe('logNonPositive');
+    });
+});
+
+describe('traceLine', () => {
+    it('follows the middle of the stroke in each sampled column', () => {
+        // A flat line three pixels thick across rows 4-6 of a 20x10 image.
+        const points = traceLine(image(20, 10, (_x, y) => y >= 4 && y <= 6), RED, undefined, 4);
+        expect(points).toHaveLength(4);
+        expect(points.every(point => point.y === 0.55)).toBe(true);
+        expect(points[0].x).toBe(0.025);
+    });
+
+    it('only looks inside the area', () => {
+        const points = traceLine(image(20, 10, (x, y) => y === 2 && x < 10), RED, { x: 0.5, y: 0, width: 0.5, height: 1 });
+        expect(points).toEqual([]);
+    });
+});
+
+describe('traceBars', () => {
+    it('reads each bar at the centre of its top edge and skips narrow strokes', () => {
+        // Bars at columns 2-5 (top row 4) and 10-13 (top row 7), and a one-pixel line at column 17.
+        const pixels = image(20, 10, (x, y) => (x >= 2 && x <= 5 && y >= 4) || (x >= 10 && x <= 13 && y >= 7) || x === 17);
+        expect(traceBars(pixels, RED)).toEqual([{ x: 0.2, y: 0.4 }, { x: 0.6, y: 0.7 }]);
+    });
+});
+
+describe('readPoints / compareReadings', () => {
+    it('sorts points left to right and takes categories from the model when the counts match', () => {
+        const ai = { chartType: 'bar', columns: [{ name: 'Region' }, { name: 'Sales' }], rows: [['North', 48], ['South', 30]] };
+        const readings = readPoints([{ x: 0.7, y: 0.66 }, { x: 0.3, y: 0.5 }], null, linearY, ai);
+        expect(readings.map(({ x, y }) => [x, y])).toEqual([['North', 50], ['South', 30]]);
+
+        const comparison = compareReadings(readings, [
+            { point: { x: 0.3, y: 0.5 }, x: 'North', y: 48 },
+            { point: { x: 0.7, y: 0.66 }, x: 'South', y: 30 },
+        ]);
+        expect(comparison.map(row => row.difference)).toEqual([-0.04, 0]);
+    });
+
+    it('numbers the points without an X calibration or matching model rows', () => {
+        expect(readPoints([{ x: 0.2, y: 0.9 }, { x: 0.1, y: 0.1 }], null, linearY).map(reading => reading.x)).toEqual([1, 2]);
+    });
+
+    it('pairs numeric readings with the nearest numeric model value', () => {
+        const readings = [{ point: { x: 0, y: 0 }, x: 2.1, y: 10 }];
+        const markers = [
+            { point: { x: 0, y: 0 }, x: 1, y: 5 },
+            { point: { x: 0, y: 0 }, x: 2, y: 11 },
+        ];
+        expect(compareReadings(readings, markers)).toEqual([{ x: 2.1, calibrated: 10, ai: 11, difference: 0.1 }]);
+    });
+});
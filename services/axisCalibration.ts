@@ -0,0 +1,219 @@
+import type { DataCell, ExtractedDataSeries } from '../types';
+
+// Maps image positions to data values from two known ticks per axis, so points can be read off a chart exactly
+// instead of estimated by the model. Positions are fractions of the image width (x) and height (y), which keeps
+// them independent of the size the image is shown at.
+
+export type AxisScale = 'linear' | 'log';
+
+export interface AxisTick {
+    // Fraction of the image width for the X axis, of the image height for the Y axis.
+    position: number;
+    value: number;
+}
+
+export interface AxisCalibration {
+    scale: AxisScale;
+    ticks: [AxisTick, AxisTick];
+}
+
+export interface ImagePoint {
+    x: number;
+    y: number;
+}
+
+export interface ImageArea {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export type AxisIssue = 'samePosition' | 'sameValue' | 'logNonPositive';
+
+type Pixels = { width: number; height: number; data: Uint8ClampedArray };
+type Rgb = [number, number, number];
+
+export const FULL_AREA: ImageArea = { x: 0, y: 0, width: 1, height: 1 };
+
+export const axisIssue = ({ scale, ticks: [a, b] }: AxisCalibration): AxisIssue | null => {
+    if (Math.abs(a.position - b.position) < 1e-3) return 'samePosition';
+    if (a.value === b.value) return 'sameValue';
+    if (scale === 'log' && (a.value <= 0 || b.value <= 0)) return 'logNonPositive';
+    return null;
+};
+
+const project = (scale: AxisScale, value: number) => (scale === 'log' ? Math.log10(value) : value);
+const unproject = (scale: AxisScale, value: number) => (scale === 'log' ? Math.pow(10, value) : value);
+
+export const positionToValue = ({ scale, ticks: [a, b] }: AxisCalibration, position: number): number => {
+    const t = (position - a.position) / (b.position - a.position);
+    return unproject(scale, project(scale, a.value) + t * (project(scale, b.value) - project(scale, a.value)));
+};
+
+// Inverse of positionToValue; null for values a log axis cannot show.
+export const valueToPosition = ({ scale, ticks: [a, b] }: AxisCalibration, value: number): number | null => {
+    if (scale === 'log' && value <= 0) return null;
+    const t = (project(scale, value) - project(scale, a.value)) / (project(scale, b.value) - project(scale, a.value));
+    return a.position + t * (b.position - a.position);
+};
+
+// Rounds to 4 significant digits: calibrated readings are only as precise as a click.
+export const roundReading = (value: number) => (value === 0 ? 0 : Number(value.toPrecision(4)));
+
+export const colorAt = (image: Pixels, point: ImagePoint): Rgb => {
+    const x = Math.min(image.width - 1, Math.floor(point.x * image.width));
+    const y = Math.min(image.height - 1, Math.floor(point.y * image.height));
+    const i = (y * image.width + x) * 4;
+    return [image.data[i], image.data[i + 1], image.data[i + 2]];
+};
+
+const matches = (image: Pixels, x: number, y: number, color: Rgb, tolerance: number) => {
+    const i = (y * image.width + x) * 4;
+    const dr = image.data[i] - color[0];
+    const dg = image.data[i + 1] - color[1];
+    const db = image.data[i + 2] - color[2];
+    return dr * dr + dg * dg + db * db <= tolerance * tolerance;
+};
+
+const pixelBounds = (image: Pixels, area: ImageArea) => ({
+    left: Math.max(0, Math.floor(area.x * image.width)),
+    right: Math.min(image.width, Math.ceil((area.x + area.width) * image.width)),
+    top: Math.max(0, Math.floor(area.y * image.height)),
+    bottom: Math.min(image.height, Math.ceil((area.y + area.height) * image.height)),
+});
+
+// Rows in one pixel column that match the series colour.
+const matchingRows = (image: Pixels, x: number, top: number, bottom: number, color: Rgb, tolerance: number) => {
+    const rows: number[] = [];
+    for (let y = top; y < bottom; y++) {
+        if (matches(image, x, y, color, tolerance)) rows.push(y);
+    }
+    return rows;
+};
+
+// Follows a line of the given colour across the area, taking the middle of its stroke at evenly spaced columns.
+export function traceLine(image: Pixels, color: Rgb, area: ImageArea = FULL_AREA, samples = 60, tolerance = 60): ImagePoint[] {
+    const { left, right, top, bottom } = pixelBounds(image, area);
+    const step = Math.max(1, (right - left) / samples);
+    const points: ImagePoint[] = [];
+    for (let column = left; column < right; column += step) {
+        const x = Math.floor(column);
+        const rows = matchingRows(image, x, top, bottom, color, tolerance);
+        if (rows.length === 0) continue;
+        const middle = (rows[Math.floor((rows.length - 1) / 2)] + rows[Math.floor(rows.length / 2)]) / 2;
+        points.push({ x: (x + 0.5) / image.width, y: (middle + 0.5) / image.height });
+    }
+    return points;
+}
+
+// Finds vertical bars of the given colour: runs of adjacent columns containing it. Each bar is read at the
+// centre of its top edge, using the median top of its columns so anti-aliased edges do not skew it.
+export function traceBars(image: Pixels, color: Rgb, area: ImageArea = FULL_AREA, tolerance = 60, minWidth = 3): ImagePoint[] {
+    const { left, right, top, bottom } = pixelBounds(image, area);
+    const tops: (number | null)[] = [];
+    for (let x = left; x < right; x++) {
+        const rows = matchingRows(image, x, top, bottom, color, tolerance);
+        tops.push(rows.length > 1 ? rows[0] : null);
+    }
+
+    const bars: ImagePoint[] = [];
+    let start = -1;
+    for (let i = 0; i <= tops.length; i++) {
+        if (i < tops.length && tops[i] !== null) {
+            if (start < 0) start = i;
+            continue;
+        }
+        if (start >= 0 && i - start >= minWidth) {
+            const barTops = (tops.slice(start, i) as number[]).sort((a, b) => a - b);
+            const barTop = barTops[Math.floor(barTops.length / 2)];
+            bars.push({ x: (left + (start + i) / 2) / image.width, y: barTop / image.height });
+        }
+        start = -1;
+    }
+    return bars;
+}
+
+export interface CalibratedReading {
+    point: ImagePoint;
+    x: DataCell;
+    y: number;
+}
+
+// Data values of the points, left to right. Without an X calibration, categories are taken from the model's
+// first column when it has one row per point (bar charts), and are numbered otherwise.
+export function readPoints(points: ImagePoint[], xAxis: AxisCalibration | null, yAxis: AxisCalibration, ai?: ExtractedDataSeries | null): CalibratedReading[] {
+    const sorted = [...points].sort((a, b) => a.x - b.x);
+    const categories = ai && ai.rows.length === sorted.length ? ai.rows.map(row => row[0] ?? null) : null;
+    return sorted.map((point, i) => ({
+        point,
+        x: xAxis ? roundReading(positionToValue(xAxis, point.x)) : categories ? categories[i] : i + 1,
+        y: roundReading(positionToValue(yAxis, point.y)),
+    }));
+}
+
+export const readingsToSeries = (readings: CalibratedReading[], ai: ExtractedDataSeries | null, yColumn: number, chartType: string): ExtractedDataSeries => ({
+    chartType: ai?.chartType || chartType,
+    title: ai?.title,
+    xAxisLabel: ai?.xAxisLabel,
+    yAxisLabel: ai?.yAxisLabel,
+    columns: [ai?.columns[0] || { name: 'x' }, ai?.columns[yColumn] || { name: 'y' }],
+    rows: readings.map(reading => [reading.x, reading.y]),
+});
+
+export interface AiMarker {
+    point: ImagePoint;
+    x: DataCell;
+    y: number;
+}
+
+// Where the model's values for one column fall on the image. Numeric X values are placed with the X calibration;
+// categories line up with the calibrated points when the counts match, and are spread evenly across the area
+// otherwise, as bars in equal bands would be.
+export function aiMarkers(ai: ExtractedDataSeries, yColumn: number, xAxis: AxisCalibration | null, yAxis: AxisCalibration, readings: CalibratedReading[], area: ImageArea = FULL_AREA): AiMarker[] {
+    const markers: AiMarker[] = [];
+    ai.rows.forEach((row, i) => {
+        const x = row[0] ?? null;
+        const y = row[yColumn];
+        if (typeof y !== 'number') return;
+        const top = valueToPosition(yAxis, y);
+        if (top === null) return;
+        let left: number | null = null;
+        if (xAxis && typeof x === 'number') left = valueToPosition(xAxis, x);
+        else if (readings.length === ai.rows.length) left = readings[i].point.x;
+        else left = area.x + ((i + 0.5) / ai.rows.length) * area.width;
+        if (left !== null) markers.push({ point: { x: left, y: top }, x, y });
+    });
+    return markers;
+}
+
+export interface ReadingComparison {
+    x: DataCell;
+    calibrated: number;
+    ai: number | null;
+    // Relative difference of the model's value from the calibrated one.
+    difference: number | null;
+}
+
+// Pairs each calibrated reading with the model's value for the same X: the nearest numeric X when both are
+// numeric, otherwise the same category, otherwise the same position in order.
+export function compareReadings(readings: CalibratedReading[], markers: AiMarker[]): ReadingComparison[] {
+    return readings.map((reading, i) => {
+        let match: AiMarker | undefined;
+        if (typeof reading.x === 'number' && markers.some(marker => typeof marker.x === 'number')) {
+            match = markers.reduce<AiMarker | undefined>((best, marker) => {
+                if (typeof marker.x !== 'number') return best;
+                return !best || Math.abs(marker.x - (reading.x as number)) < Math.abs((best.x as number) - (reading.x as number)) ? marker : best;
+            }, undefined);
+        } else {
+            match = markers.find(marker => marker.x === reading.x) || (markers.length === readings.length ? markers[i] : undefined);
+        }
+        const ai = match ? match.y : null;
+        return {
+            x: reading.x,
+            calibrated: reading.y,
+            ai,
+            difference: ai === null || reading.y === 0 ? null : (ai - reading.y) / Math.abs(reading.y),
+        };
+    });
+}
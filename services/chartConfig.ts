@@ -0,0 +1,47 @@
+import type { ChartRecommendation } from '../types';
+import { DEFAULT_CHART_THEME, chartThemeOptions } from './chartTheme';
+import type { ChartTheme } from './chartTheme';
+
+declare const Charts: any;
+
+// Pre-defined templates for consistent styling and common options
+export const CHART_TEMPLATES: { [key: string]: any } = {
+    line: { smooth: true, point: { size: 3 }, tooltip: { showMarkers: true } },
+    column: { },
+    bar: { },
+    pie: { appendPadding: 10, radius: 0.8, label: { type: 'inner', offset: '-50%', content: '{percentage}', style: { textAlign: 'center', fontSize: 14 } } },
+    area: { smooth: true },
+    scatter: { point: { size: 4, shape: 'circle' } },
+    rose: { radius: 0.9, label: { offset: -15 } },
+};
+
+// Chart types the renderer knows about, mapped to their Ant Design Charts component names.
+export const componentNameMapping: { [key: string]: string } = {
+    line: 'Line', column: 'Column', bar: 'Bar', pie: 'Pie', area: 'Area', scatter: 'Scatter',
+    dualaxes: 'DualAxes', liquid: 'Liquid', violin: 'Violin', bullet: 'Bullet', heatmap: 'Heatmap',
+    waterfall: 'Waterfall', radar: 'Radar', sankey: 'Sankey', sunburst: 'Sunburst', rose: 'Rose', gantt: 'Gantt'
+};
+
+export const normalizeChartType = (chartType: string | undefined) => chartType?.toLowerCase().replace(/ /g, '') || '';
+
+export const isChartLibraryLoaded = () => typeof Charts !== 'undefined' && !!Charts;
+
+export const getChartComponent = (type: string) => {
+    if (!isChartLibraryLoaded()) return null;
+    const componentName = componentNameMapping[type];
+    return componentName ? Charts[componentName] : null;
+};
+
+// The final config handed to the chart: styling template, then the LLM/user config, then the data, sizing and theme.
+export const buildChartConfig = (recommendation: ChartRecommendation, data: any[], overrides: { [key: string]: any } = {}, chartTheme: ChartTheme = DEFAULT_CHART_THEME) => {
+    const template = CHART_TEMPLATES[normalizeChartType(recommendation.chartType)] || {};
+    return {
+        ...template,
+        ...recommendation.config,
+        data,
+        height: 400,
+        autoFit: true,
+        ...chartThemeOptions(chartTheme),
+        ...overrides,
+    };
+};
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import type { ChartRecommendation } from '../types';
+import { reduceForChart } from './chartData';
+
+const rows = [
+    { region: 'North', sales: 10 },
+    { region: 'North', sales: 30 },
+    { region: 'South', sales: 5 },
+];
+
+const recommend = (chartType: string, config: any): ChartRecommendation => ({ title: 'Sales', chartType, reason: '', config });
+
+describe('reduceForChart', () => {
+    it('leaves data under the limit untouched', () => {
+        expect(reduceForChart(rows, recommend('bar', { xField: 'region', yField: 'sales' }))).toEqual({ data: rows, originalCount: 3, reduction: 'none' });
+    });
+
+    it('averages values per category for bar charts', () => {
+        const result = reduceForChart(rows, recommend('bar', { xField: 'region', yField: 'sales' }), 2);
+        expect(result.aggregation).toBe('mean');
+        expect(result.data).toEqual([{ region: 'North', sales: 20 }, { region: 'South', sales: 5 }]);
+    });
+
+    it('sums values per slice for pie and rose charts', () => {
+        const pie = reduceForChart(rows, recommend('pie', { colorField: 'region', angleField: 'sales' }), 2);
+        expect(pie.aggregation).toBe('sum');
+        expect(pie.data).toEqual([{ region: 'North', sales: 40 }, { region: 'South', sales: 5 }]);
+
+        const rose = reduceForChart(rows, recommend('rose', { xField: 'region', yField: 'sales' }), 2);
+        expect(rose.data).toEqual([{ region: 'North', sales: 40 }, { region: 'South', sales: 5 }]);
+    });
+});
@@ -0,0 +1,71 @@
+import type { ChartRecommendation } from '../types';
+import { normalizeChartType } from './chartConfig';
+import { parseCellValue } from './dataSeries';
+
+// Above this many points charts become unreadable and slow, so the data handed to them is reduced.
+export const CHART_POINT_LIMIT = 5000;
+
+export type ChartDataReduction = 'none' | 'aggregated' | 'sampled';
+
+export type ChartAggregation = 'mean' | 'sum';
+
+export interface ChartDataResult {
+    data: any[];
+    originalCount: number;
+    reduction: ChartDataReduction;
+    // The fields the values were grouped by and how they were combined, when aggregated.
+    groupedBy?: string[];
+    aggregation?: ChartAggregation;
+}
+
+const AGGREGATABLE = ['line', 'area', 'column', 'bar', 'pie', 'rose', 'radar'];
+
+// Pie and rose slices show each category's share of the whole, so they add up their rows; the others show a
+// typical value per category.
+const SUMMED = ['pie', 'rose'];
+
+const evenlySample = (data: any[], limit: number) => {
+    const step = data.length / limit;
+    return Array.from({ length: limit }, (_, i) => data[Math.floor(i * step)]);
+};
+
+// Combines the value field per category (and series).
+const aggregate = (data: any[], groupFields: string[], valueField: string, aggregation: ChartAggregation) => {
+    const groups = new Map<string, { record: any; sum: number; count: number }>();
+    for (const row of data) {
+        const value = parseCellValue(row?.[valueField]);
+        if (typeof value !== 'number') continue;
+        const key = JSON.stringify(groupFields.map(field => row[field]));
+        const group = groups.get(key);
+        if (group) {
+            group.sum += value;
+            group.count++;
+        } else {
+            groups.set(key, { record: Object.fromEntries(groupFields.map(field => [field, row[field]])), sum: value, count: 1 });
+        }
+    }
+    return Array.from(groups.values()).map(({ record, sum, count }) => ({ ...record, [valueField]: aggregation === 'sum' ? sum : sum / count }));
+};
+
+export function reduceForChart(data: any[], recommendation: ChartRecommendation | null, limit = CHART_POINT_LIMIT): ChartDataResult {
+    if (!recommendation || data.length <= limit) {
+        return { data, originalCount: data.length, reduction: 'none' };
+    }
+
+    const chartType = normalizeChartType(recommendation.chartType);
+    const config = recommendation.config || {};
+    const isPie = chartType === 'pie';
+    const categoryField = isPie ? config.colorField : config.xField;
+    const valueField = isPie ? config.angleField : config.yField;
+
+    if (AGGREGATABLE.includes(chartType) && typeof categoryField === 'string' && typeof valueField === 'string') {
+        const groupFields = [categoryField, ...(typeof config.seriesField === 'string' ? [config.seriesField] : [])];
+        const aggregation: ChartAggregation = SUMMED.includes(chartType) ? 'sum' : 'mean';
+        const aggregated = aggregate(data, groupFields, valueField, aggregation);
+        if (aggregated.length <= limit) {
+            return { data: aggregated, originalCount: data.length, reduction: 'aggregated', groupedBy: groupFields, aggregation };
+        }
+    }
+
+    return { data: evenlySample(data, limit), originalCount: data.length, reduction: 'sampled' };
+}
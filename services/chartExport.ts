@@ -0,0 +1,126 @@
+import type { ChartRecommendation } from '../types';
+import { buildChartConfig, componentNameMapping, getChartComponent, normalizeChartType } from './chartConfig';
+import { downloadBlob } from './exportService';
+
+// Charts are re-rendered off-screen at a fixed, slide-friendly size rather than scraped from the page,
+// so exports don't depend on the panel's current width and can use a higher pixel ratio for PNGs.
+// Exports are always drawn light, for the white page or slide they end up on, in the chosen palette.
+const EXPORT_WIDTH = 960;
+const EXPORT_HEIGHT = 540;
+const SCREEN_DPI = 96;
+export const CHARTS_CDN_URL = 'https://unpkg.com/@ant-design/charts@2.1.1/dist/charts.min.js';
+
+const nextFrame = () => new Promise(resolve => requestAnimationFrame(() => resolve(undefined)));
+
+async function withOffscreenChart<T>(
+    recommendation: ChartRecommendation,
+    data: any[],
+    overrides: { [key: string]: any },
+    colors: string[] | null,
+    capture: (container: HTMLDivElement) => Promise<T> | T
+): Promise<T> {
+    const ChartComponent = getChartComponent(normalizeChartType(recommendation.chartType));
+    if (!ChartComponent) {
+        throw new Error(`Unsupported chart type: "${recommendation.chartType}".`);
+    }
+
+    const container = document.createElement('div');
+    Object.assign(container.style, { position: 'fixed', left: '-10000px', top: '0', width: `${EXPORT_WIDTH}px`, height: `${EXPORT_HEIGHT}px` });
+    document.body.appendChild(container);
+
+    // Construction can throw on an invalid config, so it happens inside the try to always remove the container.
+    let chart: any = null;
+    try {
+        chart = new ChartComponent(container, buildChartConfig(recommendation, data, {
+            autoFit: false,
+            width: EXPORT_WIDTH,
+            height: EXPORT_HEIGHT,
+            animation: false,
+            ...overrides,
+        }, { dark: false, colors }));
+        chart.render();
+        await nextFrame();
+        return await capture(container);
+    } finally {
+        chart?.destroy();
+        document.body.removeChild(container);
+    }
+}
+
+export const exportFileBaseName = (recommendation: ChartRecommendation) =>
+    (recommendation.title || 'chart').replace(/[\\/:*?"<>|]+/g, '').replace(/\s+/g, '-').toLowerCase() || 'chart';
+
+export async function exportChartAsPng(recommendation: ChartRecommendation, data: any[], dpi: number, colors: string[] | null = null): Promise<void> {
+    const pixelRatio = dpi / SCREEN_DPI;
+    const blob = await withOffscreenChart(recommendation, data, { renderer: 'canvas', pixelRatio }, colors, container => {
+        const source = container.querySelector('canvas');
+        if (!source) throw new Error('The chart did not produce a canvas to export.');
+
+        // Paint onto a white background; the chart canvas itself is transparent.
+        const canvas = document.createElement('canvas');
+        canvas.width = source.width;
+        canvas.height = source.height;
+        const ctx = canvas.getContext('2d')!;
+        ctx.fillStyle = '#ffffff';
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+        ctx.drawImage(source, 0, 0);
+        return new Promise<Blob>((resolve, reject) =>
+            canvas.toBlob(result => (result ? resolve(result) : reject(new Error('PNG encoding failed.'))), 'image/png')
+        );
+    });
+    downloadBlob(blob, `${exportFileBaseName(recommendation)}-${dpi}dpi.png`);
+}
+
+export async function exportChartAsSvg(recommendation: ChartRecommendation, data: any[], colors: string[] | null = null): Promise<void> {
+    const markup = await withOffscreenChart(recommendation, data, { renderer: 'svg' }, colors, container => {
+        const svg = container.querySelector('svg');
+        if (!svg) throw new Error('The chart did not produce an SVG to export.');
+        svg.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+        return new XMLSerializer().serializeToString(svg);
+    });
+    downloadBlob(new Blob([markup], { type: 'image/svg+xml;charset=utf-8' }), `${exportFileBaseName(recommendation)}.svg`);
+}
+
+export const escapeHtml = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Embedding JSON inside <script> is only unsafe when it contains "</script"; escaping "<" covers that.
+export const toScriptJson = (value: unknown) => JSON.stringify(value, null, 2).replace(/</g, '\\u003c');
+
+export const buildStandaloneChartHtml = (recommendation: ChartRecommendation, data: any[], colors: string[] | null = null): string => {
+    const componentName = componentNameMapping[normalizeChartType(recommendation.chartType)];
+    if (!componentName) {
+        throw new Error(`Unsupported chart type: "${recommendation.chartType}".`);
+    }
+    const config = buildChartConfig(recommendation, data, {}, { dark: false, colors });
+    const title = escapeHtml(recommendation.title || 'Chart');
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+  <title>${title}</title>
+  <script src="${CHARTS_CDN_URL}"></script>
+  <style>
+    body { font-family: Inter, system-ui, sans-serif; margin: 2rem; color: #1f2937; }
+    #chart { max-width: 1100px; }
+  </style>
+</head>
+<body>
+  <h1>${title}</h1>
+  ${recommendation.reason ? `<p>${escapeHtml(recommendation.reason)}</p>` : ''}
+  <div id="chart"></div>
+  <script>
+    // Final merged config (style template + generated config), with the chart data embedded.
+    const config = ${toScriptJson(config)};
+    new Charts.${componentName}(document.getElementById('chart'), config).render();
+  </script>
+</body>
+</html>
+`;
+};
+
+export function exportChartAsHtml(recommendation: ChartRecommendation, data: any[], colors: string[] | null = null): void {
+    const html = buildStandaloneChartHtml(recommendation, data, colors);
+    downloadBlob(new Blob([html], { type: 'text/html;charset=utf-8' }), `${exportFileBaseName(recommendation)}.html`);
+}
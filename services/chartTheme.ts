@@ -0,0 +1,47 @@
+// Colour palettes for rendered charts, and the theme options derived from the app's light/dark mode.
+
+export interface ChartPalette {
+    id: string;
+    name: string;
+    // Null keeps the chart library's own colours.
+    colors: string[] | null;
+    // Distinguishable with the common forms of colour-vision deficiency.
+    colorBlindSafe?: boolean;
+    // Created by the user and stored in the browser.
+    custom?: boolean;
+}
+
+export interface ChartTheme {
+    dark: boolean;
+    colors: string[] | null;
+}
+
+export const DEFAULT_CHART_THEME: ChartTheme = { dark: false, colors: null };
+
+export const BUILTIN_PALETTES: ChartPalette[] = [
+    { id: 'default', name: 'Ant Design', colors: null },
+    { id: 'okabe-ito', name: 'Okabe–Ito', colorBlindSafe: true, colors: ['#0072B2', '#E69F00', '#009E73', '#D55E00', '#56B4E9', '#CC79A7', '#F0E442', '#000000'] },
+    { id: 'tol-bright', name: 'Tol Bright', colorBlindSafe: true, colors: ['#4477AA', '#EE6677', '#228833', '#CCBB44', '#66CCEE', '#AA3377', '#BBBBBB'] },
+    { id: 'tol-muted', name: 'Tol Muted', colorBlindSafe: true, colors: ['#332288', '#88CCEE', '#44AA99', '#117733', '#999933', '#DDCC77', '#CC6677', '#882255', '#AA4499'] },
+    { id: 'viridis', name: 'Viridis', colorBlindSafe: true, colors: ['#440154', '#46327E', '#365C8D', '#277F8E', '#1FA187', '#4AC16D', '#A0DA39', '#FDE725'] },
+    { id: 'tableau', name: 'Tableau 10', colors: ['#4E79A7', '#F28E2B', '#E15759', '#76B7B2', '#59A14F', '#EDC948', '#B07AA1', '#FF9DA7', '#9C755F', '#BAB0AC'] },
+];
+
+const HEX_COLOR = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+// Colours from free text such as "#1d4ed8, #f59e0b #10b981"; returns the invalid entries alongside.
+export const parsePaletteColors = (text: string): { colors: string[]; invalid: string[] } => {
+    const entries = text.split(/[\s,;]+/).filter(Boolean).map(entry => (entry.startsWith('#') ? entry : `#${entry}`));
+    return {
+        colors: entries.filter(entry => HEX_COLOR.test(entry)),
+        invalid: entries.filter(entry => !HEX_COLOR.test(entry)),
+    };
+};
+
+// Chart options for the theme: the library's dark variant, and the palette as the default mark colour and the
+// categorical colours, so single- and multi-series charts both pick it up.
+export const chartThemeOptions = ({ dark, colors }: ChartTheme) => {
+    const type = dark ? 'classicDark' : 'classic';
+    if (!colors || colors.length === 0) return { theme: type };
+    return { theme: { type, color: colors[0], category10: colors, category20: colors } };
+};
@@ -0,0 +1,36 @@
+// @vitest-environment happy-dom
+import { describe, expect, it } from 'vitest';
+import { isEditableTarget, parseHtmlTable } from './clipboard';
+
+describe('parseHtmlTable', () => {
+    it('reads the header and body rows of the first table', () => {
+        const html = '<p>Copied</p><table><thead><tr><th>Year</th><th>Sales</th></tr></thead>'
+            + '<tbody><tr><td> 2023 </td><td>1,200</td></tr><tr><td></td><td></td></tr></tbody></table><table><tr><td>x</td></tr></table>';
+        expect(parseHtmlTable(html)).toEqual([['Year', 'Sales'], ['2023', '1,200']]);
+        expect(parseHtmlTable('<p>No table</p>')).toBeNull();
+    });
+
+    it('repeats spanned cells across their columns and rows', () => {
+        const html = '<table>'
+            + '<tr><th rowspan="2">Region</th><th colspan="2">Sales</th></tr>'
+            + '<tr><th>2023</th><th>2024</th></tr>'
+            + '<tr><td>North</td><td>1</td><td>2</td></tr>'
+            + '</table>';
+        expect(parseHtmlTable(html)).toEqual([['Region', 'Sales', 'Sales'], ['Region', '2023', '2024'], ['North', '1', '2']]);
+    });
+
+    it('fills cells spanning down past the end of a shorter row', () => {
+        const html = '<table><tr><td>a</td><td rowspan="3">b</td></tr><tr><td>c</td></tr><tr></tr></table>';
+        expect(parseHtmlTable(html)).toEqual([['a', 'b'], ['c', 'b'], ['', 'b']]);
+    });
+});
+
+describe('isEditableTarget', () => {
+    it('accepts form fields only', () => {
+        expect(isEditableTarget(document.createElement('textarea'))).toBe(true);
+        expect(isEditableTarget(document.createElement('input'))).toBe(true);
+        expect(isEditableTarget(document.createElement('select'))).toBe(true);
+        expect(isEditableTarget(document.createElement('div'))).toBe(false);
+        expect(isEditableTarget(null)).toBe(false);
+    });
+});
@@ -0,0 +1,80 @@
+import { isImageFile } from './imageInput';
+
+declare const Papa: any;
+
+// Turns pasted clipboard content into the same File objects the upload areas produce, so a paste goes through
+// exactly the same parsing and encoding as an upload.
+
+const pastedName = (extension: string) => `pasted-${new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-')}.${extension}`;
+
+// Paste events from text fields are left alone so URLs and chat messages can still be pasted normally.
+export const isEditableTarget = (target: EventTarget | null): boolean => {
+    if (!(target instanceof HTMLElement)) return false;
+    return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+};
+
+// The first pasted image, e.g. a screenshot or an image copied from a web page.
+export const imageFromClipboard = (data: DataTransfer | null): File | null => {
+    if (!data) return null;
+    for (let i = 0; i < data.items.length; i++) {
+        const item = data.items[i];
+        if (item.kind !== 'file') continue;
+        const pasted = item.getAsFile();
+        if (pasted && isImageFile(pasted)) {
+            return new File([pasted], pastedName(pasted.type.split('/')[1] || 'png'), { type: pasted.type });
+        }
+    }
+    return null;
+};
+
+// Cells of the first <table> in copied HTML. Spanned cells are repeated across their columns and rows so
+// columns stay aligned. Only the table's own rows and cells are read, not those of tables nested in its cells.
+export const parseHtmlTable = (html: string): string[][] | null => {
+    const table = new DOMParser().parseFromString(html, 'text/html').querySelector('table');
+    if (!table) return null;
+    const rows: string[][] = [];
+    // Cells from rows above that still span down, by column.
+    const carried: ({ text: string; rows: number } | undefined)[] = [];
+    Array.from(table.rows).forEach(tr => {
+        const cells: string[] = [];
+        const fillCarried = () => {
+            for (let above = carried[cells.length]; above; above = carried[cells.length]) {
+                cells.push(above.text);
+                if (--above.rows === 0) carried[cells.length - 1] = undefined;
+            }
+        };
+        Array.from(tr.cells).forEach(cell => {
+            fillCarried();
+            const text = (cell.textContent || '').replace(/\s+/g, ' ').trim();
+            const colSpan = Math.max(1, Number(cell.getAttribute('colspan')) || 1);
+            const rowSpan = Math.max(1, Number(cell.getAttribute('rowspan')) || 1);
+            for (let i = 0; i < colSpan; i++) {
+                if (rowSpan > 1) carried[cells.length] = { text, rows: rowSpan - 1 };
+                cells.push(text);
+            }
+        });
+        // Cells spanning down past the end of this row's own cells still belong to it.
+        while (carried.slice(cells.length).some(Boolean)) {
+            if (carried[cells.length]) fillCarried();
+            else cells.push('');
+        }
+        if (cells.some(cell => cell !== '')) rows.push(cells);
+    });
+    return rows;
+};
+
+// Tab-separated cells as copied from a spreadsheet. Plain text without tabs is not treated as a table.
+export const parseTsv = (text: string): string[][] | null => {
+    if (!text.includes('\t')) return null;
+    const { data } = Papa.parse(text.replace(/\r?\n$/, ''), { delimiter: '\t', skipEmptyLines: true });
+    return data;
+};
+
+// Copied spreadsheet cells as a CSV file, or null when the clipboard holds no table with a header and a data row.
+export const tableFromClipboard = (data: DataTransfer | null): File | null => {
+    if (!data) return null;
+    const html = data.getData('text/html');
+    const rows = (html && parseHtmlTable(html)) || parseTsv(data.getData('text/plain'));
+    if (!rows || rows.length < 2) return null;
+    return new File([Papa.unparse(rows)], pastedName('csv'), { type: 'text/csv' });
+};
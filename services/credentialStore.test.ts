@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import type { ModelConfig } from '../types';
+import {
+    WrongPassphraseError, createSalt, decryptCredentials, deriveKey, encryptCredentials, mergeCredentials, splitCredentials,
+} from './credentialStore';
+
+const config: ModelConfig = {
+    dataToGraph: { provider: 'anthropic', anthropic: { baseUrl: 'https://api.anthropic.com/v1', apiKey: 'sk-ant', model: 'claude' } },
+    graphToData: {
+        provider: 'custom',
+        custom: { baseUrl: 'https://api.openai.com/v1', apiKey: 'sk-openai', model: 'gpt-4o' },
+        ollama: { baseUrl: 'http://localhost:11434', apiKey: '', model: 'llava' },
+    },
+    profiles: [{ id: 'profile-1', name: 'Staging', config: { provider: 'google', google: { baseUrl: '', apiKey: 'gemini-key', model: '' } } }],
+};
+
+describe('splitCredentials / mergeCredentials', () => {
+    it('moves every key into slots and leaves the config without keys', () => {
+        const { config: stripped, credentials } = splitCredentials(config);
+        expect(credentials).toEqual({
+            'dataToGraph.anthropic': 'sk-ant',
+            'graphToData.custom': 'sk-openai',
+            'profile.profile-1.google': 'gemini-key',
+        });
+        expect(JSON.stringify(stripped)).not.toMatch(/sk-|gemini-key/);
+        expect(config.dataToGraph.anthropic?.apiKey).toBe('sk-ant');
+    });
+
+    it('restores the original config from the split parts', () => {
+        const { config: stripped, credentials } = splitCredentials(config);
+        expect(mergeCredentials(stripped, credentials)).toEqual(config);
+    });
+
+    it('keeps keys already in the config unless asked to overwrite', () => {
+        const edited = mergeCredentials(config, { 'dataToGraph.anthropic': 'stored' });
+        expect(edited.dataToGraph.anthropic?.apiKey).toBe('sk-ant');
+        expect(mergeCredentials(config, { 'dataToGraph.anthropic': 'stored' }, true).dataToGraph.anthropic?.apiKey).toBe('stored');
+    });
+
+    it('ignores slots for unknown providers or missing connections', () => {
+        const merged = mergeCredentials(config, { 'dataToGraph.unknown': 'x', 'profile.gone.google': 'y', 'graphToData.anthropic': 'z' });
+        expect(merged).toEqual(config);
+    });
+});
+
+describe('encryptCredentials / decryptCredentials', () => {
+    it('round-trips the keys with the right passphrase and rejects a wrong one', async () => {
+        const salt = createSalt();
+        const stored = await encryptCredentials({ 'dataToGraph.anthropic': 'sk-ant' }, await deriveKey('correct horse', salt), salt);
+        expect(stored.storage).toBe('encrypted');
+        if (stored.storage !== 'encrypted') return;
+        expect(stored.ciphertext).not.toContain('sk-ant');
+
+        const { credentials } = await decryptCredentials(stored, 'correct horse');
+        expect(credentials).toEqual({ 'dataToGraph.anthropic': 'sk-ant' });
+        await expect(decryptCredentials(stored, 'wrong horse')).rejects.toBeInstanceOf(WrongPassphraseError);
+    });
+});
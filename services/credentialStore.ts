@@ -0,0 +1,138 @@
+import { MODEL_PROVIDER_IDS } from '../types';
+import type { ModelConfig, ModelFeature, ModelProviderType, ProviderConfig } from '../types';
+
+// API keys are kept apart from the rest of the model config, which is always stored in plain localStorage.
+// Depending on the user's choice, the keys are stored in plain text, only for the browser session, or encrypted
+// with a key derived from a passphrase (PBKDF2 + AES-GCM) that is never stored.
+
+export type CredentialStorage = 'plain' | 'session' | 'encrypted';
+
+// API keys by "<feature>.<provider>", e.g. "graphToData.anthropic", or "profile.<id>.<provider>" for saved profiles.
+export type CredentialMap = { [slot: string]: string };
+
+export type StoredCredentials =
+    | { version: 1; storage: 'plain'; credentials: CredentialMap }
+    | { version: 1; storage: 'session' }
+    | { version: 1; storage: 'encrypted'; salt: string; iv: string; ciphertext: string; iterations: number };
+
+export class WrongPassphraseError extends Error {
+    constructor() {
+        super('The passphrase does not match the stored credentials.');
+        this.name = 'WrongPassphraseError';
+    }
+}
+
+const STORAGE_KEY = 'modelCredentials';
+const PBKDF2_ITERATIONS = 310_000;
+const FEATURES: ModelFeature[] = ['dataToGraph', 'graphToData'];
+
+// Every provider config in a model config, with the slot prefix its keys are stored under.
+const providerConfigs = (config: ModelConfig): { prefix: string; providerConfig: ProviderConfig }[] => [
+    ...FEATURES.map(feature => ({ prefix: feature, providerConfig: config[feature] })),
+    ...(config.profiles || []).map(profile => ({ prefix: `profile.${profile.id}`, providerConfig: profile.config })),
+];
+
+const isProviderId = (value: string): value is ModelProviderType => (MODEL_PROVIDER_IDS as readonly string[]).includes(value);
+
+// The config without its API keys, and the keys on their own.
+export const splitCredentials = (config: ModelConfig): { config: ModelConfig; credentials: CredentialMap } => {
+    const credentials: CredentialMap = {};
+    const stripped = JSON.parse(JSON.stringify(config)) as ModelConfig;
+    for (const { prefix, providerConfig } of providerConfigs(stripped)) {
+        for (const provider of MODEL_PROVIDER_IDS) {
+            const connection = providerConfig[provider];
+            if (connection && typeof connection.apiKey === 'string') {
+                if (connection.apiKey) credentials[`${prefix}.${provider}`] = connection.apiKey;
+                connection.apiKey = '';
+            }
+        }
+    }
+    return { config: stripped, credentials };
+};
+
+// Puts stored keys back into the config. Keys already present in the config win unless overwrite is set.
+export const mergeCredentials = (config: ModelConfig, credentials: CredentialMap, overwrite = false): ModelConfig => {
+    const merged = JSON.parse(JSON.stringify(config)) as ModelConfig;
+    const byPrefix = new Map(providerConfigs(merged).map(({ prefix, providerConfig }) => [prefix, providerConfig]));
+    for (const slot of Object.keys(credentials)) {
+        const provider = slot.slice(slot.lastIndexOf('.') + 1);
+        if (!isProviderId(provider)) continue;
+        const connection = byPrefix.get(slot.slice(0, slot.lastIndexOf('.')))?.[provider];
+        if (connection && (overwrite || !connection.apiKey)) {
+            connection.apiKey = credentials[slot];
+        }
+    }
+    return merged;
+};
+
+export const hasCredentials = (credentials: CredentialMap) => Object.keys(credentials).length > 0;
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...Array.from(bytes)));
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), char => char.charCodeAt(0));
+
+export const deriveKey = async (passphrase: string, salt: Uint8Array, iterations = PBKDF2_ITERATIONS): Promise<CryptoKey> => {
+    const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(
+        { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt']
+    );
+};
+
+export const createSalt = () => crypto.getRandomValues(new Uint8Array(16));
+
+export async function encryptCredentials(credentials: CredentialMap, key: CryptoKey, salt: Uint8Array): Promise<StoredCredentials> {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const plaintext = new TextEncoder().encode(JSON.stringify(credentials));
+    const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, plaintext));
+    return { version: 1, storage: 'encrypted', salt: toBase64(salt), iv: toBase64(iv), ciphertext: toBase64(ciphertext), iterations: PBKDF2_ITERATIONS };
+}
+
+// Decrypts stored credentials, returning the derived key and salt so later changes can be re-encrypted.
+export async function decryptCredentials(
+    stored: Extract<StoredCredentials, { storage: 'encrypted' }>,
+    passphrase: string
+): Promise<{ credentials: CredentialMap; key: CryptoKey; salt: Uint8Array }> {
+    const salt = fromBase64(stored.salt);
+    const key = await deriveKey(passphrase, salt, stored.iterations);
+    let plaintext: ArrayBuffer;
+    try {
+        plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(stored.iv) }, key, fromBase64(stored.ciphertext));
+    } catch {
+        // AES-GCM authentication fails for a wrong passphrase (or tampered data).
+        throw new WrongPassphraseError();
+    }
+    return { credentials: JSON.parse(new TextDecoder().decode(plaintext)), key, salt };
+}
+
+export const readStoredCredentials = (): StoredCredentials | null => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+        return stored && stored.version === 1 && ['plain', 'session', 'encrypted'].includes(stored.storage) ? stored : null;
+    } catch {
+        return null;
+    }
+};
+
+export const readSessionCredentials = (): CredentialMap => {
+    try {
+        return JSON.parse(sessionStorage.getItem(STORAGE_KEY) || '{}');
+    } catch {
+        return {};
+    }
+};
+
+// Session-only keys live in sessionStorage, which the browser drops when the tab is closed; localStorage only
+// records that this mode was chosen.
+export const writeStoredCredentials = (stored: StoredCredentials, sessionCredentials?: CredentialMap) => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+    if (stored.storage === 'session') sessionStorage.setItem(STORAGE_KEY, JSON.stringify(sessionCredentials || {}));
+    else sessionStorage.removeItem(STORAGE_KEY);
+};
+
+export const clearStoredCredentials = () => {
+    localStorage.removeItem(STORAGE_KEY);
+    sessionStorage.removeItem(STORAGE_KEY);
+};
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import type { Dashboard } from '../types';
+import { createDashboardItem, parseDashboardSpec, toDashboardSpec } from './dashboard';
+
+const fields = ['date', 'region', 'sales'];
+
+const dashboard: Dashboard = {
+    title: 'Sales',
+    notes: 'Quarterly totals',
+    items: [
+        {
+            ...createDashboardItem({
+                title: 'By quarter',
+                chartType: 'column',
+                reason: '',
+                config: { xField: 'period', yField: 'sales' },
+                transform: [{ type: 'dateBucket', field: 'date', unit: 'quarter', as: 'period' }],
+            }),
+            colSpan: 8,
+            rowSpan: 3,
+        },
+    ],
+};
+
+const specText = (spec: unknown) => JSON.stringify(spec);
+
+describe('parseDashboardSpec', () => {
+    it('reopens a saved spec with its charts, sizes and text', () => {
+        const parsed = parseDashboardSpec(specText(toDashboardSpec(dashboard, 'sales.csv')), fields);
+        expect(parsed.title).toBe('Sales');
+        expect(parsed.notes).toBe('Quarterly totals');
+        expect(parsed.items).toHaveLength(1);
+        expect(parsed.items[0]).toMatchObject({ recommendation: dashboard.items[0].recommendation, colSpan: 8, rowSpan: 3 });
+        expect(parsed.items[0].id).not.toBe(dashboard.items[0].id);
+    });
+
+    it('clamps sizes and defaults missing ones', () => {
+        const spec = { version: 1, items: [
+            { recommendation: { chartType: 'pie', config: {} }, colSpan: 40, rowSpan: 1 },
+            { recommendation: { chartType: 'pie', config: {} } },
+        ] };
+        expect(parseDashboardSpec(specText(spec), fields).items.map(({ colSpan, rowSpan }) => [colSpan, rowSpan])).toEqual([[12, 2], [6, 4]]);
+    });
+
+    it('rejects files that are not dashboard specs', () => {
+        expect(() => parseDashboardSpec('{', fields)).toThrow('The file is not valid JSON.');
+        expect(() => parseDashboardSpec(specText({ version: 2, items: [] }), fields)).toThrow('The file is not a dashboard spec.');
+        expect(() => parseDashboardSpec(specText({ version: 1, items: [{ recommendation: { chartType: 'bar', config: [] } }] }), fields))
+            .toThrow('items[0]: missing chart type or config');
+    });
+
+    it('rejects transforms that reference columns the dataset lacks', () => {
+        expect(() => parseDashboardSpec(specText(toDashboardSpec(dashboard, 'sales.csv')), ['region', 'sales']))
+            .toThrow('The dashboard does not fit this dataset: items[0].transform[0].field: "date" is not a column at this point');
+    });
+});
@@ -0,0 +1,174 @@
+import type { ChartRecommendation, CrossFilter, Dashboard, DashboardItem, DashboardSpec } from '../types';
+import { buildChartConfig, componentNameMapping, normalizeChartType } from './chartConfig';
+import { CHARTS_CDN_URL, escapeHtml, toScriptJson } from './chartExport';
+import { reduceForChart } from './chartData';
+import type { ChartDataResult } from './chartData';
+import { applyTransform, columnsOf, validateTransform } from './dataTransform';
+import { downloadBlob } from './exportService';
+
+// Charts on a dashboard sit in a 12-column grid; sizes are whole cells so layouts survive other screen widths.
+export const DASHBOARD_COLUMNS = 12;
+export const DASHBOARD_ROW_HEIGHT = 110;
+export const DASHBOARD_GAP = 16;
+const MIN_COL_SPAN = 3;
+const MIN_ROW_SPAN = 2;
+const MAX_ROW_SPAN = 8;
+
+let nextItemId = 0;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, Math.round(value)));
+
+export const clampSpans = (colSpan: number, rowSpan: number) => ({
+    colSpan: clamp(colSpan, MIN_COL_SPAN, DASHBOARD_COLUMNS),
+    rowSpan: clamp(rowSpan, MIN_ROW_SPAN, MAX_ROW_SPAN),
+});
+
+export const createDashboardItem = (recommendation: ChartRecommendation): DashboardItem => ({
+    id: `chart-${Date.now().toString(36)}-${nextItemId++}`,
+    recommendation,
+    colSpan: 6,
+    rowSpan: 4,
+});
+
+// Pixel height of an item's chart area; the card header takes the rest of its cells.
+export const chartHeight = (rowSpan: number) => rowSpan * DASHBOARD_ROW_HEIGHT + (rowSpan - 1) * DASHBOARD_GAP - 48;
+
+// The field a click on a chart element selects: the category axis, or the slice/series for charts without one.
+export const crossFilterFieldFor = (recommendation: ChartRecommendation, datum: any): string | null => {
+    const config = recommendation.config || {};
+    const type = normalizeChartType(recommendation.chartType);
+    const candidates = type === 'pie'
+        ? [config.colorField]
+        : type === 'bar'
+            ? [config.yField, config.seriesField, config.colorField]
+            : [config.xField, config.seriesField, config.colorField];
+    const field = candidates.find(candidate => typeof candidate === 'string' && datum?.[candidate] !== undefined && datum[candidate] !== null);
+    return field || null;
+};
+
+// Applies the filters picked in other charts. A filter on a column the chart's transform outputs is applied to
+// its result (so it also matches bucketed or aggregated labels); otherwise it is applied to the source rows.
+// Charts that have neither column ignore it.
+export const dashboardChartData = (data: any[], item: DashboardItem, filters: CrossFilter[], sourceFields: string[]): ChartDataResult => {
+    const steps = item.recommendation.transform || [];
+    const active = filters.filter(filter => filter.sourceId !== item.id);
+    const toStep = (selected: CrossFilter[]) => selected.length > 0
+        ? [{ type: 'filter' as const, conditions: selected.map(({ field, value }) => ({ field, operator: 'eq' as const, value })) }]
+        : [];
+
+    const unfiltered = applyTransform(data, steps);
+    const outputFields = columnsOf(unfiltered);
+    const after = active.filter(filter => outputFields.includes(filter.field));
+    const before = active.filter(filter => !after.includes(filter) && sourceFields.includes(filter.field));
+
+    const rows = before.length > 0 ? applyTransform(data, [...toStep(before), ...steps]) : unfiltered;
+    return reduceForChart(applyTransform(rows, toStep(after)), item.recommendation);
+};
+
+export const toDashboardSpec = (dashboard: Dashboard, sourceName: string): DashboardSpec => ({
+    version: 1,
+    sourceName,
+    createdAt: Date.now(),
+    ...dashboard,
+});
+
+const fileBaseName = (title: string) =>
+    (title || 'dashboard').replace(/[\\/:*?"<>|]+/g, '').replace(/\s+/g, '-').toLowerCase() || 'dashboard';
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Reads a saved spec, checking its shape and that every transform fits the loaded dataset's columns.
+export function parseDashboardSpec(text: string, fields: string[]): Dashboard {
+    let spec: any;
+    try {
+        spec = JSON.parse(text);
+    } catch {
+        throw new Error('The file is not valid JSON.');
+    }
+    if (spec?.version !== 1 || !Array.isArray(spec.items)) {
+        throw new Error('The file is not a dashboard spec.');
+    }
+    const issues: string[] = [];
+    const items = spec.items.map((item: any, i: number): DashboardItem | null => {
+        const recommendation = item?.recommendation;
+        if (!recommendation || typeof recommendation.chartType !== 'string' || !isPlainObject(recommendation.config)) {
+            issues.push(`items[${i}]: missing chart type or config`);
+            return null;
+        }
+        issues.push(...validateTransform(recommendation.transform, fields, `items[${i}].transform`));
+        return { ...createDashboardItem(recommendation), ...clampSpans(Number(item.colSpan) || 6, Number(item.rowSpan) || 4) };
+    });
+    if (issues.length > 0) {
+        throw new Error(`The dashboard does not fit this dataset: ${issues.join('; ')}`);
+    }
+    return {
+        title: typeof spec.title === 'string' ? spec.title : '',
+        notes: typeof spec.notes === 'string' ? spec.notes : '',
+        items: items as DashboardItem[],
+    };
+}
+
+export function exportDashboardAsJson(dashboard: Dashboard, sourceName: string): void {
+    const json = JSON.stringify(toDashboardSpec(dashboard, sourceName), null, 2);
+    downloadBlob(new Blob([json], { type: 'application/json;charset=utf-8' }), `${fileBaseName(dashboard.title)}.json`);
+}
+
+// A standalone page with the same grid, each chart's (filtered, reduced) rows embedded in its config.
+export const buildDashboardHtml = (dashboard: Dashboard, charts: { item: DashboardItem; data: any[] }[], filters: CrossFilter[], colors: string[] | null = null): string => {
+    const title = escapeHtml(dashboard.title || 'Dashboard');
+    const entries = charts.map(({ item, data }) => {
+        const componentName = componentNameMapping[normalizeChartType(item.recommendation.chartType)];
+        if (!componentName) {
+            throw new Error(`Unsupported chart type: "${item.recommendation.chartType}".`);
+        }
+        return {
+            id: item.id,
+            componentName,
+            config: buildChartConfig(item.recommendation, data, { height: chartHeight(item.rowSpan) }, { dark: false, colors }),
+        };
+    });
+    const cards = charts.map(({ item }) => `
+    <section class="card" style="grid-column: span ${item.colSpan}; grid-row: span ${item.rowSpan};">
+      <h2>${escapeHtml(item.recommendation.title || '')}</h2>
+      <div id="${item.id}"></div>
+    </section>`).join('');
+    const filterLine = filters.length > 0
+        ? `<p class="filters">Filtered to ${filters.map(filter => `${escapeHtml(filter.field)} = ${escapeHtml(String(filter.value))}`).join(', ')}</p>`
+        : '';
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+  <title>${title}</title>
+  <script src="${CHARTS_CDN_URL}"></script>
+  <style>
+    body { font-family: Inter, system-ui, sans-serif; margin: 2rem; color: #1f2937; background: #f8fafc; }
+    .notes { white-space: pre-wrap; max-width: 900px; }
+    .filters { color: #4f46e5; font-size: 0.875rem; }
+    .grid { display: grid; grid-template-columns: repeat(${DASHBOARD_COLUMNS}, minmax(0, 1fr)); grid-auto-rows: ${DASHBOARD_ROW_HEIGHT}px; gap: ${DASHBOARD_GAP}px; }
+    .card { background: #fff; border-radius: 12px; padding: 8px 12px; box-shadow: 0 1px 3px rgba(0, 0, 0, 0.1); overflow: hidden; }
+    .card h2 { font-size: 0.95rem; margin: 4px 0 8px; }
+  </style>
+</head>
+<body>
+  <h1>${title}</h1>
+  ${dashboard.notes ? `<p class="notes">${escapeHtml(dashboard.notes)}</p>` : ''}
+  ${filterLine}
+  <div class="grid">${cards}
+  </div>
+  <script>
+    // Final merged configs (style template + generated config), with each chart's data embedded.
+    const charts = ${toScriptJson(entries)};
+    charts.forEach(({ id, componentName, config }) => new Charts[componentName](document.getElementById(id), config).render());
+  </script>
+</body>
+</html>
+`;
+};
+
+export function exportDashboardAsHtml(dashboard: Dashboard, charts: { item: DashboardItem; data: any[] }[], filters: CrossFilter[], colors: string[] | null = null): void {
+    const html = buildDashboardHtml(dashboard, charts, filters, colors);
+    downloadBlob(new Blob([html], { type: 'text/html;charset=utf-8' }), `${fileBaseName(dashboard.title)}.html`);
+}
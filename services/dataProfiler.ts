@@ -0,0 +1,172 @@
+import type { ColumnKind, ColumnProfile, DataProfile } from '../types';
+import { parseCellValue } from './dataSeries';
+
+// Profiles every column over the full dataset so chart suggestions are not limited to the first rows.
+
+const TOP_VALUE_COUNT = 5;
+const DEFAULT_SAMPLE_SIZE = 20;
+
+const LATITUDE_NAME = /^(lat|latitude|纬度)$/i;
+const LONGITUDE_NAME = /^(lon|lng|long|longitude|经度)$/i;
+const PLACE_NAME = /(country|nation|province|state|region|city|county|district|continent|国家|省|州|城市|地区|区域)/i;
+const YEAR_NAME = /(year|年)/i;
+const DATE_STRING = /^(\d{4}[-/.]\d{1,2}([-/.]\d{1,2})?([ T]\d{1,2}:\d{2}(:\d{2})?)?|\d{1,2}[-/.]\d{1,2}[-/.]\d{2,4}|[A-Za-z]{3,9}\.? \d{1,2},? \d{4}|\d{4}-?Q[1-4])/;
+
+const isMissing = (value: unknown) => value === null || value === undefined || (typeof value === 'string' && value.trim() === '');
+
+const toNumber = (value: unknown): number | null => {
+    const parsed = parseCellValue(value);
+    return typeof parsed === 'number' ? parsed : null;
+};
+
+// Parses date-like cells (Date objects, ISO dates, "2023-Q1" quarters); other values give null.
+export const toTimestamp = (value: unknown): number | null => {
+    if (value instanceof Date) return Number.isNaN(value.getTime()) ? null : value.getTime();
+    if (typeof value !== 'string' || !DATE_STRING.test(value.trim())) return null;
+    const quarter = value.trim().match(/^(\d{4})-?Q([1-4])$/);
+    const time = quarter ? Date.UTC(Number(quarter[1]), (Number(quarter[2]) - 1) * 3, 1) : Date.parse(value);
+    return Number.isNaN(time) ? null : time;
+};
+
+const quantile = (sorted: number[], q: number) => {
+    const pos = (sorted.length - 1) * q;
+    const base = Math.floor(pos);
+    const rest = pos - base;
+    return sorted[base + 1] !== undefined ? sorted[base] + rest * (sorted[base + 1] - sorted[base]) : sorted[base];
+};
+
+const round = (value: number) => Number.isInteger(value) ? value : Number(value.toPrecision(6));
+
+const topValues = (values: unknown[]) => {
+    const counts = new Map<string, number>();
+    values.forEach(v => counts.set(String(v), (counts.get(String(v)) || 0) + 1));
+    return Array.from(counts.entries())
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, TOP_VALUE_COUNT)
+        .map(([value, count]) => ({ value, count }));
+};
+
+const numericStats = (numbers: number[]) => {
+    const sorted = [...numbers].sort((a, b) => a - b);
+    const mean = numbers.reduce((sum, n) => sum + n, 0) / numbers.length;
+    const variance = numbers.reduce((sum, n) => sum + (n - mean) ** 2, 0) / numbers.length;
+    const q1 = quantile(sorted, 0.25);
+    const q3 = quantile(sorted, 0.75);
+    const fence = 1.5 * (q3 - q1);
+    return {
+        min: sorted[0],
+        max: sorted[sorted.length - 1],
+        mean: round(mean),
+        median: round(quantile(sorted, 0.5)),
+        stdDev: round(Math.sqrt(variance)),
+        outlierCount: numbers.filter(n => n < q1 - fence || n > q3 + fence).length,
+    };
+};
+
+const inferKind = (name: string, values: unknown[], numbers: number[], timestamps: number[]): { kind: ColumnKind; geoRole?: ColumnProfile['geoRole'] } => {
+    if (values.length === 0) return { kind: 'empty' };
+
+    const allNumeric = numbers.length === values.length;
+    if (allNumeric) {
+        if (LATITUDE_NAME.test(name) && numbers.every(n => n >= -90 && n <= 90)) return { kind: 'geo', geoRole: 'latitude' };
+        if (LONGITUDE_NAME.test(name) && numbers.every(n => n >= -180 && n <= 180)) return { kind: 'geo', geoRole: 'longitude' };
+        if (YEAR_NAME.test(name) && numbers.every(n => Number.isInteger(n) && n >= 1000 && n <= 3000)) return { kind: 'temporal' };
+        return { kind: 'numeric' };
+    }
+    if (timestamps.length === values.length) return { kind: 'temporal' };
+    if (PLACE_NAME.test(name)) return { kind: 'geo', geoRole: 'place' };
+    return { kind: 'categorical' };
+};
+
+const profileColumn = (name: string, data: any[]): ColumnProfile => {
+    const raw = data.map(row => row?.[name]);
+    const values = raw.filter(v => !isMissing(v));
+    const numbers = values.map(toNumber).filter((n): n is number => n !== null);
+    const timestamps = numbers.length === values.length ? [] : values.map(toTimestamp).filter((n): n is number => n !== null);
+    const { kind, geoRole } = inferKind(name, values, numbers, timestamps);
+
+    const profile: ColumnProfile = {
+        name,
+        kind,
+        nullCount: raw.length - values.length,
+        distinctCount: new Set(values.map(v => v instanceof Date ? v.getTime() : String(v))).size,
+        ...(geoRole ? { geoRole } : {}),
+    };
+
+    if (kind === 'numeric' || geoRole === 'latitude' || geoRole === 'longitude') {
+        Object.assign(profile, numericStats(numbers));
+    } else if (kind === 'temporal') {
+        const times = timestamps.length > 0 ? timestamps : numbers.map(year => Date.UTC(year, 0, 1));
+        // Reduce rather than spread: Math.min(...times) overflows the stack on large files.
+        profile.minDate = new Date(times.reduce((a, b) => Math.min(a, b))).toISOString().slice(0, 10);
+        profile.maxDate = new Date(times.reduce((a, b) => Math.max(a, b))).toISOString().slice(0, 10);
+    } else if (kind === 'categorical' || kind === 'geo') {
+        profile.topValues = topValues(values);
+    }
+    return profile;
+};
+
+export function profileData(data: any[]): DataProfile {
+    const names: string[] = [];
+    const seen = new Set<string>();
+    for (const row of data) {
+        if (!row || typeof row !== 'object') continue;
+        for (const key of Object.keys(row)) {
+            if (!seen.has(key)) {
+                seen.add(key);
+                names.push(key);
+            }
+        }
+    }
+    return { rowCount: data.length, columns: names.map(name => profileColumn(name, data)) };
+}
+
+// Picks rows that represent the whole dataset: the first and last rows, evenly spaced rows in between,
+// the rows holding each numeric column's extremes and the first row of each frequent category.
+export function sampleRepresentativeRows(data: any[], profile: DataProfile, size = DEFAULT_SAMPLE_SIZE): any[] {
+    if (data.length <= size) return data;
+
+    const picked = new Set<number>([0, 1, 2, data.length - 1]);
+    const addIndex = (index: number) => { if (index >= 0 && picked.size < size) picked.add(index); };
+
+    for (const column of profile.columns) {
+        if (column.kind === 'numeric') {
+            let minIndex = -1, maxIndex = -1;
+            data.forEach((row, i) => {
+                const n = toNumber(row?.[column.name]);
+                if (n === null) return;
+                if (n === column.min && minIndex < 0) minIndex = i;
+                if (n === column.max && maxIndex < 0) maxIndex = i;
+            });
+            addIndex(minIndex);
+            addIndex(maxIndex);
+        } else if (column.kind === 'categorical' && column.topValues) {
+            for (const { value } of column.topValues) {
+                addIndex(data.findIndex(row => String(row?.[column.name]) === value));
+            }
+        }
+    }
+
+    const remaining = size - picked.size;
+    for (let i = 1; i <= remaining; i++) {
+        picked.add(Math.round((i * (data.length - 1)) / (remaining + 1)));
+    }
+
+    return Array.from(picked).sort((a, b) => a - b).slice(0, size).map(i => data[i]);
+}
+
+const describeColumn = (column: ColumnProfile): string => {
+    const parts: string[] = [column.geoRole ? `${column.kind} (${column.geoRole})` : column.kind];
+    parts.push(`${column.nullCount} nulls`, `${column.distinctCount} distinct`);
+    if (column.min !== undefined) {
+        parts.push(`min ${column.min}`, `max ${column.max}`, `mean ${column.mean}`, `median ${column.median}`, `std ${column.stdDev}`);
+        if (column.outlierCount) parts.push(`${column.outlierCount} outliers (IQR)`);
+    }
+    if (column.minDate) parts.push(`range ${column.minDate} to ${column.maxDate}`);
+    if (column.topValues) parts.push(`top: ${column.topValues.map(v => `${v.value} (${v.count})`).join(', ')}`);
+    return `- "${column.name}": ${parts.join(', ')}`;
+};
+
+// Compact, model-friendly text version of a profile.
+export const formatProfileForPrompt = (profile: DataProfile): string =>
+    [`Rows: ${profile.rowCount}`, ...profile.columns.map(describeColumn)].join('\n');
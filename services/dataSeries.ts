@@ -0,0 +1,82 @@
+import type { DataCell, DataColumn, ExtractedDataSeries } from '../types';
+
+// Converts a raw cell (as typed by the user or returned by the model) into a number where possible.
+export const parseCellValue = (value: unknown): DataCell => {
+    if (value === null || value === undefined) return null;
+    if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+    const text = String(value).trim();
+    if (text === '') return null;
+    // Tolerate thousands separators and trailing percent signs that models like to keep.
+    const numeric = text.replace(/,/g, '').replace(/%$/, '');
+    if (/^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(numeric)) {
+        return Number(numeric);
+    }
+    return text;
+};
+
+export const columnLabel = (column: DataColumn): string =>
+    column.unit ? `${column.name} (${column.unit})` : column.name;
+
+// Cleans up a model-provided series: drops empty columns, pads/truncates rows and coerces numbers.
+export const normalizeDataSeries = (raw: any): ExtractedDataSeries | undefined => {
+    if (!raw || !Array.isArray(raw.columns) || !Array.isArray(raw.rows)) return undefined;
+
+    const columns: DataColumn[] = raw.columns
+        .map((col: any) => typeof col === 'string' ? { name: col } : col)
+        .filter((col: any) => col && typeof col.name === 'string' && col.name.trim() !== '')
+        .map((col: any) => ({ name: col.name.trim(), ...(col.unit ? { unit: String(col.unit) } : {}) }));
+    if (columns.length === 0) return undefined;
+
+    const rows: DataCell[][] = raw.rows
+        .filter((row: any) => Array.isArray(row))
+        .map((row: any[]) => columns.map((_, i) => parseCellValue(row[i])));
+
+    return {
+        chartType: typeof raw.chartType === 'string' ? raw.chartType : 'unknown',
+        title: raw.title || undefined,
+        xAxisLabel: raw.xAxisLabel || undefined,
+        yAxisLabel: raw.yAxisLabel || undefined,
+        columns,
+        rows,
+    };
+};
+
+// Turns a series into an array of plain objects keyed by column name, the shape the chart components consume.
+export const seriesToRecords = (series: ExtractedDataSeries): Record<string, DataCell>[] =>
+    series.rows.map(row => {
+        const record: Record<string, DataCell> = {};
+        series.columns.forEach((col, i) => {
+            record[col.name] = row[i] ?? null;
+        });
+        return record;
+    });
+
+// Stacks the tables extracted from several images into one, with the image each row came from in the first
+// column. Columns are matched by name and unit; a column missing from an image is left empty in its rows.
+export const combineSeries = (parts: { sourceName: string; series: ExtractedDataSeries }[], sourceColumn = 'source_image'): ExtractedDataSeries => {
+    const columns: DataColumn[] = [];
+    const indexOf = new Map<string, number>();
+    for (const { series } of parts) {
+        for (const column of series.columns) {
+            const key = columnLabel(column);
+            if (!indexOf.has(key)) {
+                indexOf.set(key, columns.length);
+                columns.push(column);
+            }
+        }
+    }
+    const rows = parts.flatMap(({ sourceName, series }) => {
+        const positions = series.columns.map(column => indexOf.get(columnLabel(column))!);
+        return series.rows.map(row => {
+            const combined: DataCell[] = new Array(columns.length).fill(null);
+            positions.forEach((position, i) => { combined[position] = row[i] ?? null; });
+            return [sourceName, ...combined];
+        });
+    });
+    const chartTypes = Array.from(new Set(parts.map(({ series }) => series.chartType)));
+    return {
+        chartType: chartTypes.length === 1 ? chartTypes[0] : 'mixed',
+        columns: [{ name: sourceColumn }, ...columns],
+        rows,
+    };
+};
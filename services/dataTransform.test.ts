@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { applyTransform, bucketDate, runTransform, transformedFields } from './dataTransform';
+
+const sales = [
+    { region: 'North', quarter: 'Q1', sales: 10 },
+    { region: 'North', quarter: 'Q2', sales: 30 },
+    { region: 'North', quarter: 'Q2', sales: 20 },
+    { region: 'South', quarter: 'Q1', sales: 5 },
+];
+
+describe('applyTransform', () => {
+    it('pivots one row per index value and one column per distinct value', () => {
+        expect(applyTransform(sales, [{ type: 'pivot', index: ['region'], columns: 'quarter', values: 'sales', op: 'sum' }])).toEqual([
+            { region: 'North', Q1: 10, Q2: 50 },
+            { region: 'South', Q1: 5, Q2: null },
+        ]);
+    });
+
+    it('unpivots columns into key and value rows, keeping the other columns', () => {
+        const wide = [{ year: 2023, north: 10, south: 5 }];
+        expect(applyTransform(wide, [{ type: 'unpivot', fields: ['north', 'south'], keyName: 'region', valueName: 'sales' }])).toEqual([
+            { year: 2023, region: 'north', sales: 10 },
+            { year: 2023, region: 'south', sales: 5 },
+        ]);
+    });
+
+    it('keeps the top rows by a column and drops rows missing it', () => {
+        const rows = [...sales, { region: 'West', quarter: 'Q1', sales: '' }];
+        expect(applyTransform(rows, [{ type: 'topN', field: 'sales', n: 2, direction: 'desc' }]).map(row => row.sales)).toEqual([30, 20]);
+        expect(applyTransform(rows, [{ type: 'topN', field: 'sales', n: 1, direction: 'asc' }]).map(row => row.sales)).toEqual([5]);
+    });
+
+    it('buckets dates into a new column and chains with later steps', () => {
+        const rows = [
+            { date: '2024-01-15', sales: 1 },
+            { date: '2024-02-03', sales: 2 },
+            { date: '2024-03-30', sales: 4 },
+            { date: 'not a date', sales: 8 },
+        ];
+        expect(applyTransform(rows, [
+            { type: 'dateBucket', field: 'date', unit: 'quarter', as: 'period' },
+            { type: 'aggregate', groupBy: ['period'], aggregations: [{ field: 'sales', op: 'sum' }] },
+        ])).toEqual([{ period: '2024-Q1', sales: 7 }, { period: null, sales: 8 }]);
+    });
+});
+
+describe('runTransform', () => {
+    it('stops at a step that cannot run and reports it', () => {
+        const result = runTransform(sales, [
+            { type: 'filter', conditions: [{ field: 'region', operator: 'eq', value: 'North' }] },
+            { type: 'compute', as: 'share', expression: 'sales /' },
+            { type: 'topN', field: 'sales', n: 1, direction: 'desc' },
+        ]);
+        expect(result.rows).toHaveLength(3);
+        expect(result.failed).toEqual({ index: 1, message: 'The expression ends unexpectedly.' });
+        expect(runTransform(sales, [{ type: 'compute', as: 'double', expression: 'sales * 2' }]).failed).toBeNull();
+    });
+});
+
+describe('bucketDate', () => {
+    it('labels each unit so labels sort chronologically', () => {
+        expect(bucketDate('2024-05-17', 'day')).toBe('2024-05-17');
+        expect(bucketDate('2024-05-17', 'month')).toBe('2024-05');
+        expect(bucketDate('2024-05-17', 'quarter')).toBe('2024-Q2');
+        expect(bucketDate('2024-05-17', 'year')).toBe('2024');
+    });
+
+    it('labels weeks with their Monday, across a year boundary', () => {
+        expect(bucketDate('2024-05-19', 'week')).toBe('2024-05-13');
+        expect(bucketDate('2025-01-01', 'week')).toBe('2024-12-30');
+    });
+
+    it('reads bare years as the start of the year', () => {
+        expect(bucketDate(2021, 'quarter')).toBe('2021-Q1');
+        expect(bucketDate('hello', 'year')).toBeNull();
+    });
+});
+
+describe('transformedFields', () => {
+    it('follows the columns through the steps and gives up after a pivot', () => {
+        expect(transformedFields(['region', 'quarter', 'sales'], [
+            { type: 'unpivot', fields: ['sales'], keyName: 'measure', valueName: 'value' },
+            { type: 'dateBucket', field: 'quarter', unit: 'year' },
+        ])).toEqual(['region', 'quarter', 'measure', 'value']);
+        expect(transformedFields(['region'], [{ type: 'pivot', index: ['region'], columns: 'quarter', values: 'sales', op: 'sum' }])).toBeNull();
+    });
+});
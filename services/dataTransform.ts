@@ -0,0 +1,302 @@
+import type { AggregateOperation, Aggregation, DateBucketUnit, FilterCondition, FilterOperator, TransformStep } from '../types';
+import { parseCellValue } from './dataSeries';
+import { toTimestamp } from './dataProfiler';
+import { ExpressionError, evaluateExpression, parseExpression, referencedFields } from './expression';
+
+// Declarative row transforms applied before charting. Steps are plain data (they come from the model and
+// from the editor), so they are interpreted here rather than compiled into code.
+
+export const FILTER_OPERATORS: FilterOperator[] = ['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'contains'];
+export const AGGREGATE_OPERATIONS: AggregateOperation[] = ['sum', 'mean', 'count', 'min', 'max'];
+export const TRANSFORM_STEP_TYPES: TransformStep['type'][] = ['filter', 'compute', 'dateBucket', 'aggregate', 'pivot', 'unpivot', 'sort', 'topN'];
+export const DATE_BUCKET_UNITS: DateBucketUnit[] = ['day', 'week', 'month', 'quarter', 'year'];
+
+// Rows scanned when listing the columns of a transformed dataset.
+const COLUMN_SCAN_ROWS = 1000;
+
+const isMissing = (value: unknown) => value === null || value === undefined || value === '';
+
+// Orders numbers numerically, dates chronologically and everything else as text.
+const compareValues = (a: unknown, b: unknown): number => {
+    const numA = parseCellValue(a);
+    const numB = parseCellValue(b);
+    if (typeof numA === 'number' && typeof numB === 'number') return numA - numB;
+    const timeA = toTimestamp(a);
+    const timeB = toTimestamp(b);
+    if (timeA !== null && timeB !== null) return timeA - timeB;
+    return String(a).localeCompare(String(b));
+};
+
+const matches = (row: any, { field, operator, value }: FilterCondition): boolean => {
+    const cell = row?.[field];
+    switch (operator) {
+        case 'eq': return !isMissing(cell) && compareValues(cell, value) === 0;
+        case 'neq': return isMissing(cell) || compareValues(cell, value) !== 0;
+        case 'contains': return !isMissing(cell) && String(cell).toLowerCase().includes(String(value).toLowerCase());
+        default: {
+            if (isMissing(cell)) return false;
+            const order = compareValues(cell, value);
+            return operator === 'gt' ? order > 0 : operator === 'gte' ? order >= 0 : operator === 'lt' ? order < 0 : order <= 0;
+        }
+    }
+};
+
+const outputName = (aggregation: Aggregation) => aggregation.as || aggregation.field;
+
+const aggregateValues = (values: unknown[], op: AggregateOperation): number | null => {
+    if (op === 'count') return values.filter(value => !isMissing(value)).length;
+    const numbers = values.map(parseCellValue).filter((value): value is number => typeof value === 'number');
+    if (numbers.length === 0) return null;
+    switch (op) {
+        case 'sum': return numbers.reduce((a, b) => a + b, 0);
+        case 'mean': return numbers.reduce((a, b) => a + b, 0) / numbers.length;
+        case 'min': return numbers.reduce((a, b) => Math.min(a, b));
+        case 'max': return numbers.reduce((a, b) => Math.max(a, b));
+    }
+};
+
+const groupRows = (rows: any[], fields: string[]) => {
+    const groups = new Map<string, any[]>();
+    for (const row of rows) {
+        const key = JSON.stringify(fields.map(field => row?.[field] ?? null));
+        const group = groups.get(key);
+        if (group) group.push(row);
+        else groups.set(key, [row]);
+    }
+    return Array.from(groups.values());
+};
+
+const aggregate = (rows: any[], groupBy: string[], aggregations: Aggregation[]) =>
+    groupRows(rows, groupBy).map(group => {
+        const record: Record<string, unknown> = Object.fromEntries(groupBy.map(field => [field, group[0]?.[field] ?? null]));
+        for (const aggregation of aggregations) {
+            record[outputName(aggregation)] = aggregateValues(group.map(row => row?.[aggregation.field]), aggregation.op);
+        }
+        return record;
+    });
+
+const pivot = (rows: any[], index: string[], columns: string, values: string, op: AggregateOperation) => {
+    const columnNames = Array.from(new Set(rows.map(row => row?.[columns]).filter(value => !isMissing(value)).map(String)));
+    return groupRows(rows, index).map(group => {
+        const record: Record<string, unknown> = Object.fromEntries(index.map(field => [field, group[0]?.[field] ?? null]));
+        for (const name of columnNames) {
+            const cells = group.filter(row => String(row?.[columns]) === name).map(row => row?.[values]);
+            record[name] = cells.length > 0 ? aggregateValues(cells, op) : null;
+        }
+        return record;
+    });
+};
+
+const unpivot = (rows: any[], fields: string[], keyName: string, valueName: string) =>
+    rows.flatMap(row => {
+        const kept = Object.fromEntries(Object.entries(row || {}).filter(([key]) => !fields.includes(key)));
+        return fields.map(field => ({ ...kept, [keyName]: field, [valueName]: row?.[field] ?? null }));
+    });
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// Period label of a date; labels sort chronologically as text. Week buckets are labelled with their Monday.
+export const bucketDate = (value: unknown, unit: DateBucketUnit): string | null => {
+    const numeric = parseCellValue(value);
+    const time = typeof numeric === 'number' && Number.isInteger(numeric) && numeric >= 1000 && numeric <= 9999
+        ? Date.UTC(numeric, 0, 1)
+        : toTimestamp(value);
+    if (time === null) return null;
+    const date = new Date(time);
+    const year = date.getUTCFullYear();
+    const month = date.getUTCMonth();
+    switch (unit) {
+        case 'year': return String(year);
+        case 'quarter': return `${year}-Q${Math.floor(month / 3) + 1}`;
+        case 'month': return `${year}-${pad(month + 1)}`;
+        case 'day': return `${year}-${pad(month + 1)}-${pad(date.getUTCDate())}`;
+        case 'week': {
+            const monday = new Date(time - ((date.getUTCDay() + 6) % 7) * 86_400_000);
+            return `${monday.getUTCFullYear()}-${pad(monday.getUTCMonth() + 1)}-${pad(monday.getUTCDate())}`;
+        }
+    }
+};
+
+const sortRows = (rows: any[], field: string, direction: 'asc' | 'desc') => {
+    const sign = direction === 'desc' ? -1 : 1;
+    // Missing values always go last.
+    return [...rows].sort((a, b) => {
+        const left = a?.[field];
+        const right = b?.[field];
+        if (isMissing(left) || isMissing(right)) return Number(isMissing(left)) - Number(isMissing(right));
+        return compareValues(left, right) * sign;
+    });
+};
+
+const applyStep = (rows: any[], step: TransformStep): any[] => {
+    switch (step.type) {
+        case 'filter':
+            return rows.filter(row => step.conditions.every(condition => matches(row, condition)));
+        case 'aggregate':
+            return aggregate(rows, step.groupBy, step.aggregations);
+        case 'pivot':
+            return pivot(rows, step.index, step.columns, step.values, step.op);
+        case 'unpivot':
+            return unpivot(rows, step.fields, step.keyName, step.valueName);
+        case 'sort':
+            return sortRows(rows, step.field, step.direction);
+        case 'topN':
+            return sortRows(rows.filter(row => !isMissing(row?.[step.field])), step.field, step.direction || 'desc').slice(0, Math.max(0, step.n));
+        case 'compute': {
+            const expression = parseExpression(step.expression);
+            return rows.map(row => ({ ...row, [step.as]: evaluateExpression(expression, row) }));
+        }
+        case 'dateBucket':
+            return rows.map(row => ({ ...row, [step.as || step.field]: bucketDate(row?.[step.field], step.unit) }));
+    }
+};
+
+export const applyTransform = (data: any[], steps?: TransformStep[]): any[] =>
+    steps && steps.length > 0 ? steps.reduce(applyStep, data) : data;
+
+export interface TransformResult {
+    rows: any[];
+    // The step that could not run, e.g. a computed field with an invalid expression. Rows are those before it.
+    failed: { index: number; message: string } | null;
+}
+
+// applyTransform for rendering: stops at a step that cannot run instead of throwing, so the chart stays up and
+// the problem can be shown next to it.
+export const runTransform = (data: any[], steps?: TransformStep[]): TransformResult => {
+    let rows = data;
+    for (const [index, step] of (steps || []).entries()) {
+        try {
+            rows = applyStep(rows, step);
+        } catch (err) {
+            if (!(err instanceof ExpressionError)) throw err;
+            return { rows, failed: { index, message: err.message } };
+        }
+    }
+    return { rows, failed: null };
+};
+
+const stepOutputFields = (fields: string[], step: TransformStep): string[] | null => {
+    const withField = (name: string) => fields.includes(name) ? fields : [...fields, name];
+    switch (step.type) {
+        case 'aggregate': return [...step.groupBy, ...step.aggregations.map(outputName)];
+        case 'pivot': return null;
+        case 'unpivot': return [...fields.filter(field => !step.fields.includes(field)), step.keyName, step.valueName];
+        case 'compute': return withField(step.as);
+        case 'dateBucket': return withField(step.as || step.field);
+        default: return fields;
+    }
+};
+
+// Columns available after the steps run, starting from the dataset's own columns. Null when they depend
+// on the data itself (a pivot creates one column per distinct value); use columnsOf on the result then.
+export const transformedFields = (fields: string[], steps?: TransformStep[]): string[] | null =>
+    (steps || []).reduce<string[] | null>((current, step) => current && stepOutputFields(current, step), fields);
+
+export const columnsOf = (rows: any[]): string[] => {
+    const columns = new Set<string>();
+    rows.slice(0, COLUMN_SCAN_ROWS).forEach(row => Object.keys(row || {}).forEach(key => columns.add(key)));
+    return Array.from(columns);
+};
+
+// Returns human-readable issues (also fed back to the model) for steps that reference unknown columns or are
+// malformed. Column checks stop after a pivot, whose output columns are only known once it has run.
+export function validateTransform(steps: unknown, fields: string[], path = 'transform'): string[] {
+    if (steps === undefined || steps === null) return [];
+    if (!Array.isArray(steps)) return [`${path}: expected an array of steps`];
+
+    const issues: string[] = [];
+    let available: string[] | null = fields;
+    const checkField = (field: unknown, where: string) => {
+        if (typeof field !== 'string' || field === '') {
+            issues.push(`${where}: a column name is required`);
+        } else if (available && !available.includes(field)) {
+            issues.push(`${where}: "${field}" is not a column at this point (available: ${available.join(', ')})`);
+        }
+    };
+    const checkName = (name: unknown, where: string) => {
+        if (typeof name !== 'string' || name.trim() === '') issues.push(`${where}: a column name is required`);
+    };
+    const checkDirection = (direction: unknown, where: string) => {
+        if (direction !== 'asc' && direction !== 'desc') issues.push(`${where}: must be "asc" or "desc"`);
+    };
+
+    steps.forEach((step: any, i) => {
+        const where = `${path}[${i}]`;
+        const before = issues.length;
+        if (!step || !TRANSFORM_STEP_TYPES.includes(step.type)) {
+            issues.push(`${where}.type: must be one of ${TRANSFORM_STEP_TYPES.join(', ')}`);
+            return;
+        }
+        switch (step.type) {
+            case 'filter':
+                if (!Array.isArray(step.conditions) || step.conditions.length === 0) {
+                    issues.push(`${where}.conditions: at least one condition is required`);
+                    break;
+                }
+                step.conditions.forEach((condition: any, j: number) => {
+                    checkField(condition?.field, `${where}.conditions[${j}].field`);
+                    if (!FILTER_OPERATORS.includes(condition?.operator)) {
+                        issues.push(`${where}.conditions[${j}].operator: must be one of ${FILTER_OPERATORS.join(', ')}`);
+                    }
+                    if (isMissing(condition?.value)) issues.push(`${where}.conditions[${j}].value: required`);
+                });
+                break;
+            case 'aggregate':
+                if (!Array.isArray(step.groupBy) || !Array.isArray(step.aggregations) || step.aggregations.length === 0) {
+                    issues.push(`${where}: groupBy must be an array and aggregations a non-empty array`);
+                    break;
+                }
+                step.groupBy.forEach((field: unknown, j: number) => checkField(field, `${where}.groupBy[${j}]`));
+                step.aggregations.forEach((aggregation: any, j: number) => {
+                    checkField(aggregation?.field, `${where}.aggregations[${j}].field`);
+                    if (!AGGREGATE_OPERATIONS.includes(aggregation?.op)) {
+                        issues.push(`${where}.aggregations[${j}].op: must be one of ${AGGREGATE_OPERATIONS.join(', ')}`);
+                    }
+                });
+                break;
+            case 'pivot':
+                if (!Array.isArray(step.index)) {
+                    issues.push(`${where}.index: expected an array of columns`);
+                    break;
+                }
+                step.index.forEach((field: unknown, j: number) => checkField(field, `${where}.index[${j}]`));
+                checkField(step.columns, `${where}.columns`);
+                checkField(step.values, `${where}.values`);
+                if (!AGGREGATE_OPERATIONS.includes(step.op)) issues.push(`${where}.op: must be one of ${AGGREGATE_OPERATIONS.join(', ')}`);
+                break;
+            case 'unpivot':
+                if (!Array.isArray(step.fields) || step.fields.length === 0) {
+                    issues.push(`${where}.fields: at least one column is required`);
+                    break;
+                }
+                step.fields.forEach((field: unknown, j: number) => checkField(field, `${where}.fields[${j}]`));
+                checkName(step.keyName, `${where}.keyName`);
+                checkName(step.valueName, `${where}.valueName`);
+                break;
+            case 'sort':
+                checkField(step.field, `${where}.field`);
+                checkDirection(step.direction, `${where}.direction`);
+                break;
+            case 'topN':
+                checkField(step.field, `${where}.field`);
+                checkDirection(step.direction, `${where}.direction`);
+                if (!Number.isInteger(step.n) || step.n < 1) issues.push(`${where}.n: must be a positive whole number`);
+                break;
+            case 'compute':
+                checkName(step.as, `${where}.as`);
+                try {
+                    referencedFields(parseExpression(String(step.expression ?? ''))).forEach(field => checkField(field, `${where}.expression`));
+                } catch (err) {
+                    if (!(err instanceof ExpressionError)) throw err;
+                    issues.push(`${where}.expression: ${err.message}`);
+                }
+                break;
+            case 'dateBucket':
+                checkField(step.field, `${where}.field`);
+                if (!DATE_BUCKET_UNITS.includes(step.unit)) issues.push(`${where}.unit: must be one of ${DATE_BUCKET_UNITS.join(', ')}`);
+                break;
+        }
+        if (available && issues.length === before) available = stepOutputFields(available, step);
+    });
+    return issues;
+}
@@ -0,0 +1,69 @@
+// Thrown when the model keeps answering with JSON that does not match the expected schema,
+// even after being asked to repair it.
+export class AiResponseValidationError extends Error {
+    readonly issues: string[];
+    readonly attempts: number;
+
+    constructor(issues: string[], attempts: number) {
+        super(`The AI response did not match the expected format after ${attempts} attempt(s): ${issues.join('; ')}`);
+        this.name = 'AiResponseValidationError';
+        this.issues = issues;
+        this.attempts = attempts;
+    }
+}
+
+export type AiRequestErrorKind = 'auth' | 'rateLimit' | 'timeout' | 'network' | 'server' | 'badResponse';
+
+// Thrown by the provider request layer, classified so the panels can show a translated explanation.
+export class AiRequestError extends Error {
+    readonly kind: AiRequestErrorKind;
+    readonly status?: number;
+    // Delay requested by the server through the Retry-After header.
+    readonly retryAfterMs?: number;
+
+    constructor(kind: AiRequestErrorKind, message: string, options: { status?: number; retryAfterMs?: number } = {}) {
+        super(message);
+        this.name = 'AiRequestError';
+        this.kind = kind;
+        this.status = options.status;
+        this.retryAfterMs = options.retryAfterMs;
+    }
+
+    // Rate limits and server-side failures are usually transient.
+    get retryable(): boolean {
+        return this.kind === 'rateLimit' || this.kind === 'server';
+    }
+
+    static fromStatus(status: number, message: string, retryAfterMs?: number): AiRequestError {
+        const kind: AiRequestErrorKind =
+            status === 401 || status === 403 ? 'auth'
+            : status === 429 ? 'rateLimit'
+            : status === 408 ? 'timeout'
+            : status >= 500 ? 'server'
+            : 'badResponse';
+        return new AiRequestError(kind, message, { status, retryAfterMs });
+    }
+}
+
+export const createAbortError = () => new DOMException('The operation was cancelled.', 'AbortError');
+
+// Cancelled fetches, workers and SDK calls all surface as an error named AbortError.
+export const isAbortError = (err: unknown) => (err as { name?: string } | null)?.name === 'AbortError';
+
+type Translate = (key: string, replacements?: { [key: string]: string }) => string;
+
+export interface ErrorDescription {
+    message: string;
+    details: string[];
+}
+
+// Turns anything thrown by the services into a translated message plus optional details for the panels.
+export const describeError = (err: unknown, t: Translate): ErrorDescription => {
+    if (err instanceof AiResponseValidationError) {
+        return { message: t('errors.invalidAiResponse', { attempts: String(err.attempts) }), details: err.issues };
+    }
+    if (err instanceof AiRequestError) {
+        return { message: t(`errors.request.${err.kind}`), details: [err.message] };
+    }
+    return { message: err instanceof Error ? err.message : t('errors.unknown'), details: [] };
+};
@@ -0,0 +1,39 @@
+import type { ExtractedDataSeries } from '../types';
+import { columnLabel } from './dataSeries';
+
+declare const XLSX: any;
+declare const Papa: any;
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+    const downloadUrl = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = downloadUrl;
+    a.download = fileName;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(downloadUrl);
+};
+
+const seriesToTable = (series: ExtractedDataSeries) => [
+    series.columns.map(columnLabel),
+    ...series.rows.map(row => row.map(cell => cell ?? '')),
+];
+
+export const exportSeriesAsCsv = (series: ExtractedDataSeries, baseName: string) => {
+    const csv = Papa.unparse(seriesToTable(series));
+    // Prepend a BOM so Excel opens non-ASCII column names correctly.
+    downloadBlob(new Blob(['\uFEFF' + csv], { type: 'text/csv;charset=utf-8' }), `${baseName}.csv`);
+};
+
+export const exportSeriesAsJson = (series: ExtractedDataSeries, baseName: string) => {
+    const json = JSON.stringify(series, null, 2);
+    downloadBlob(new Blob([json], { type: 'application/json;charset=utf-8' }), `${baseName}.json`);
+};
+
+export const exportSeriesAsXlsx = (series: ExtractedDataSeries, baseName: string) => {
+    const worksheet = XLSX.utils.aoa_to_sheet(seriesToTable(series));
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, worksheet, 'Data');
+    XLSX.writeFile(workbook, `${baseName}.xlsx`);
+};
@@ -0,0 +1,14 @@
+import { describe, expect, it } from 'vitest';
+import { ExpressionError, evaluateExpression, parseExpression } from './expression';
+
+describe('parseExpression', () => {
+    it('evaluates function calls', () => {
+        expect(evaluateExpression(parseExpression('round(price * 1.5, 1) + max(a, b)'), { price: 3, a: 1, b: 2 })).toBe(6.5);
+    });
+
+    it('rejects Object.prototype members as unknown functions', () => {
+        for (const name of ['constructor', '__proto__', 'toString', 'hasOwnProperty']) {
+            expect(() => parseExpression(`${name}(1)`)).toThrow(ExpressionError);
+        }
+    });
+});
@@ -0,0 +1,193 @@
+import { parseCellValue } from './dataSeries';
+
+// A small arithmetic language for computed columns, parsed into a tree and interpreted row by row so
+// expressions written by the model or the user are never executed as code.
+//
+//   expression := term (('+' | '-') term)*
+//   term       := unary (('*' | '/' | '%') unary)*
+//   unary      := '-' unary | primary
+//   primary    := number | field | function '(' expression (',' expression)* ')' | '(' expression ')'
+//   field      := identifier | '[' any text except ']' ']'
+
+export type ExpressionNode =
+    | { kind: 'number'; value: number }
+    | { kind: 'field'; name: string }
+    | { kind: 'negate'; operand: ExpressionNode }
+    | { kind: 'binary'; operator: '+' | '-' | '*' | '/' | '%'; left: ExpressionNode; right: ExpressionNode }
+    | { kind: 'call'; name: string; args: ExpressionNode[] };
+
+type Token =
+    | { type: 'number'; value: number }
+    | { type: 'identifier'; value: string }
+    | { type: 'field'; value: string }
+    | { type: 'symbol'; value: string };
+
+const FUNCTIONS: { [name: string]: { arity: [number, number]; apply: (...args: number[]) => number } } = {
+    abs: { arity: [1, 1], apply: Math.abs },
+    round: { arity: [1, 2], apply: (value, digits = 0) => Math.round(value * 10 ** digits) / 10 ** digits },
+    floor: { arity: [1, 1], apply: Math.floor },
+    ceil: { arity: [1, 1], apply: Math.ceil },
+    sqrt: { arity: [1, 1], apply: Math.sqrt },
+    log: { arity: [1, 1], apply: Math.log },
+    pow: { arity: [2, 2], apply: Math.pow },
+    min: { arity: [1, Infinity], apply: Math.min },
+    max: { arity: [1, Infinity], apply: Math.max },
+};
+
+export const EXPRESSION_FUNCTIONS = Object.keys(FUNCTIONS);
+
+// Own properties only, so names like "constructor" are unknown functions rather than Object.prototype members.
+const lookupFunction = (name: string) => Object.hasOwn(FUNCTIONS, name) ? FUNCTIONS[name] : undefined;
+
+export class ExpressionError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ExpressionError';
+    }
+}
+
+const tokenize = (source: string): Token[] => {
+    const tokens: Token[] = [];
+    let i = 0;
+    while (i < source.length) {
+        const char = source[i];
+        if (/\s/.test(char)) {
+            i++;
+        } else if (/[\d.]/.test(char)) {
+            const match = /^(\d+\.?\d*|\.\d+)(e[-+]?\d+)?/i.exec(source.slice(i));
+            if (!match) throw new ExpressionError(`Unexpected "${char}" at position ${i + 1}.`);
+            tokens.push({ type: 'number', value: Number(match[0]) });
+            i += match[0].length;
+        } else if (/[A-Za-z_]/.test(char)) {
+            const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i))!;
+            tokens.push({ type: 'identifier', value: match[0] });
+            i += match[0].length;
+        } else if (char === '[') {
+            const end = source.indexOf(']', i);
+            if (end < 0) throw new ExpressionError(`Missing "]" for the field name starting at position ${i + 1}.`);
+            tokens.push({ type: 'field', value: source.slice(i + 1, end) });
+            i = end + 1;
+        } else if ('+-*/%(),'.includes(char)) {
+            tokens.push({ type: 'symbol', value: char });
+            i++;
+        } else {
+            throw new ExpressionError(`Unexpected "${char}" at position ${i + 1}.`);
+        }
+    }
+    return tokens;
+};
+
+export function parseExpression(source: string): ExpressionNode {
+    const tokens = tokenize(source);
+    let position = 0;
+    const peek = () => tokens[position];
+    const isSymbol = (value: string) => peek()?.type === 'symbol' && peek().value === value;
+    const expect = (value: string) => {
+        if (!isSymbol(value)) throw new ExpressionError(`Expected "${value}".`);
+        position++;
+    };
+
+    const primary = (): ExpressionNode => {
+        const token = peek();
+        if (!token) throw new ExpressionError('The expression ends unexpectedly.');
+        position++;
+        if (token.type === 'number') return { kind: 'number', value: token.value };
+        if (token.type === 'field') return { kind: 'field', name: token.value };
+        if (token.type === 'identifier') {
+            if (!isSymbol('(')) return { kind: 'field', name: token.value };
+            const fn = lookupFunction(token.value.toLowerCase());
+            if (!fn) throw new ExpressionError(`Unknown function "${token.value}" (available: ${EXPRESSION_FUNCTIONS.join(', ')}).`);
+            position++;
+            const args = [expression()];
+            while (isSymbol(',')) {
+                position++;
+                args.push(expression());
+            }
+            expect(')');
+            if (args.length < fn.arity[0] || args.length > fn.arity[1]) {
+                throw new ExpressionError(`Wrong number of arguments for ${token.value}().`);
+            }
+            return { kind: 'call', name: token.value.toLowerCase(), args };
+        }
+        if (token.value === '(') {
+            const inner = expression();
+            expect(')');
+            return inner;
+        }
+        throw new ExpressionError(`Unexpected "${token.value}".`);
+    };
+
+    const unary = (): ExpressionNode => {
+        if (isSymbol('-')) {
+            position++;
+            return { kind: 'negate', operand: unary() };
+        }
+        return primary();
+    };
+
+    const binary = (operand: () => ExpressionNode, operators: string[]) => (): ExpressionNode => {
+        let left = operand();
+        while (peek()?.type === 'symbol' && operators.includes(String(peek().value))) {
+            const operator = tokens[position++].value as '+' | '-' | '*' | '/' | '%';
+            left = { kind: 'binary', operator, left, right: operand() };
+        }
+        return left;
+    };
+
+    const term = binary(unary, ['*', '/', '%']);
+    const expression = binary(term, ['+', '-']);
+
+    if (tokens.length === 0) throw new ExpressionError('The expression is empty.');
+    const tree = expression();
+    if (position < tokens.length) throw new ExpressionError(`Unexpected "${String(tokens[position].value)}".`);
+    return tree;
+}
+
+export const referencedFields = (node: ExpressionNode): string[] => {
+    switch (node.kind) {
+        case 'number': return [];
+        case 'field': return [node.name];
+        case 'negate': return referencedFields(node.operand);
+        case 'binary': return [...referencedFields(node.left), ...referencedFields(node.right)];
+        case 'call': return node.args.flatMap(referencedFields);
+    }
+};
+
+// Missing or non-numeric inputs, division by zero and other undefined results give null.
+export const evaluateExpression = (node: ExpressionNode, row: any): number | null => {
+    const evaluate = (current: ExpressionNode): number | null => {
+        switch (current.kind) {
+            case 'number':
+                return current.value;
+            case 'field': {
+                const value = parseCellValue(row?.[current.name]);
+                return typeof value === 'number' ? value : null;
+            }
+            case 'negate': {
+                const value = evaluate(current.operand);
+                return value === null ? null : -value;
+            }
+            case 'binary': {
+                const left = evaluate(current.left);
+                const right = evaluate(current.right);
+                if (left === null || right === null) return null;
+                switch (current.operator) {
+                    case '+': return left + right;
+                    case '-': return left - right;
+                    case '*': return left * right;
+                    case '/': return right === 0 ? null : left / right;
+                    case '%': return right === 0 ? null : left % right;
+                }
+            }
+            case 'call': {
+                const args = current.args.map(evaluate);
+                if (args.some(arg => arg === null)) return null;
+                const fn = lookupFunction(current.name);
+                if (!fn) throw new ExpressionError(`Unknown function "${current.name}".`);
+                const result = fn.apply(...(args as number[]));
+                return Number.isFinite(result) ? result : null;
+            }
+        }
+    };
+    return evaluate(node);
+};
@@ -0,0 +1,82 @@
+import { Mode } from '../types';
+import type { HistoryEntry } from '../types';
+
+export type DiffLineType = 'same' | 'added' | 'removed';
+
+export interface DiffLine {
+    type: DiffLineType;
+    text: string;
+}
+
+export interface FieldComparison {
+    // Translation key of the field label.
+    labelKey: string;
+    left: string;
+    right: string;
+    changed: boolean;
+}
+
+// Line-based diff from the longest common subsequence; result texts are at most a few thousand lines.
+export function diffLines(before: string, after: string): DiffLine[] {
+    const a = before.split('\n');
+    const b = after.split('\n');
+    const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+
+    const lines: DiffLine[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+        if (a[i] === b[j]) {
+            lines.push({ type: 'same', text: a[i] });
+            i++;
+            j++;
+        } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+            lines.push({ type: 'removed', text: a[i++] });
+        } else {
+            lines.push({ type: 'added', text: b[j++] });
+        }
+    }
+    while (i < a.length) lines.push({ type: 'removed', text: a[i++] });
+    while (j < b.length) lines.push({ type: 'added', text: b[j++] });
+    return lines;
+}
+
+// Versions are compared by the recorded template hash when both runs have one, since the same custom version id
+// can name different texts in different browsers.
+const promptField = (left: HistoryEntry, right: HistoryEntry): FieldComparison => {
+    const label = (entry: HistoryEntry) => entry.promptHash ? `${entry.promptVersion} · ${entry.promptHash.slice(0, 8)}` : entry.promptVersion;
+    const changed = left.promptHash && right.promptHash ? left.promptHash !== right.promptHash : left.promptVersion !== right.promptVersion;
+    return { labelKey: 'history.fields.promptVersion', left: label(left), right: label(right), changed };
+};
+
+export function compareRunMetadata(left: HistoryEntry, right: HistoryEntry): FieldComparison[] {
+    const field = (labelKey: string, l: string, r: string): FieldComparison => ({ labelKey, left: l, right: r, changed: l !== r });
+    return [
+        field('history.fields.source', left.sourceName, right.sourceName),
+        field('history.fields.fingerprint', left.fingerprint.slice(0, 12), right.fingerprint.slice(0, 12)),
+        field('history.fields.provider', left.provider, right.provider),
+        field('history.fields.model', left.model || '-', right.model || '-'),
+        promptField(left, right),
+        field('history.fields.createdAt', new Date(left.createdAt).toLocaleString(), new Date(right.createdAt).toLocaleString()),
+    ];
+}
+
+// Flattens a result into text, one item per line, so two runs can be compared with diffLines.
+export function describeResult(entry: HistoryEntry): string {
+    if (entry.mode === Mode.DATA_TO_GRAPH) {
+        const recommendations = entry.recommendations.map((rec, i) =>
+            `#${i + 1} ${rec.title} [${rec.chartType}]\n${rec.reason}\n${JSON.stringify(rec.config)}`);
+        return [entry.dataAnalysis, '', ...recommendations].join('\n');
+    }
+
+    const table = entry.series
+        ? [entry.series.columns.map(column => column.unit ? `${column.name} (${column.unit})` : column.name).join('\t'),
+            ...entry.series.rows.map(row => row.map(cell => cell ?? '').join('\t'))]
+        : [];
+    return [...table, '', entry.report].join('\n');
+}
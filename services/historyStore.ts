@@ -0,0 +1,194 @@
+import type { HistoryEntry, HistorySummary, ProviderConfig, RunMetadata } from '../types';
+import type { ResolvedPrompt } from './promptTemplates';
+import { getModelName } from './providers';
+
+// Past runs of both panels, kept in IndexedDB so they survive reloads. Entries can hold whole datasets
+// and images, which would not fit in localStorage; a small summary of each is kept in a second store for listing.
+
+const DB_NAME = 'clarity-canvas';
+const DB_VERSION = 2;
+const STORE = 'history';
+const SUMMARY_STORE = 'historySummaries';
+
+// The oldest runs are evicted beyond this many, so stored datasets cannot grow without bound.
+export const MAX_HISTORY_ENTRIES = 100;
+
+// Only the start of very large inputs is hashed; the byte size is mixed in so truncated files still differ.
+const FINGERPRINT_BYTES = 16 * 1024 * 1024;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const promisify = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                reject(new Error('IndexedDB is not available in this browser.'));
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = event => {
+                const db = request.result;
+                if (event.oldVersion < 1) {
+                    db.createObjectStore(STORE, { keyPath: 'id' }).createIndex('createdAt', 'createdAt');
+                }
+                if (event.oldVersion < 2) {
+                    const summaries = db.createObjectStore(SUMMARY_STORE, { keyPath: 'id' });
+                    summaries.createIndex('createdAt', 'createdAt');
+                    // Entries saved before summaries existed get one now.
+                    const cursorRequest = request.transaction!.objectStore(STORE).openCursor();
+                    cursorRequest.onsuccess = () => {
+                        const cursor = cursorRequest.result;
+                        if (!cursor) return;
+                        summaries.put(toSummary(cursor.value));
+                        cursor.continue();
+                    };
+                }
+            };
+            request.onsuccess = () => {
+                // Step aside when a newer version of the app in another tab needs to upgrade the database.
+                request.result.onversionchange = () => {
+                    request.result.close();
+                    dbPromise = null;
+                };
+                resolve(request.result);
+            };
+            request.onerror = () => reject(request.error);
+        });
+        // Let a later call retry after a failed open (e.g. blocked by private browsing).
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+};
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await openDatabase();
+    return promisify(run(db.transaction(STORE, mode).objectStore(STORE)));
+};
+
+// Runs changes to entries and their summaries in one transaction, resolving once it commits.
+const withBothStores = async (run: (entries: IDBObjectStore, summaries: IDBObjectStore) => void): Promise<void> => {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction([STORE, SUMMARY_STORE], 'readwrite');
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error || new Error('The history update was aborted.'));
+        run(transaction.objectStore(STORE), transaction.objectStore(SUMMARY_STORE));
+    });
+};
+
+const toSummary = (entry: HistoryEntry): HistorySummary => ({
+    id: entry.id,
+    mode: entry.mode,
+    name: entry.name,
+    createdAt: entry.createdAt,
+    fingerprint: entry.fingerprint,
+    sourceName: entry.sourceName,
+    provider: entry.provider,
+    model: entry.model,
+    promptVersion: entry.promptVersion,
+    ...(entry.promptHash ? { promptHash: entry.promptHash } : {}),
+});
+
+const toHex = (buffer: ArrayBuffer) => Array.from(new Uint8Array(buffer), b => b.toString(16).padStart(2, '0')).join('');
+
+export async function fingerprintBlob(blob: Blob): Promise<string> {
+    const head = await blob.slice(0, FINGERPRINT_BYTES).arrayBuffer();
+    const size = new TextEncoder().encode(`:${blob.size}`);
+    const bytes = new Uint8Array(head.byteLength + size.byteLength);
+    bytes.set(new Uint8Array(head), 0);
+    bytes.set(size, head.byteLength);
+    return toHex(await crypto.subtle.digest('SHA-256', bytes));
+}
+
+export const fingerprintText = async (text: string) =>
+    toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text)));
+
+// Custom version ids are numbered per browser, so the template text and its hash are recorded as well.
+export const createRunMetadata = async (providerConfig: ProviderConfig, prompt: ResolvedPrompt, fingerprint: string, sourceName: string): Promise<RunMetadata> => ({
+    fingerprint,
+    sourceName,
+    provider: providerConfig.provider,
+    model: getModelName(providerConfig),
+    promptVersion: prompt.version,
+    promptHash: await fingerprintText(prompt.text),
+    promptText: prompt.text,
+});
+
+export const createHistoryId = () =>
+    typeof crypto.randomUUID === 'function' ? crypto.randomUUID() : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+// Newest first. Only summaries are read; load an entry with getHistoryEntry to reopen or compare it.
+export async function listHistory(): Promise<HistorySummary[]> {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const summaries: HistorySummary[] = [];
+        const request = db.transaction(SUMMARY_STORE, 'readonly').objectStore(SUMMARY_STORE).index('createdAt').openCursor(null, 'prev');
+        request.onsuccess = () => {
+            const cursor = request.result;
+            if (!cursor) {
+                resolve(summaries);
+                return;
+            }
+            summaries.push(cursor.value);
+            cursor.continue();
+        };
+        request.onerror = () => reject(request.error);
+    });
+}
+
+export const getHistoryEntry = (id: string) =>
+    withStore<HistoryEntry | undefined>('readonly', store => store.get(id));
+
+// Saves the entry and evicts the oldest ones beyond MAX_HISTORY_ENTRIES.
+export async function saveHistoryEntry(entry: HistoryEntry): Promise<void> {
+    await withBothStores((entries, summaries) => {
+        entries.put(entry);
+        summaries.put(toSummary(entry));
+        const countRequest = summaries.count();
+        countRequest.onsuccess = () => {
+            let excess = countRequest.result - MAX_HISTORY_ENTRIES;
+            if (excess <= 0) return;
+            const cursorRequest = summaries.index('createdAt').openCursor();
+            cursorRequest.onsuccess = () => {
+                const cursor = cursorRequest.result;
+                if (!cursor || excess <= 0) return;
+                entries.delete(cursor.primaryKey);
+                cursor.delete();
+                excess--;
+                cursor.continue();
+            };
+        };
+    });
+}
+
+// Stores a finished run without waiting for it. History is a convenience, so a failed save is logged rather than
+// failing the run.
+export const recordHistoryEntry = (entry: HistoryEntry): void => {
+    saveHistoryEntry(entry).catch(err => console.error('Failed to save the run to history', err));
+};
+
+export async function renameHistoryEntry(id: string, name: string): Promise<void> {
+    await withBothStores((entries, summaries) => {
+        const entryRequest = entries.get(id);
+        entryRequest.onsuccess = () => {
+            if (entryRequest.result) entries.put({ ...entryRequest.result, name });
+        };
+        const summaryRequest = summaries.get(id);
+        summaryRequest.onsuccess = () => {
+            if (summaryRequest.result) summaries.put({ ...summaryRequest.result, name });
+        };
+    });
+}
+
+export async function deleteHistoryEntry(id: string): Promise<void> {
+    await withBothStores((entries, summaries) => {
+        entries.delete(id);
+        summaries.delete(id);
+    });
+}
@@ -0,0 +1,12 @@
+// Base64 payload (without the data: prefix) of an image, as the providers expect it.
+export const blobToBase64 = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.readAsDataURL(blob);
+    reader.onload = () => resolve((reader.result as string).split(',')[1]);
+    reader.onerror = (error) => reject(error);
+  });
+
+export const IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/gif'];
+
+export const isImageFile = (file: File) => IMAGE_TYPES.includes(file.type);
@@ -0,0 +1,180 @@
+import type { ImageLimits } from './providers';
+
+// Canvas pre-processing applied to an image before it is sent to a vision model. Steps run in a fixed order:
+// crop (in the original image), rotate, scale, then pixel adjustments.
+
+export interface ImageAdjustments {
+    // Fractions of the original image; null keeps the whole image.
+    crop: { x: number; y: number; width: number; height: number } | null;
+    // Degrees clockwise.
+    rotation: number;
+    // Enlarges small screenshots so thin lines and small labels survive the model's own resizing.
+    upscale: number;
+    // -100 (flat) to 100 (harsh); 0 leaves the image unchanged.
+    contrast: number;
+    grayscale: boolean;
+    // Luma cut-off (0-255) that turns the image black and white; null disables it.
+    threshold: number | null;
+}
+
+export const DEFAULT_ADJUSTMENTS: ImageAdjustments = {
+    crop: null,
+    rotation: 0,
+    upscale: 1,
+    contrast: 0,
+    grayscale: false,
+    threshold: null,
+};
+
+export const UPSCALE_FACTORS = [1, 1.5, 2, 3];
+
+export interface ProcessedImage {
+    blob: Blob;
+    width: number;
+    height: number;
+}
+
+export const hasAdjustments = (adjustments: ImageAdjustments) =>
+    JSON.stringify(adjustments) !== JSON.stringify(DEFAULT_ADJUSTMENTS);
+
+const JPEG_QUALITIES = [0.92, 0.85, 0.75, 0.6];
+const DESKEW_SAMPLE_WIDTH = 400;
+
+type Pixels = { width: number; height: number; data: Uint8ClampedArray };
+
+const luma = (data: Uint8ClampedArray, i: number) => 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+
+// Contrast, grayscale and threshold, in place.
+export function adjustPixels(image: Pixels, { contrast, grayscale, threshold }: Pick<ImageAdjustments, 'contrast' | 'grayscale' | 'threshold'>): void {
+    const c = Math.max(-100, Math.min(100, contrast)) * 2.55;
+    const factor = (259 * (c + 255)) / (255 * (259 - c));
+    const { data } = image;
+    for (let i = 0; i < data.length; i += 4) {
+        if (contrast !== 0) {
+            for (let channel = 0; channel < 3; channel++) {
+                data[i + channel] = factor * (data[i + channel] - 128) + 128;
+            }
+        }
+        if (threshold !== null) {
+            const value = luma(data, i) >= threshold ? 255 : 0;
+            data[i] = data[i + 1] = data[i + 2] = value;
+        } else if (grayscale) {
+            const value = luma(data, i);
+            data[i] = data[i + 1] = data[i + 2] = value;
+        }
+    }
+}
+
+// Finds the small rotation that makes the image's dark lines (axes, gridlines, text rows) horizontal, by trying
+// angles and keeping the one whose row profile of dark pixels is most sharply peaked. Returns degrees to rotate by.
+export function estimateDeskewAngle(image: Pixels, maxAngle = 15, step = 0.25): number {
+    const points: [number, number][] = [];
+    for (let y = 0; y < image.height; y++) {
+        for (let x = 0; x < image.width; x++) {
+            if (luma(image.data, (y * image.width + x) * 4) < 128) points.push([x - image.width / 2, y - image.height / 2]);
+        }
+    }
+    if (points.length === 0) return 0;
+
+    const diagonal = Math.ceil(Math.hypot(image.width, image.height));
+    let best = { angle: 0, score: -1 };
+    for (let angle = -maxAngle; angle <= maxAngle + 1e-9; angle += step) {
+        const radians = (angle * Math.PI) / 180;
+        const sin = Math.sin(radians);
+        const cos = Math.cos(radians);
+        const rows = new Float64Array(diagonal + 1);
+        for (const [x, y] of points) {
+            rows[Math.round(-x * sin + y * cos + diagonal / 2)]++;
+        }
+        let score = 0;
+        for (const count of rows) score += count * count;
+        // Prefer the smaller correction on ties.
+        if (score > best.score + 1e-9 || (Math.abs(score - best.score) <= 1e-9 && Math.abs(angle) < Math.abs(best.angle))) {
+            best = { angle, score };
+        }
+    }
+    return Math.round(-best.angle * 100) / 100 || 0;
+}
+
+const loadBitmap = (blob: Blob) => createImageBitmap(blob);
+
+const toBlob = (canvas: HTMLCanvasElement, type: string, quality?: number) =>
+    new Promise<Blob>((resolve, reject) =>
+        canvas.toBlob(result => (result ? resolve(result) : reject(new Error('Image encoding failed.'))), type, quality)
+    );
+
+// Images are sent base64-encoded, which takes four characters for every three bytes.
+const encodedSize = (blob: Blob) => Math.ceil(blob.size / 3) * 4;
+
+// Draws the cropped, rotated source into a canvas of the given scale, on white so transparent areas stay light.
+const render = (bitmap: ImageBitmap, adjustments: ImageAdjustments, scaleFor: (width: number, height: number) => number) => {
+    const crop = adjustments.crop || { x: 0, y: 0, width: 1, height: 1 };
+    const sx = crop.x * bitmap.width;
+    const sy = crop.y * bitmap.height;
+    const sw = Math.max(1, crop.width * bitmap.width);
+    const sh = Math.max(1, crop.height * bitmap.height);
+
+    const radians = (adjustments.rotation * Math.PI) / 180;
+    const rotatedWidth = Math.abs(sw * Math.cos(radians)) + Math.abs(sh * Math.sin(radians));
+    const rotatedHeight = Math.abs(sw * Math.sin(radians)) + Math.abs(sh * Math.cos(radians));
+    const scale = scaleFor(rotatedWidth, rotatedHeight);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(rotatedWidth * scale));
+    canvas.height = Math.max(1, Math.round(rotatedHeight * scale));
+    const ctx = canvas.getContext('2d')!;
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.imageSmoothingEnabled = true;
+    ctx.imageSmoothingQuality = 'high';
+    ctx.translate(canvas.width / 2, canvas.height / 2);
+    ctx.rotate(radians);
+    ctx.scale(scale, scale);
+    ctx.drawImage(bitmap, sx, sy, sw, sh, -sw / 2, -sh / 2, sw, sh);
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+
+    if (adjustments.contrast !== 0 || adjustments.grayscale || adjustments.threshold !== null) {
+        const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+        adjustPixels(pixels, adjustments);
+        ctx.putImageData(pixels, 0, 0);
+    }
+    return canvas;
+};
+
+// Applies the adjustments and fits the result within the provider's limits. An unadjusted image that already
+// fits is returned as it is, so it is not re-encoded.
+export async function prepareImage(source: Blob, adjustments: ImageAdjustments, limits: ImageLimits): Promise<ProcessedImage> {
+    const bitmap = await loadBitmap(source);
+    try {
+        const fits = Math.max(bitmap.width, bitmap.height) <= limits.maxDimension && encodedSize(source) <= limits.maxBytes;
+        if (!hasAdjustments(adjustments) && fits) {
+            return { blob: source, width: bitmap.width, height: bitmap.height };
+        }
+
+        let maxDimension = limits.maxDimension;
+        for (let attempt = 0; attempt < 4; attempt++) {
+            const canvas = render(bitmap, adjustments, (width, height) => Math.min(adjustments.upscale, maxDimension / Math.max(width, height)));
+            const png = await toBlob(canvas, 'image/png');
+            if (encodedSize(png) <= limits.maxBytes) return { blob: png, width: canvas.width, height: canvas.height };
+            for (const quality of JPEG_QUALITIES) {
+                const jpeg = await toBlob(canvas, 'image/jpeg', quality);
+                if (encodedSize(jpeg) <= limits.maxBytes) return { blob: jpeg, width: canvas.width, height: canvas.height };
+            }
+            maxDimension = Math.round(Math.max(canvas.width, canvas.height) * 0.75);
+        }
+        throw new Error(`The image could not be reduced below ${Math.round(limits.maxBytes / 1024 / 1024)} MB.`);
+    } finally {
+        bitmap.close();
+    }
+}
+
+// Deskew angle for the crop of an image, measured on a small copy.
+export async function detectSkew(source: Blob, crop: ImageAdjustments['crop']): Promise<number> {
+    const bitmap = await loadBitmap(source);
+    try {
+        const canvas = render(bitmap, { ...DEFAULT_ADJUSTMENTS, crop }, width => Math.min(1, DESKEW_SAMPLE_WIDTH / width));
+        return estimateDeskewAngle(canvas.getContext('2d')!.getImageData(0, 0, canvas.width, canvas.height));
+    } finally {
+        bitmap.close();
+    }
+}
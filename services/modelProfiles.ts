@@ -0,0 +1,139 @@
+import type { GenerationParams, ModelConfig, ModelFeature, ModelProfile, ModelProfilesFile, ProviderConfig } from '../types';
+import { MODEL_PROVIDER_IDS } from '../types';
+import { isModelProviderType } from './providers';
+import { downloadBlob } from './exportService';
+
+// Named provider profiles: saved copies of a feature's provider settings that can be applied to either feature,
+// and shared between team members as a JSON file.
+
+// Ids are also used in credential slot names, so they must not contain dots.
+export const createProfileId = () => `profile-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const cloneConfig = (config: ProviderConfig): ProviderConfig => JSON.parse(JSON.stringify(config));
+
+// "Production" becomes "Production (2)" when that name is taken, and so on.
+export const uniqueProfileName = (name: string, profiles: ModelProfile[]): string => {
+    const taken = new Set(profiles.map(profile => profile.name));
+    if (!taken.has(name)) return name;
+    const base = name.replace(/ \(\d+\)$/, '');
+    let n = 2;
+    while (taken.has(`${base} (${n})`)) n++;
+    return `${base} (${n})`;
+};
+
+export const createProfile = (name: string, config: ProviderConfig, profiles: ModelProfile[]): ModelProfile => ({
+    id: createProfileId(),
+    name: uniqueProfileName(name.trim() || 'Profile', profiles),
+    config: cloneConfig(config),
+});
+
+export const duplicateProfile = (profile: ModelProfile, profiles: ModelProfile[]): ModelProfile =>
+    createProfile(profile.name, profile.config, profiles);
+
+// Makes the profile the feature's current settings.
+export const applyProfile = (config: ModelConfig, feature: ModelFeature, profile: ModelProfile): ModelConfig => ({
+    ...config,
+    [feature]: cloneConfig(profile.config),
+    activeProfileIds: { ...config.activeProfileIds, [feature]: profile.id },
+});
+
+export const upsertProfile = (config: ModelConfig, profile: ModelProfile): ModelConfig => {
+    const profiles = config.profiles || [];
+    return {
+        ...config,
+        profiles: profiles.some(existing => existing.id === profile.id)
+            ? profiles.map(existing => (existing.id === profile.id ? profile : existing))
+            : [...profiles, profile],
+    };
+};
+
+export const removeProfile = (config: ModelConfig, id: string): ModelConfig => {
+    const activeProfileIds = { ...config.activeProfileIds };
+    (Object.keys(activeProfileIds) as ModelFeature[]).forEach(feature => {
+        if (activeProfileIds[feature] === id) delete activeProfileIds[feature];
+    });
+    return { ...config, profiles: (config.profiles || []).filter(profile => profile.id !== id), activeProfileIds };
+};
+
+// Whether the feature's settings have been edited since they were taken from the profile.
+export const differsFromProfile = (config: ProviderConfig, profile: ModelProfile) =>
+    JSON.stringify(config) !== JSON.stringify(profile.config);
+
+const stripKeys = (config: ProviderConfig): ProviderConfig => {
+    const stripped = cloneConfig(config);
+    for (const provider of MODEL_PROVIDER_IDS) {
+        const connection = stripped[provider];
+        if (connection) connection.apiKey = '';
+    }
+    return stripped;
+};
+
+export function exportProfiles(profiles: ModelProfile[], includeKeys: boolean): void {
+    const file: ModelProfilesFile = {
+        version: 1,
+        kind: 'model-profiles',
+        exportedAt: new Date().toISOString(),
+        includesKeys: includeKeys,
+        profiles: profiles.map(profile => ({ ...profile, config: includeKeys ? cloneConfig(profile.config) : stripKeys(profile.config) })),
+    };
+    const json = JSON.stringify(file, null, 2);
+    downloadBlob(new Blob([json], { type: 'application/json;charset=utf-8' }), 'model-profiles.json');
+}
+
+const parseProviderConfig = (raw: any, where: string, issues: string[]): ProviderConfig | null => {
+    if (!raw || typeof raw !== 'object' || !isModelProviderType(raw.provider)) {
+        issues.push(`${where}.provider: must be one of ${MODEL_PROVIDER_IDS.join(', ')}`);
+        return null;
+    }
+    const config: ProviderConfig = { provider: raw.provider };
+    if (typeof raw.timeoutSeconds === 'number' && raw.timeoutSeconds > 0) config.timeoutSeconds = raw.timeoutSeconds;
+    if (raw.generation && typeof raw.generation === 'object') {
+        const generation: GenerationParams = {};
+        for (const param of ['temperature', 'maxTokens', 'seed'] as (keyof GenerationParams)[]) {
+            const value = raw.generation[param];
+            if (value === undefined) continue;
+            if (typeof value === 'number' && Number.isFinite(value)) generation[param] = value;
+            else issues.push(`${where}.generation.${param}: must be a number`);
+        }
+        config.generation = generation;
+    }
+    for (const provider of MODEL_PROVIDER_IDS) {
+        if (raw[provider] === undefined) continue;
+        const connection = raw[provider];
+        if (!connection || typeof connection.baseUrl !== 'string' || typeof connection.model !== 'string') {
+            issues.push(`${where}.${provider}: baseUrl and model must be strings`);
+            continue;
+        }
+        config[provider] = {
+            baseUrl: connection.baseUrl,
+            apiKey: typeof connection.apiKey === 'string' ? connection.apiKey : '',
+            model: connection.model,
+        };
+    }
+    return config;
+};
+
+// Profiles from an exported file, with new ids and names made unique against the existing profiles.
+export function parseProfilesFile(text: string, existing: ModelProfile[]): ModelProfile[] {
+    let file: any;
+    try {
+        file = JSON.parse(text);
+    } catch {
+        throw new Error('The file is not valid JSON.');
+    }
+    if (file?.version !== 1 || file.kind !== 'model-profiles' || !Array.isArray(file.profiles)) {
+        throw new Error('The file is not a model profiles export.');
+    }
+    const issues: string[] = [];
+    const imported: ModelProfile[] = [];
+    file.profiles.forEach((raw: any, i: number) => {
+        const config = parseProviderConfig(raw?.config, `profiles[${i}].config`, issues);
+        if (!config) return;
+        const name = typeof raw.name === 'string' ? raw.name : `Profile ${i + 1}`;
+        imported.push(createProfile(name, config, [...existing, ...imported]));
+    });
+    if (issues.length > 0) {
+        throw new Error(`Some profiles are invalid: ${issues.join('; ')}`);
+    }
+    return imported;
+}
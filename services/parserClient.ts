@@ -0,0 +1,170 @@
+import type { SpreadsheetOptions } from '../types';
+import type { SheetExtraction } from './spreadsheet';
+import { createAbortError } from './errors';
+
+// Main-thread side of the data parsing worker. Large CSV/XLSX files are parsed off the main thread so the
+// UI stays responsive; each job gets its own worker, which is terminated on completion or cancellation.
+
+export type DataFormat = 'csv' | 'json' | 'xlsx';
+export type ParseStage = 'reading' | 'parsing' | 'sampling';
+
+export interface ParseRequest {
+    // The uploaded file, or the body fetched from a URL.
+    source: Blob;
+    format: DataFormat;
+    spreadsheetOptions?: SpreadsheetOptions;
+    // Files with more rows are reduced to a uniform random sample of this size.
+    rowCap: number;
+}
+
+export interface ParseResult {
+    rows: any[];
+    totalRows: number;
+    sampled: boolean;
+}
+
+export interface ParseProgress {
+    stage: ParseStage;
+    // Fraction between 0 and 1, or null when the stage has no measurable progress.
+    fraction: number | null;
+}
+
+// The first rows of a sheet with the given options, as shown while the user picks sheet, header and range.
+export interface SheetPreview {
+    options: SpreadsheetOptions;
+    // The sheet's full used range, e.g. "A1:F120".
+    sheetRange: string;
+    extraction: SheetExtraction | null;
+    error: string | null;
+}
+
+export type WorkerRequest =
+    | { type: 'parse'; request: ParseRequest }
+    | { type: 'openWorkbook'; id: number; source: Blob }
+    | { type: 'previewSheet'; id: number; options: SpreadsheetOptions; maxRows: number };
+
+export type WorkerResponse =
+    | { type: 'progress'; progress: ParseProgress }
+    | { type: 'result'; result: ParseResult }
+    | { type: 'sheets'; id: number; sheetNames: string[] }
+    | { type: 'preview'; id: number; preview: SheetPreview }
+    | { type: 'error'; id?: number; message: string };
+
+export const MAX_ROWS = 100_000;
+
+const createWorker = () => new Worker(new URL('../workers/dataParser.worker.ts', import.meta.url), { type: 'module' });
+
+export const detectFormat = (name: string): DataFormat | null => {
+    const lower = name.toLowerCase().split(/[?#]/)[0];
+    if (lower.endsWith('.xls') || lower.endsWith('.xlsx')) return 'xlsx';
+    if (lower.endsWith('.json')) return 'json';
+    if (lower.endsWith('.csv') || lower.endsWith('.txt')) return 'csv';
+    return null;
+};
+
+function runWorker<T>(message: WorkerRequest, onProgress?: (progress: ParseProgress) => void, signal?: AbortSignal): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(createAbortError());
+            return;
+        }
+
+        const worker = createWorker();
+        const finish = () => {
+            worker.terminate();
+            signal?.removeEventListener('abort', handleAbort);
+        };
+        const handleAbort = () => {
+            finish();
+            reject(createAbortError());
+        };
+        signal?.addEventListener('abort', handleAbort);
+
+        worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+            const response = event.data;
+            if (response.type === 'progress') {
+                onProgress?.(response.progress);
+                return;
+            }
+            finish();
+            if (response.type === 'error') {
+                reject(new Error(response.message));
+            } else if (response.type === 'result') {
+                resolve(response.result as T);
+            }
+        };
+        worker.onerror = (event) => {
+            finish();
+            reject(new Error(event.message || 'The data parser stopped unexpectedly.'));
+        };
+        worker.postMessage(message);
+    });
+}
+
+export const parseData = (request: ParseRequest, onProgress?: (progress: ParseProgress) => void, signal?: AbortSignal) =>
+    runWorker<ParseResult>({ type: 'parse', request }, onProgress, signal);
+
+// A worker that keeps one workbook open for previews; the workbook itself never leaves the worker.
+export interface SpreadsheetSession {
+    sheetNames: string[];
+    preview(options: SpreadsheetOptions, maxRows: number): Promise<SheetPreview>;
+    close(): void;
+}
+
+export function openSpreadsheet(source: Blob, signal?: AbortSignal): Promise<SpreadsheetSession> {
+    const worker = createWorker();
+    const pending = new Map<number, { resolve: (response: WorkerResponse) => void; reject: (err: Error) => void }>();
+    let nextId = 0;
+    let closed = false;
+
+    const close = () => {
+        if (closed) return;
+        closed = true;
+        worker.terminate();
+        pending.forEach(({ reject }) => reject(createAbortError()));
+        pending.clear();
+    };
+    const request = (message: WorkerRequest & { id: number }) => new Promise<WorkerResponse>((resolve, reject) => {
+        if (closed) {
+            reject(createAbortError());
+            return;
+        }
+        pending.set(message.id, { resolve, reject });
+        worker.postMessage(message);
+    });
+
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+        const response = event.data;
+        if (!('id' in response) || response.id === undefined) return;
+        const waiting = pending.get(response.id);
+        if (!waiting) return;
+        pending.delete(response.id);
+        if (response.type === 'error') waiting.reject(new Error(response.message));
+        else waiting.resolve(response);
+    };
+    worker.onerror = (event) => {
+        const error = new Error(event.message || 'The data parser stopped unexpectedly.');
+        pending.forEach(({ reject }) => reject(error));
+        pending.clear();
+    };
+
+    if (signal?.aborted) close();
+    signal?.addEventListener('abort', close);
+
+    return request({ type: 'openWorkbook', id: nextId++, source }).then(response => {
+        signal?.removeEventListener('abort', close);
+        if (response.type !== 'sheets') throw new Error('Unexpected response from the data parser.');
+        return {
+            sheetNames: response.sheetNames,
+            preview: async (options, maxRows) => {
+                const previewResponse = await request({ type: 'previewSheet', id: nextId++, options, maxRows });
+                if (previewResponse.type !== 'preview') throw new Error('Unexpected response from the data parser.');
+                return previewResponse.preview;
+            },
+            close,
+        };
+    }, err => {
+        close();
+        throw err;
+    });
+}
@@ -0,0 +1,207 @@
+// PDF pages are rendered locally with pdf.js (loaded from the CDN in index.html) so chart regions can be
+// cropped out and sent to the vision model as images.
+
+declare const pdfjsLib: any;
+
+const PDF_WORKER_URL = 'https://unpkg.com/pdfjs-dist@3.11.174/build/pdf.worker.min.js';
+
+// Pages are rendered at this width so cropped charts stay legible to the model.
+const RENDER_WIDTH = 1600;
+
+// Detection works on a grid of cells rather than pixels; a cell with any dark or coloured pixel counts as ink.
+const CELL_SIZE = 4;
+const INK_LUMA = 235;
+// Blank bands at least this fraction of the page separate blocks.
+const MIN_GAP = 0.012;
+// Blocks smaller than this (as a fraction of the page) are not charts.
+const MIN_WIDTH = 0.15;
+const MIN_HEIGHT = 0.08;
+// Blocks whose ink is mostly text are paragraphs or tables.
+const MAX_TEXT_SHARE = 0.5;
+const REGION_PADDING = 0.01;
+
+export interface PdfTextBox {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+// A rectangle on a page, in fractions of the page width and height.
+export interface PageRegion {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface RenderedPage {
+    pageNumber: number;
+    canvas: HTMLCanvasElement;
+    textBoxes: PdfTextBox[];
+}
+
+export const isPdfFile = (file: File) => file.type === 'application/pdf' || /\.pdf$/i.test(file.name);
+
+export const isPdfLibraryLoaded = () => typeof pdfjsLib !== 'undefined' && !!pdfjsLib;
+
+export async function loadPdf(file: File): Promise<any> {
+    if (!isPdfLibraryLoaded()) {
+        throw new Error('The PDF library could not be loaded. Please check your internet connection and refresh the page.');
+    }
+    pdfjsLib.GlobalWorkerOptions.workerSrc = PDF_WORKER_URL;
+    return pdfjsLib.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+}
+
+export async function renderPage(pdf: any, pageNumber: number): Promise<RenderedPage> {
+    const page = await pdf.getPage(pageNumber);
+    const baseViewport = page.getViewport({ scale: 1 });
+    const viewport = page.getViewport({ scale: RENDER_WIDTH / baseViewport.width });
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(viewport.width);
+    canvas.height = Math.round(viewport.height);
+    const ctx = canvas.getContext('2d')!;
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    await page.render({ canvasContext: ctx, viewport }).promise;
+
+    const text = await page.getTextContent();
+    const textBoxes: PdfTextBox[] = text.items
+        .filter((item: any) => item.str && item.str.trim() !== '')
+        .map((item: any) => {
+            const [, , c, d, x, y] = pdfjsLib.Util.transform(viewport.transform, item.transform);
+            const height = Math.hypot(c, d);
+            return { x, y: y - height, width: item.width * viewport.scale, height };
+        });
+    return { pageNumber, canvas, textBoxes };
+}
+
+interface InkGrid {
+    columns: number;
+    rows: number;
+    ink: Uint8Array;
+    text: Uint8Array;
+}
+
+const buildInkGrid = (image: { width: number; height: number; data: Uint8ClampedArray }, textBoxes: PdfTextBox[]): InkGrid => {
+    const columns = Math.ceil(image.width / CELL_SIZE);
+    const rows = Math.ceil(image.height / CELL_SIZE);
+    const ink = new Uint8Array(columns * rows);
+    const text = new Uint8Array(columns * rows);
+    for (let y = 0; y < image.height; y++) {
+        for (let x = 0; x < image.width; x++) {
+            const i = (y * image.width + x) * 4;
+            const r = image.data[i], g = image.data[i + 1], b = image.data[i + 2];
+            const luma = 0.299 * r + 0.587 * g + 0.114 * b;
+            if (luma < INK_LUMA || Math.max(r, g, b) - Math.min(r, g, b) > 40) {
+                ink[Math.floor(y / CELL_SIZE) * columns + Math.floor(x / CELL_SIZE)] = 1;
+            }
+        }
+    }
+    for (const box of textBoxes) {
+        const x0 = Math.max(0, Math.floor(box.x / CELL_SIZE)), x1 = Math.min(columns - 1, Math.floor((box.x + box.width) / CELL_SIZE));
+        const y0 = Math.max(0, Math.floor(box.y / CELL_SIZE)), y1 = Math.min(rows - 1, Math.floor((box.y + box.height) / CELL_SIZE));
+        for (let y = y0; y <= y1; y++) {
+            for (let x = x0; x <= x1; x++) text[y * columns + x] = 1;
+        }
+    }
+    return { columns, rows, ink, text };
+};
+
+interface Block { x0: number; y0: number; x1: number; y1: number }
+
+// Splits a block at blank bands across the given direction, trimming blank margins; returns the filled parts.
+const splitBlock = (grid: InkGrid, block: Block, horizontal: boolean, minGap: number): Block[] => {
+    const [from, to] = horizontal ? [block.y0, block.y1] : [block.x0, block.x1];
+    const [acrossFrom, acrossTo] = horizontal ? [block.x0, block.x1] : [block.y0, block.y1];
+    const filled = (i: number) => {
+        for (let j = acrossFrom; j < acrossTo; j++) {
+            const index = horizontal ? i * grid.columns + j : j * grid.columns + i;
+            if (grid.ink[index] || grid.text[index]) return true;
+        }
+        return false;
+    };
+
+    const segments: [number, number][] = [];
+    let start = -1;
+    let gap = 0;
+    for (let i = from; i < to; i++) {
+        if (filled(i)) {
+            if (start >= 0 && gap >= minGap) {
+                segments.push([start, i - gap]);
+                start = -1;
+            }
+            if (start < 0) start = i;
+            gap = 0;
+        } else if (start >= 0) {
+            gap++;
+        }
+    }
+    if (start >= 0) segments.push([start, to - gap]);
+    return segments.map(([first, end]) => (horizontal ? { ...block, y0: first, y1: end } : { ...block, x0: first, x1: end }));
+};
+
+// Recursive XY-cut: alternate horizontal and vertical splits until a block splits in neither direction.
+const cutBlocks = (grid: InkGrid, block: Block, horizontal: boolean, gaps: { rows: number; columns: number }, triedOther = false): Block[] => {
+    const parts = splitBlock(grid, block, horizontal, horizontal ? gaps.rows : gaps.columns);
+    if (parts.length > 1) return parts.flatMap(part => cutBlocks(grid, part, !horizontal, gaps));
+    if (parts.length === 0) return [];
+    return triedOther ? parts : cutBlocks(grid, parts[0], !horizontal, gaps, true);
+};
+
+// Finds blocks of a rendered page that look like charts: large, separated from the rest by white space, and
+// drawn mostly with lines, shapes or images rather than text. Returns them top to bottom.
+export function detectChartRegions(image: { width: number; height: number; data: Uint8ClampedArray }, textBoxes: PdfTextBox[]): PageRegion[] {
+    const grid = buildInkGrid(image, textBoxes);
+    const blocks = cutBlocks(grid, { x0: 0, y0: 0, x1: grid.columns, y1: grid.rows }, true, {
+        rows: Math.max(1, Math.round(MIN_GAP * grid.rows)),
+        columns: Math.max(1, Math.round(MIN_GAP * grid.columns)),
+    });
+
+    return blocks
+        .filter(block => {
+            if ((block.x1 - block.x0) / grid.columns < MIN_WIDTH || (block.y1 - block.y0) / grid.rows < MIN_HEIGHT) return false;
+            let ink = 0;
+            let textInk = 0;
+            for (let y = block.y0; y < block.y1; y++) {
+                for (let x = block.x0; x < block.x1; x++) {
+                    const index = y * grid.columns + x;
+                    if (!grid.ink[index]) continue;
+                    ink++;
+                    if (grid.text[index]) textInk++;
+                }
+            }
+            return ink > 0 && textInk / ink <= MAX_TEXT_SHARE;
+        })
+        .map(block => {
+            const x = Math.max(0, block.x0 / grid.columns - REGION_PADDING);
+            const y = Math.max(0, block.y0 / grid.rows - REGION_PADDING);
+            return {
+                x,
+                y,
+                width: Math.min(1, block.x1 / grid.columns + REGION_PADDING) - x,
+                height: Math.min(1, block.y1 / grid.rows + REGION_PADDING) - y,
+            };
+        })
+        .sort((a, b) => a.y - b.y || a.x - b.x);
+}
+
+export const detectPageCharts = (page: RenderedPage): PageRegion[] => {
+    const ctx = page.canvas.getContext('2d')!;
+    return detectChartRegions(ctx.getImageData(0, 0, page.canvas.width, page.canvas.height), page.textBoxes);
+};
+
+export function cropRegion(canvas: HTMLCanvasElement, region: PageRegion): Promise<Blob> {
+    const x = Math.round(region.x * canvas.width);
+    const y = Math.round(region.y * canvas.height);
+    const width = Math.max(1, Math.round(region.width * canvas.width));
+    const height = Math.max(1, Math.round(region.height * canvas.height));
+    const crop = document.createElement('canvas');
+    crop.width = width;
+    crop.height = height;
+    crop.getContext('2d')!.drawImage(canvas, x, y, width, height, 0, 0, width, height);
+    return new Promise((resolve, reject) =>
+        crop.toBlob(blob => (blob ? resolve(blob) : reject(new Error('PNG encoding failed.'))), 'image/png')
+    );
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import {
+    BUILTIN_PROMPTS, addTemplateVersion, placeholderIssues, removeTemplateVersion, renderPrompt, resolvePrompt,
+} from './promptTemplates';
+import type { PromptTemplateStore } from './promptTemplates';
+
+const emptyStore = (): PromptTemplateStore => ({
+    dataToGraph: { versions: [], activeId: null, nextNumber: 1 },
+    graphToData: { versions: [], activeId: null, nextNumber: 1 },
+});
+
+describe('renderPrompt', () => {
+    it('fills the known placeholders and leaves other braces alone', () => {
+        const template = 'Rows of {fileName} in {language}: {sample}. Keep {unknown} and { "xField": "date" }.';
+        expect(renderPrompt(template, { fileName: 'sales.csv', sample: '[{"a":1}]', language: 'English' }))
+            .toBe('Rows of sales.csv in English: [{"a":1}]. Keep {unknown} and { "xField": "date" }.');
+    });
+
+    it('fills placeholders without a value with nothing', () => {
+        expect(renderPrompt('Profile: {profile}|', {})).toBe('Profile: |');
+    });
+
+    it('leaves every placeholder of the built-in templates filled', () => {
+        const values = { fileName: 'f', sample: 's', profile: 'p', language: 'l' };
+        for (const prompt of Object.values(BUILTIN_PROMPTS)) {
+            expect(renderPrompt(prompt.text, values)).not.toMatch(/\{(fileName|sample|profile|language)\}/);
+        }
+    });
+});
+
+describe('placeholderIssues', () => {
+    it('lists required placeholders the template lacks and unknown ones it uses', () => {
+        expect(placeholderIssues('dataToGraph', 'Use {sample} from {file}.')).toEqual({ missing: ['profile'], unknown: ['file'] });
+        expect(placeholderIssues('graphToData', 'Read the chart.')).toEqual({ missing: [], unknown: [] });
+    });
+
+    it('finds no issues in the built-in templates', () => {
+        expect(placeholderIssues('dataToGraph', BUILTIN_PROMPTS.dataToGraph.text)).toEqual({ missing: [], unknown: [] });
+        expect(placeholderIssues('graphToData', BUILTIN_PROMPTS.graphToData.text)).toEqual({ missing: [], unknown: [] });
+    });
+});
+
+describe('template versions', () => {
+    it('numbers saved versions, uses the latest and never reuses a number', () => {
+        let store = addTemplateVersion(emptyStore(), 'graphToData', 'first', ' Lab values ');
+        store = addTemplateVersion(store, 'graphToData', 'second');
+        expect(resolvePrompt(store, 'graphToData')).toEqual({ version: 'custom-2', text: 'second' });
+        expect(store.graphToData.versions[0].label).toBe('Lab values');
+
+        store = removeTemplateVersion(store, 'graphToData', 'custom-2');
+        expect(resolvePrompt(store, 'graphToData')).toBe(BUILTIN_PROMPTS.graphToData);
+        expect(addTemplateVersion(store, 'graphToData', 'third').graphToData.activeId).toBe('custom-3');
+        expect(resolvePrompt(store, 'dataToGraph')).toBe(BUILTIN_PROMPTS.dataToGraph);
+    });
+});
@@ -0,0 +1,174 @@
+import type { ModelFeature } from '../types';
+
+// Editable prompt templates. A template carries the domain guidance for a feature; the response format the app
+// depends on is appended by aiService, so a custom template cannot break parsing. Every saved edit becomes a
+// numbered version, and the version in use is recorded with each result together with a hash and copy of its text.
+
+export const PROMPT_PLACEHOLDERS = ['fileName', 'sample', 'profile', 'language'] as const;
+
+export type PromptPlaceholder = typeof PROMPT_PLACEHOLDERS[number];
+
+export type PromptValues = { [key in PromptPlaceholder]?: string };
+
+export interface PromptTemplateVersion {
+    id: string;
+    text: string;
+    createdAt: string;
+    label?: string;
+}
+
+export interface FeatureTemplates {
+    versions: PromptTemplateVersion[];
+    // null uses the built-in template.
+    activeId: string | null;
+    // Numbers are not reused after a version is deleted, so a recorded version always means one text.
+    nextNumber: number;
+}
+
+export type PromptTemplateStore = { [feature in ModelFeature]: FeatureTemplates };
+
+// The prompt a run is sent with, and the version recorded for it.
+export interface ResolvedPrompt {
+    version: string;
+    text: string;
+}
+
+// Bump a version when its wording changes so history shows which text produced a result.
+export const BUILTIN_PROMPTS: { [feature in ModelFeature]: ResolvedPrompt } = {
+    dataToGraph: {
+        version: 'builtin-4',
+        text: `Analyze the following data from the file "{fileName}" and provide recommendations for the best chart types to visualize it.
+
+Column profile, computed locally over all rows (types, null and distinct counts, ranges, outliers):
+{profile}
+
+Representative sample rows in JSON format (first/last rows, extremes and frequent categories, not just the head of the file):
+{sample}
+
+Base your recommendations on the full column profile, e.g. cardinality decides whether a field suits a pie chart or series, and temporal ranges suit trends.
+
+Your task is to:
+1.  Provide a brief, insightful analysis of the data's structure, key fields, and potential relationships. This should be a single paragraph.
+2.  Suggest exactly 3 different chart types that would be effective for this data.
+3.  For each recommendation, provide:
+    a. A descriptive title for the chart (e.g., "Monthly Sales Trend").
+    b. The chart type (must be one of: 'line', 'column', 'bar', 'pie', 'area', 'scatter', 'rose').
+    c. A concise reason (max 20 words) explaining why this chart is a good fit.
+    d. A valid JSON configuration object for Ant Design Charts (G2Plot). The config must only include fields listed in the column profile or created by the transform. For example: { "xField": "date", "yField": "sales" }. Do not invent fields. Use the exact field names from the data.
+
+Write the analysis, titles and reasons in {language}, but keep field names exactly as they appear in the data.`,
+    },
+    graphToData: {
+        version: 'builtin-3',
+        text: `You are an expert data analyst. Your task is to analyze the provided image ("{fileName}").
+
+First, determine if the image is a data visualization chart or graph (e.g., bar chart, line graph, pie chart, etc.).
+
+If it is a chart, write a detailed analysis of it, formatted as Markdown. The report must include:
+*   **Chart Type:** Identify the type of chart (e.g., "Vertical Bar Chart", "Multi-series Line Graph").
+*   **Data Summary:** Extract and present the key data points in a Markdown table.
+*   **Insights:** Provide 2-3 bulleted key insights or trends observed from the data.
+*   **Conclusion:** A brief concluding sentence summarizing the chart's main takeaway.
+
+Write the report in {language}. Keep category names and values as they appear on the chart.`,
+    },
+};
+
+// Placeholders a template should contain for the model to see its input.
+export const REQUIRED_PLACEHOLDERS: { [feature in ModelFeature]: PromptPlaceholder[] } = {
+    dataToGraph: ['sample', 'profile'],
+    graphToData: [],
+};
+
+// The language name the model is asked to answer in, by UI language.
+const LANGUAGE_NAMES: { [language: string]: string } = {
+    en: 'English',
+    cn: 'Simplified Chinese',
+};
+
+export const promptLanguage = (language: string) => LANGUAGE_NAMES[language] || 'English';
+
+const STORAGE_KEY = 'promptTemplates';
+const FEATURES: ModelFeature[] = ['dataToGraph', 'graphToData'];
+const PLACEHOLDER_PATTERN = /\{(\w+)\}/g;
+
+const emptyTemplates = (): FeatureTemplates => ({ versions: [], activeId: null, nextNumber: 1 });
+
+export const loadPromptTemplates = (): PromptTemplateStore => {
+    const store = { dataToGraph: emptyTemplates(), graphToData: emptyTemplates() };
+    try {
+        const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+        for (const feature of FEATURES) {
+            const entry = saved?.[feature];
+            if (!entry || !Array.isArray(entry.versions)) continue;
+            const versions = entry.versions.filter((version: any) => typeof version?.id === 'string' && typeof version.text === 'string');
+            store[feature] = {
+                versions,
+                activeId: versions.some((version: PromptTemplateVersion) => version.id === entry.activeId) ? entry.activeId : null,
+                nextNumber: typeof entry.nextNumber === 'number' ? entry.nextNumber : versions.length + 1,
+            };
+        }
+    } catch (error) {
+        console.error('Failed to load prompt templates from localStorage', error);
+    }
+    return store;
+};
+
+export const savePromptTemplates = (store: PromptTemplateStore) => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+};
+
+export const resolvePrompt = (store: PromptTemplateStore, feature: ModelFeature): ResolvedPrompt => {
+    const active = store[feature].versions.find(version => version.id === store[feature].activeId);
+    return active ? { version: active.id, text: active.text } : BUILTIN_PROMPTS[feature];
+};
+
+// Saves the text as the next version and makes it the active one.
+export const addTemplateVersion = (store: PromptTemplateStore, feature: ModelFeature, text: string, label?: string): PromptTemplateStore => {
+    const templates = store[feature];
+    const version: PromptTemplateVersion = {
+        id: `custom-${templates.nextNumber}`,
+        text,
+        createdAt: new Date().toISOString(),
+        ...(label && label.trim() ? { label: label.trim() } : {}),
+    };
+    return {
+        ...store,
+        [feature]: { versions: [...templates.versions, version], activeId: version.id, nextNumber: templates.nextNumber + 1 },
+    };
+};
+
+export const setActiveTemplate = (store: PromptTemplateStore, feature: ModelFeature, id: string | null): PromptTemplateStore => ({
+    ...store,
+    [feature]: { ...store[feature], activeId: id },
+});
+
+// Deleting the active version falls back to the built-in template.
+export const removeTemplateVersion = (store: PromptTemplateStore, feature: ModelFeature, id: string): PromptTemplateStore => {
+    const templates = store[feature];
+    return {
+        ...store,
+        [feature]: {
+            ...templates,
+            versions: templates.versions.filter(version => version.id !== id),
+            activeId: templates.activeId === id ? null : templates.activeId,
+        },
+    };
+};
+
+// Fills the known placeholders; anything else in braces (such as JSON examples) is left alone.
+export const renderPrompt = (template: string, values: PromptValues): string =>
+    template.replace(PLACEHOLDER_PATTERN, (match, name: string) =>
+        (PROMPT_PLACEHOLDERS as readonly string[]).includes(name) ? values[name as PromptPlaceholder] ?? '' : match);
+
+export const placeholderIssues = (feature: ModelFeature, text: string): { missing: string[]; unknown: string[] } => {
+    const used = new Set<string>();
+    text.replace(PLACEHOLDER_PATTERN, (match, name: string) => {
+        used.add(name);
+        return match;
+    });
+    return {
+        missing: REQUIRED_PLACEHOLDERS[feature].filter(name => !used.has(name)),
+        unknown: Array.from(used).filter(name => !(PROMPT_PLACEHOLDERS as readonly string[]).includes(name)),
+    };
+};
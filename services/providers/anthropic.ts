@@ -0,0 +1,82 @@
+import type { CustomModelConfig, GenerationParams } from '../../types';
+import type { ProviderAdapter } from './types';
+import { requestJson, requestPolicy, requireConnection, trimBaseUrl } from './http';
+
+const PROVIDER_NAME = 'Anthropic';
+const ANTHROPIC_VERSION = '2023-06-01';
+const MAX_TOKENS = 8192;
+
+const headers = (connection: CustomModelConfig) => ({
+    'Content-Type': 'application/json',
+    'x-api-key': connection.apiKey,
+    'anthropic-version': ANTHROPIC_VERSION,
+    // Required for calls made straight from the browser.
+    'anthropic-dangerous-direct-browser-access': 'true',
+});
+
+const createMessage = async (connection: CustomModelConfig | undefined, content: any, generation: GenerationParams = {}, signal?: AbortSignal, timeoutMs?: number): Promise<string> => {
+    const config = requireConnection(connection, PROVIDER_NAME);
+    const result = await requestJson(`${trimBaseUrl(config.baseUrl)}/messages`, {
+        method: 'POST',
+        headers: headers(config),
+        body: JSON.stringify({
+            model: config.model,
+            max_tokens: generation.maxTokens ?? MAX_TOKENS,
+            ...(generation.temperature !== undefined ? { temperature: generation.temperature } : {}),
+            messages: [{ role: 'user', content }],
+        }),
+        signal,
+    }, 'Anthropic API request failed', requestPolicy(timeoutMs));
+    if (!Array.isArray(result.content)) {
+        throw new Error("Invalid response format from Anthropic API. Expected a 'content' array.");
+    }
+    return result.content
+        .filter((block: any) => block.type === 'text')
+        .map((block: any) => block.text)
+        .join('');
+};
+
+export const anthropicProvider: ProviderAdapter = {
+    id: 'anthropic',
+    labelKey: 'modelManager.providers.anthropic',
+    usesBaseUrl: true,
+    requiresApiKey: true,
+    defaultBaseUrl: 'https://api.anthropic.com/v1',
+    // The Messages API has no seed parameter.
+    supportsSeed: false,
+    // The Messages API rejects temperatures above 1.
+    maxTemperature: 1,
+    maxConcurrentRequests: 2,
+    imageLimits: { maxDimension: 1568, maxBytes: 5 * 1024 * 1024 },
+
+    completeText({ prompt, signal, timeoutMs, generation }, connection) {
+        return createMessage(connection, prompt, generation, signal, timeoutMs);
+    },
+
+    completeVision({ prompt, image, signal, timeoutMs, generation }, connection) {
+        return createMessage(connection, [
+            { type: 'image', source: { type: 'base64', media_type: image.mimeType, data: image.base64 } },
+            { type: 'text', text: prompt },
+        ], generation, signal, timeoutMs);
+    },
+
+    async listModels(connection) {
+        if (!connection?.baseUrl || !connection.apiKey) {
+            throw new Error("API URL and API Key are required to fetch models.");
+        }
+        const result = await requestJson(`${trimBaseUrl(connection.baseUrl)}/models`, {
+            headers: headers(connection),
+        }, 'Failed to fetch models');
+        if (!result.data || !Array.isArray(result.data)) {
+            throw new Error("Invalid response format from /models endpoint. Expected a 'data' array.");
+        }
+        return result.data.map((model: any) => model.id).sort();
+    },
+
+    async testConnection(connection) {
+        if (!connection?.baseUrl || !connection.apiKey || !connection.model) {
+            throw new Error("API URL, API Key, and Model Name are required for testing.");
+        }
+        await createMessage(connection, "Say 'hello'", { maxTokens: 5 });
+    },
+};
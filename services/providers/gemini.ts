@@ -0,0 +1,111 @@
+import { GoogleGenAI } from '@google/genai';
+import type { CustomModelConfig, GenerationParams } from '../../types';
+import type { CompletionRequest, ProviderAdapter } from './types';
+import { AiRequestError, isAbortError } from '../errors';
+import { requestPolicy, withRetry, withTimeout } from './http';
+
+export const GEMINI_MODEL = 'gemini-2.5-flash';
+
+// A key entered in the Model Manager wins over the one baked in at build time (GEMINI_API_KEY).
+const getGeminiClient = (connection?: CustomModelConfig) => {
+    const apiKey = connection?.apiKey || process.env.API_KEY;
+    if (!apiKey) {
+        throw new Error('Gemini API key is missing. Enter one in the Model Manager or set GEMINI_API_KEY.');
+    }
+    return new GoogleGenAI({ apiKey });
+};
+
+const modelOf = (connection?: CustomModelConfig) => connection?.model || GEMINI_MODEL;
+
+const FAILURE_PREFIX = 'Gemini request failed';
+
+const jsonConfig = (responseSchema: any, abortSignal: AbortSignal, generation: GenerationParams = {}) => ({
+    responseMimeType: 'application/json',
+    ...(responseSchema ? { responseSchema } : {}),
+    ...(generation.temperature !== undefined ? { temperature: generation.temperature } : {}),
+    ...(generation.maxTokens !== undefined ? { maxOutputTokens: generation.maxTokens } : {}),
+    ...(generation.seed !== undefined ? { seed: generation.seed } : {}),
+    abortSignal,
+});
+
+// The SDK reports HTTP failures as ApiError with a status; everything else that is not a cancel is a network problem.
+const classifyError = (err: unknown): unknown => {
+    if (isAbortError(err) || err instanceof AiRequestError) return err;
+    const message = `${FAILURE_PREFIX}: ${err instanceof Error ? err.message : String(err)}`;
+    const status = (err as { status?: unknown })?.status;
+    return typeof status === 'number' ? AiRequestError.fromStatus(status, message) : new AiRequestError('network', message);
+};
+
+// Streams when the caller wants partial text, otherwise waits for the whole answer.
+const generate = async (contents: any, request: CompletionRequest, connection?: CustomModelConfig): Promise<string> => {
+    const client = getGeminiClient(connection);
+    const policy = requestPolicy(request.timeoutMs);
+    return withRetry(() => withTimeout(request.signal, policy.timeoutMs, FAILURE_PREFIX, async (signal, touch) => {
+        const params = { model: modelOf(connection), contents, config: jsonConfig(request.responseSchema, signal, request.generation) };
+        try {
+            if (!request.onText) {
+                const response = await client.models.generateContent(params);
+                return (response.text ?? '').trim();
+            }
+
+            let text = '';
+            for await (const chunk of await client.models.generateContentStream(params)) {
+                signal.throwIfAborted();
+                touch();
+                text += chunk.text ?? '';
+                request.onText(text);
+            }
+            return text.trim();
+        } catch (err) {
+            throw classifyError(err);
+        }
+    }), policy.maxRetries, request.signal);
+};
+
+export const geminiProvider: ProviderAdapter = {
+    id: 'google',
+    labelKey: 'modelManager.providers.google',
+    usesBaseUrl: false,
+    // Falls back to GEMINI_API_KEY from the build environment.
+    requiresApiKey: false,
+    defaultBaseUrl: '',
+    defaultModel: GEMINI_MODEL,
+    supportsSeed: true,
+    maxTemperature: 2,
+    maxConcurrentRequests: 3,
+    imageLimits: { maxDimension: 3072, maxBytes: 15 * 1024 * 1024 },
+
+    completeText(request, connection) {
+        return generate(request.prompt, request, connection);
+    },
+
+    completeVision(request, connection) {
+        const { prompt, image } = request;
+        return generate({ parts: [{ text: prompt }, { inlineData: { data: image.base64, mimeType: image.mimeType } }] }, request, connection);
+    },
+
+    // Gemini models that can generate content; names come back as "models/<id>".
+    async listModels(connection) {
+        const client = getGeminiClient(connection);
+        const models: string[] = [];
+        try {
+            for await (const model of await client.models.list()) {
+                if (model.name && (!model.supportedActions || model.supportedActions.includes('generateContent'))) {
+                    models.push(model.name.replace(/^models\//, ''));
+                }
+            }
+        } catch (err) {
+            throw classifyError(err);
+        }
+        return models.filter(name => name.startsWith('gemini')).sort();
+    },
+
+    async testConnection(connection) {
+        const client = getGeminiClient(connection);
+        try {
+            await client.models.generateContent({ model: modelOf(connection), contents: "Say 'hello'" });
+        } catch (err) {
+            throw classifyError(err);
+        }
+    },
+};
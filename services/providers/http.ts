@@ -0,0 +1,172 @@
+import type { CustomModelConfig } from '../../types';
+import { AiRequestError, createAbortError, isAbortError } from '../errors';
+
+export const trimBaseUrl = (baseUrl: string) => baseUrl.replace(/\/+$/, '');
+
+export const requireConnection = (
+  connection: CustomModelConfig | undefined,
+  providerName: string,
+  options: { apiKey: boolean; model?: boolean } = { apiKey: true, model: true }
+): CustomModelConfig => {
+  const needsModel = options.model !== false;
+  if (!connection || !connection.baseUrl || (options.apiKey && !connection.apiKey) || (needsModel && !connection.model)) {
+    throw new Error(`${providerName} provider is not configured correctly.`);
+  }
+  return connection;
+};
+
+export interface RequestPolicy {
+  // Longest wait for the server, measured from the request or the last streamed chunk.
+  timeoutMs: number;
+  // Extra attempts after a rate limit or server error.
+  maxRetries: number;
+}
+
+export const DEFAULT_TIMEOUT_SECONDS = 60;
+
+const DEFAULT_MAX_RETRIES = 2;
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 30_000;
+
+export const requestPolicy = (timeoutMs?: number): RequestPolicy => ({
+  timeoutMs: timeoutMs && timeoutMs > 0 ? timeoutMs : DEFAULT_TIMEOUT_SECONDS * 1000,
+  maxRetries: DEFAULT_MAX_RETRIES,
+});
+
+// Retry-After is either a number of seconds or an HTTP date.
+const parseRetryAfter = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(createAbortError());
+    return;
+  }
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(createAbortError());
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Runs `run` with a signal that fires when the caller cancels or when nothing has happened for `timeoutMs`.
+// Calling `touch` (e.g. for every streamed chunk) restarts the timer.
+export async function withTimeout<T>(
+  signal: AbortSignal | undefined | null,
+  timeoutMs: number,
+  failurePrefix: string,
+  run: (signal: AbortSignal, touch: () => void) => Promise<T>
+): Promise<T> {
+  if (signal?.aborted) throw createAbortError();
+  const controller = new AbortController();
+  let timedOut = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const touch = () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+  };
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort);
+  touch();
+  try {
+    return await run(controller.signal, touch);
+  } catch (err) {
+    if (timedOut && isAbortError(err)) {
+      throw new AiRequestError('timeout', `${failurePrefix}: no response within ${Math.round(timeoutMs / 1000)} seconds.`);
+    }
+    throw err;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+// Retries transient failures with exponential backoff, or after the delay the server asked for.
+export async function withRetry<T>(run: () => Promise<T>, maxRetries: number, signal?: AbortSignal | null): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await run();
+    } catch (err) {
+      if (!(err instanceof AiRequestError) || !err.retryable || attempt >= maxRetries) throw err;
+      const backoff = BASE_RETRY_DELAY_MS * 2 ** attempt + Math.random() * 250;
+      console.warn(`Request failed (${err.message}); retrying in ${Math.round(err.retryAfterMs ?? backoff)} ms.`);
+      await sleep(Math.min(err.retryAfterMs ?? backoff, MAX_RETRY_DELAY_MS), signal ?? undefined);
+    }
+  }
+}
+
+async function send(url: string, init: RequestInit, failurePrefix: string, signal: AbortSignal): Promise<Response> {
+  let response: Response;
+  try {
+    response = await fetch(url, { ...init, signal });
+  } catch (err) {
+    if (isAbortError(err)) throw err;
+    throw new AiRequestError('network', `${failurePrefix}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  if (!response.ok) {
+    const errorBody = await response.text().catch(() => '');
+    throw AiRequestError.fromStatus(
+      response.status,
+      `${failurePrefix}: ${response.status} ${response.statusText} - ${errorBody}`,
+      parseRetryAfter(response.headers.get('Retry-After'))
+    );
+  }
+  return response;
+}
+
+// `init.signal` is the caller's cancellation signal; the timeout and retries come from `policy`.
+export async function requestJson(url: string, init: RequestInit, failurePrefix: string, policy: RequestPolicy = requestPolicy()): Promise<any> {
+  return withRetry(() => withTimeout(init.signal, policy.timeoutMs, failurePrefix, async signal => {
+    const response = await send(url, init, failurePrefix, signal);
+    try {
+      return await response.json();
+    } catch (err) {
+      if (isAbortError(err)) throw err;
+      throw new AiRequestError('badResponse', `${failurePrefix}: the response is not valid JSON.`, { status: response.status });
+    }
+  }), policy.maxRetries, init.signal);
+}
+
+// Reads a server-sent event stream, passing the payload of every `data:` line to `onData`.
+// Only the initial request is retried; the timeout applies to the gap between chunks.
+export async function requestEventStream(
+  url: string,
+  init: RequestInit,
+  failurePrefix: string,
+  onData: (data: string) => void,
+  policy: RequestPolicy = requestPolicy()
+): Promise<void> {
+  await withRetry(() => withTimeout(init.signal, policy.timeoutMs, failurePrefix, async (signal, touch) => {
+    const response = await send(url, init, failurePrefix, signal);
+    if (!response.body) {
+      throw new AiRequestError('badResponse', `${failurePrefix}: the response has no body to stream.`);
+    }
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    const flushLine = (line: string) => {
+      if (line.startsWith('data:')) onData(line.slice(5).trim());
+    };
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      touch();
+      buffer += value;
+      const lines = buffer.split(/\r?\n/);
+      buffer = lines.pop() ?? '';
+      lines.forEach(flushLine);
+    }
+    flushLine(buffer);
+  }), policy.maxRetries, init.signal);
+}
@@ -0,0 +1,52 @@
+import { MODEL_PROVIDER_IDS } from '../../types';
+import type { CustomModelConfig, GenerationParams, ModelProviderType, ProviderConfig } from '../../types';
+import type { ProviderAdapter } from './types';
+import { geminiProvider } from './gemini';
+import { openAiCompatibleProvider } from './openai';
+import { anthropicProvider } from './anthropic';
+import { ollamaProvider } from './ollama';
+
+export type { ProviderAdapter, CompletionRequest, VisionCompletionRequest, ImageInput, ImageLimits } from './types';
+
+const registry: Record<ModelProviderType, ProviderAdapter> = {
+    google: geminiProvider,
+    custom: openAiCompatibleProvider,
+    anthropic: anthropicProvider,
+    ollama: ollamaProvider,
+};
+
+export const isModelProviderType = (value: unknown): value is ModelProviderType =>
+    typeof value === 'string' && (MODEL_PROVIDER_IDS as readonly string[]).includes(value);
+
+export const getProvider = (id: ModelProviderType): ProviderAdapter => {
+    const adapter = registry[id];
+    if (!adapter) {
+        throw new Error(`Unknown model provider: "${id}".`);
+    }
+    return adapter;
+};
+
+// Providers in the order they are presented in the Model Manager.
+export const listProviders = (): ProviderAdapter[] => MODEL_PROVIDER_IDS.map(id => registry[id]);
+
+export const getConnection = (config: ProviderConfig): CustomModelConfig | undefined => config[config.provider];
+
+export const emptyConnection = (adapter: ProviderAdapter): CustomModelConfig => ({
+    baseUrl: adapter.defaultBaseUrl,
+    apiKey: '',
+    model: adapter.defaultModel || '',
+});
+
+// The model a config will call, as recorded with results.
+export const getModelName = (config: ProviderConfig): string =>
+    getConnection(config)?.model || getProvider(config.provider).defaultModel || '';
+
+// Generation params the provider would reject, so they can be fixed before the config is saved.
+export const invalidGenerationParams = (adapter: ProviderAdapter, generation: GenerationParams = {}): (keyof GenerationParams)[] => {
+    const invalid: (keyof GenerationParams)[] = [];
+    const { temperature, maxTokens, seed } = generation;
+    if (temperature !== undefined && !(temperature >= 0 && temperature <= adapter.maxTemperature)) invalid.push('temperature');
+    if (maxTokens !== undefined && !(Number.isInteger(maxTokens) && maxTokens > 0)) invalid.push('maxTokens');
+    if (seed !== undefined && adapter.supportsSeed && !Number.isInteger(seed)) invalid.push('seed');
+    return invalid;
+};
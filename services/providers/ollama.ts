@@ -0,0 +1,76 @@
+import type { CustomModelConfig, GenerationParams } from '../../types';
+import type { ProviderAdapter } from './types';
+import { requestJson, requestPolicy, requireConnection, trimBaseUrl } from './http';
+
+const PROVIDER_NAME = 'Ollama';
+
+// Ollama runs unauthenticated by default; a key is only sent when one is configured (e.g. behind a proxy).
+const headers = (connection: CustomModelConfig) => ({
+    'Content-Type': 'application/json',
+    ...(connection.apiKey ? { 'Authorization': `Bearer ${connection.apiKey}` } : {}),
+});
+
+// Ollama's names for the generation params; num_predict is its max tokens.
+const options = ({ temperature, maxTokens, seed }: GenerationParams) => ({
+    ...(temperature !== undefined ? { temperature } : {}),
+    ...(maxTokens !== undefined ? { num_predict: maxTokens } : {}),
+    ...(seed !== undefined ? { seed } : {}),
+});
+
+const chat = async (connection: CustomModelConfig | undefined, message: { content: string; images?: string[] }, json = true, signal?: AbortSignal, timeoutMs?: number, generation: GenerationParams = {}): Promise<string> => {
+    const config = requireConnection(connection, PROVIDER_NAME, { apiKey: false });
+    const result = await requestJson(`${trimBaseUrl(config.baseUrl)}/api/chat`, {
+        method: 'POST',
+        headers: headers(config),
+        body: JSON.stringify({
+            model: config.model,
+            messages: [{ role: 'user', ...message }],
+            stream: false,
+            ...(json ? { format: 'json' } : {}),
+            options: options(generation),
+        }),
+        signal,
+    }, 'Ollama request failed', requestPolicy(timeoutMs));
+    return result.message?.content ?? '';
+};
+
+export const ollamaProvider: ProviderAdapter = {
+    id: 'ollama',
+    labelKey: 'modelManager.providers.ollama',
+    usesBaseUrl: true,
+    requiresApiKey: false,
+    defaultBaseUrl: 'http://localhost:11434',
+    supportsSeed: true,
+    maxTemperature: 2,
+    // A local server usually runs one model at a time.
+    maxConcurrentRequests: 1,
+    imageLimits: { maxDimension: 1344, maxBytes: 10 * 1024 * 1024 },
+
+    completeText({ prompt, signal, timeoutMs, generation }, connection) {
+        return chat(connection, { content: prompt }, true, signal, timeoutMs, generation);
+    },
+
+    completeVision({ prompt, image, signal, timeoutMs, generation }, connection) {
+        return chat(connection, { content: prompt, images: [image.base64] }, true, signal, timeoutMs, generation);
+    },
+
+    async listModels(connection) {
+        if (!connection?.baseUrl) {
+            throw new Error("API URL is required to fetch models.");
+        }
+        const result = await requestJson(`${trimBaseUrl(connection.baseUrl)}/api/tags`, {
+            headers: headers(connection),
+        }, 'Failed to fetch models');
+        if (!result.models || !Array.isArray(result.models)) {
+            throw new Error("Invalid response format from /api/tags endpoint. Expected a 'models' array.");
+        }
+        return result.models.map((model: any) => model.name).sort();
+    },
+
+    async testConnection(connection) {
+        if (!connection?.baseUrl || !connection.model) {
+            throw new Error("API URL and Model Name are required for testing.");
+        }
+        await chat(connection, { content: "Say 'hello'" }, false);
+    },
+};
@@ -0,0 +1,110 @@
+import type { CustomModelConfig } from '../../types';
+import type { ProviderAdapter } from './types';
+import { requestEventStream, requestJson, requestPolicy, requireConnection, trimBaseUrl } from './http';
+import type { CompletionRequest } from './types';
+
+const PROVIDER_NAME = 'Custom model';
+
+const headers = (connection: CustomModelConfig) => ({
+    'Content-Type': 'application/json',
+    'Authorization': `Bearer ${connection.apiKey}`
+});
+
+// OpenAI's own API rejects max_tokens for its reasoning models and takes max_completion_tokens for every model;
+// other OpenAI-compatible servers (vLLM, LM Studio, proxies) mostly only know max_tokens.
+const maxTokensField = (baseUrl: string) =>
+    /^https:\/\/api\.openai\.com(\/|$)/i.test(baseUrl) ? 'max_completion_tokens' : 'max_tokens';
+
+const chatCompletion = async (connection: CustomModelConfig | undefined, content: any, { signal, timeoutMs, onText, generation = {} }: CompletionRequest): Promise<string> => {
+    const config = requireConnection(connection, PROVIDER_NAME);
+    const policy = requestPolicy(timeoutMs);
+    const url = `${trimBaseUrl(config.baseUrl)}/chat/completions`;
+    const body = {
+        model: config.model,
+        messages: [{ role: 'user', content }],
+        response_format: { type: "json_object" },
+        ...(generation.temperature !== undefined ? { temperature: generation.temperature } : {}),
+        ...(generation.maxTokens !== undefined ? { [maxTokensField(config.baseUrl)]: generation.maxTokens } : {}),
+        ...(generation.seed !== undefined ? { seed: generation.seed } : {}),
+    };
+
+    if (!onText) {
+        const result = await requestJson(url, { method: 'POST', headers: headers(config), body: JSON.stringify(body), signal }, 'Custom API request failed', policy);
+        return result.choices[0].message.content;
+    }
+
+    let text = '';
+    await requestEventStream(url, {
+        method: 'POST',
+        headers: headers(config),
+        body: JSON.stringify({ ...body, stream: true }),
+        signal,
+    }, 'Custom API request failed', data => {
+        if (!data || data === '[DONE]') return;
+        let event: any;
+        try {
+            event = JSON.parse(data);
+        } catch {
+            // Some compatible servers and proxies interleave non-JSON keep-alive events; they carry no text.
+            return;
+        }
+        const delta = event?.choices?.[0]?.delta?.content;
+        if (delta) {
+            text += delta;
+            onText(text);
+        }
+    }, policy);
+    return text;
+};
+
+export const openAiCompatibleProvider: ProviderAdapter = {
+    id: 'custom',
+    labelKey: 'modelManager.customTab',
+    usesBaseUrl: true,
+    requiresApiKey: true,
+    defaultBaseUrl: 'https://api.openai.com/v1',
+    supportsSeed: true,
+    maxTemperature: 2,
+    maxConcurrentRequests: 3,
+    imageLimits: { maxDimension: 2048, maxBytes: 20 * 1024 * 1024 },
+
+    completeText(request, connection) {
+        return chatCompletion(connection, request.prompt, request);
+    },
+
+    completeVision(request, connection) {
+        const { prompt, image } = request;
+        return chatCompletion(connection, [
+            { type: 'text', text: prompt },
+            { type: 'image_url', image_url: { url: `data:${image.mimeType};base64,${image.base64}` } }
+        ], request);
+    },
+
+    async listModels(connection) {
+        if (!connection?.baseUrl || !connection.apiKey) {
+            throw new Error("API URL and API Key are required to fetch models.");
+        }
+        const result = await requestJson(`${trimBaseUrl(connection.baseUrl)}/models`, {
+            headers: { 'Authorization': `Bearer ${connection.apiKey}` }
+        }, 'Failed to fetch models');
+        if (!result.data || !Array.isArray(result.data)) {
+            throw new Error("Invalid response format from /models endpoint. Expected a 'data' array.");
+        }
+        return result.data.map((model: any) => model.id).sort();
+    },
+
+    async testConnection(connection) {
+        if (!connection?.baseUrl || !connection.apiKey || !connection.model) {
+            throw new Error("API URL, API Key, and Model Name are required for testing.");
+        }
+        await requestJson(`${trimBaseUrl(connection.baseUrl)}/chat/completions`, {
+            method: 'POST',
+            headers: headers(connection),
+            body: JSON.stringify({
+                model: connection.model,
+                messages: [{ role: 'user', content: "Say 'hello'" }],
+                max_tokens: 5
+            })
+        }, 'Connection test failed');
+    },
+};
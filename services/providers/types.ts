@@ -0,0 +1,51 @@
+import type { CustomModelConfig, GenerationParams, ModelProviderType } from '../../types';
+
+export interface ImageInput {
+  base64: string;
+  mimeType: string;
+}
+
+export interface CompletionRequest {
+  prompt: string;
+  // Gemini-style response schema; providers without structured output fall back to plain JSON mode.
+  responseSchema?: any;
+  signal?: AbortSignal;
+  // Overrides the default request timeout.
+  timeoutMs?: number;
+  // Called with the text received so far by providers that can stream; others only resolve at the end.
+  onText?: (textSoFar: string) => void;
+  generation?: GenerationParams;
+}
+
+export interface VisionCompletionRequest extends CompletionRequest {
+  image: ImageInput;
+}
+
+// Largest image the provider accepts without resizing it itself, and its maximum base64-encoded size in bytes.
+export interface ImageLimits {
+  maxDimension: number;
+  maxBytes: number;
+}
+
+export interface ProviderAdapter {
+  id: ModelProviderType;
+  // Translation key of the tab label shown in the Model Manager.
+  labelKey: string;
+  // False for providers whose SDK knows its own endpoint (Gemini).
+  usesBaseUrl: boolean;
+  requiresApiKey: boolean;
+  defaultBaseUrl: string;
+  // Preselected for new connections and used when none is chosen.
+  defaultModel?: string;
+  // Whether a fixed seed is passed on; other generation params are supported by every provider.
+  supportsSeed: boolean;
+  // Highest temperature the API accepts; the lowest is 0.
+  maxTemperature: number;
+  // How many requests batch jobs may have in flight at once against this provider.
+  maxConcurrentRequests: number;
+  imageLimits: ImageLimits;
+  completeText(request: CompletionRequest, connection?: CustomModelConfig): Promise<string>;
+  completeVision(request: VisionCompletionRequest, connection?: CustomModelConfig): Promise<string>;
+  listModels(connection?: CustomModelConfig): Promise<string[]>;
+  testConnection(connection?: CustomModelConfig): Promise<void>;
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { createLimiter } from './requestQueue';
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('createLimiter', () => {
+    it('never runs more than the limit at once, including callers arriving as a slot frees up', async () => {
+        const limit = 2;
+        const run = createLimiter(limit);
+        let running = 0;
+        let peak = 0;
+        const track = async (work: Promise<unknown>) => {
+            running++;
+            peak = Math.max(peak, running);
+            await work;
+            running--;
+        };
+
+        const releases: (() => void)[] = [];
+        const held = Array.from({ length: limit + 1 }, () => run(() => track(new Promise<void>(resolve => releases.push(resolve)))));
+        await tick();
+        expect(peak).toBe(limit);
+
+        // Free one slot, then keep calling while the waiting task has not resumed yet.
+        releases[0]();
+        const late: Promise<void>[] = [];
+        for (let i = 0; i < 5; i++) {
+            await Promise.resolve();
+            late.push(run(() => track(tick())));
+        }
+        await tick();
+        expect(peak).toBe(limit);
+
+        releases.slice(1).forEach(release => release());
+        await Promise.all([...held, ...late]);
+        expect(peak).toBe(limit);
+    });
+
+    it('starts waiting tasks in order', async () => {
+        const run = createLimiter(1);
+        const order: number[] = [];
+        await Promise.all([1, 2, 3].map(n => run(async () => {
+            order.push(n);
+            await tick();
+        })));
+        expect(order).toEqual([1, 2, 3]);
+    });
+
+    it('drops an aborted waiting task from the queue and keeps the slot count', async () => {
+        const run = createLimiter(1);
+        const controller = new AbortController();
+        let release!: () => void;
+        const blocker = run(() => new Promise<void>(resolve => { release = resolve; }));
+        const aborted = run(async () => 'never', controller.signal);
+        controller.abort();
+        await expect(aborted).rejects.toMatchObject({ name: 'AbortError' });
+
+        release();
+        await blocker;
+        await expect(run(async () => 'next')).resolves.toBe('next');
+    });
+});
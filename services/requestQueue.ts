@@ -0,0 +1,55 @@
+import type { ModelProviderType } from '../types';
+import { createAbortError } from './errors';
+import { getProvider } from './providers';
+
+export type Limiter = <T>(task: () => Promise<T>, signal?: AbortSignal) => Promise<T>;
+
+// Runs at most `limit` tasks at once; the rest wait in order. A waiting task whose signal aborts leaves the queue.
+export function createLimiter(limit: number): Limiter {
+    let active = 0;
+    const waiting: (() => void)[] = [];
+
+    // A freed slot passes straight to the next waiter, so a caller arriving before the waiter resumes cannot take it.
+    const release = () => {
+        const next = waiting.shift();
+        if (next) next();
+        else active--;
+    };
+
+    return async <T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> => {
+        if (signal?.aborted) throw createAbortError();
+        if (active >= limit) {
+            await new Promise<void>((resolve, reject) => {
+                const start = () => {
+                    signal?.removeEventListener('abort', onAbort);
+                    resolve();
+                };
+                const onAbort = () => {
+                    waiting.splice(waiting.indexOf(start), 1);
+                    reject(createAbortError());
+                };
+                waiting.push(start);
+                signal?.addEventListener('abort', onAbort, { once: true });
+            });
+        } else {
+            active++;
+        }
+        try {
+            return await task();
+        } finally {
+            release();
+        }
+    };
+}
+
+// Shared per provider, so batches started one after another do not add up past the limit.
+const limiters = new Map<ModelProviderType, Limiter>();
+
+export const providerLimiter = (provider: ModelProviderType): Limiter => {
+    let limiter = limiters.get(provider);
+    if (!limiter) {
+        limiter = createLimiter(getProvider(provider).maxConcurrentRequests);
+        limiters.set(provider, limiter);
+    }
+    return limiter;
+};
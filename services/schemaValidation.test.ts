@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { Type } from '@google/genai';
+import { validateAgainstSchema } from './schemaValidation';
+
+const cellSchema = { anyOf: [{ type: Type.NUMBER }, { type: Type.STRING }], nullable: true };
+
+const seriesSchema = {
+    type: Type.OBJECT,
+    properties: {
+        chartType: { type: Type.STRING, enum: ['bar', 'line'] },
+        columns: { type: Type.ARRAY, items: { type: Type.STRING } },
+        rows: { type: Type.ARRAY, items: { type: Type.ARRAY, items: cellSchema } },
+    },
+    required: ['chartType', 'rows'],
+};
+
+describe('validateAgainstSchema', () => {
+    it('accepts a value matching the schema', () => {
+        expect(validateAgainstSchema({ chartType: 'bar', columns: ['Year', 'Sales'], rows: [['2023', 12.5]] }, seriesSchema)).toEqual([]);
+    });
+
+    it('accepts numbers, strings and nulls in a nullable union', () => {
+        expect(validateAgainstSchema([1, 'n/a', null], { type: Type.ARRAY, items: cellSchema })).toEqual([]);
+    });
+
+    it('rejects values matching none of the union alternatives', () => {
+        expect(validateAgainstSchema([true, { value: 1 }], { type: Type.ARRAY, items: cellSchema })).toEqual([
+            '[0]: expected number or string but got boolean',
+            '[1]: expected number or string but got object',
+        ]);
+    });
+
+    it('rejects null unless the schema is nullable', () => {
+        expect(validateAgainstSchema(null, { type: Type.STRING })).toEqual(['response: expected string but got null']);
+        expect(validateAgainstSchema(null, { type: Type.STRING, nullable: true })).toEqual([]);
+    });
+
+    it('reports missing required fields and wrong types with their path', () => {
+        expect(validateAgainstSchema({ columns: 'Year', rows: [[1], 'x'] }, seriesSchema)).toEqual([
+            'chartType: required field is missing',
+            'columns: expected array but got string',
+            'rows[1]: expected array but got string',
+        ]);
+    });
+
+    it('checks string enums', () => {
+        expect(validateAgainstSchema({ chartType: 'pie', rows: [] }, seriesSchema)).toEqual([
+            'chartType: expected one of bar, line but got "pie"',
+        ]);
+    });
+
+    it('distinguishes integers from other numbers', () => {
+        expect(validateAgainstSchema(3, { type: Type.INTEGER })).toEqual([]);
+        expect(validateAgainstSchema(3.5, { type: Type.INTEGER })).toEqual(['response: expected integer but got number']);
+        expect(validateAgainstSchema(Number.NaN, { type: Type.NUMBER })).toEqual(['response: expected number but got number']);
+    });
+
+    it('checks booleans', () => {
+        expect(validateAgainstSchema(false, { type: Type.BOOLEAN })).toEqual([]);
+        expect(validateAgainstSchema('true', { type: Type.BOOLEAN })).toEqual(['response: expected boolean but got string']);
+    });
+});
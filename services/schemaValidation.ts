@@ -0,0 +1,78 @@
+import { Type } from '@google/genai';
+
+// Validates parsed model output against the same Gemini-style schema objects that are sent as `responseSchema`,
+// so providers without structured output are held to the same contract. Returns human-readable issues,
+// which are also fed back to the model when asking it to repair its answer.
+
+const describe = (value: unknown): string => {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    return typeof value;
+};
+
+const expected = (schema: any): string =>
+    Array.isArray(schema.anyOf) ? schema.anyOf.map(expected).join(' or ') : String(schema.type).toLowerCase();
+
+const joinPath = (path: string, key: string | number) =>
+    typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+export function validateAgainstSchema(value: unknown, schema: any, path = ''): string[] {
+    const where = path || 'response';
+
+    if (value === undefined || value === null) {
+        return schema.nullable ? [] : [`${where}: expected ${expected(schema)} but got ${describe(value)}`];
+    }
+
+    // A value matches a union when it matches any of its alternatives.
+    if (Array.isArray(schema.anyOf)) {
+        const attempts = schema.anyOf.map((option: any) => validateAgainstSchema(value, option, path));
+        return attempts.some((issues: string[]) => issues.length === 0) ? [] : [`${where}: expected ${expected(schema)} but got ${describe(value)}`];
+    }
+
+    switch (schema.type) {
+        case Type.OBJECT: {
+            if (typeof value !== 'object' || Array.isArray(value)) {
+                return [`${where}: expected object but got ${describe(value)}`];
+            }
+            const record = value as Record<string, unknown>;
+            const issues: string[] = [];
+            for (const key of schema.required || []) {
+                if (record[key] === undefined || record[key] === null) {
+                    issues.push(`${joinPath(path, key)}: required field is missing`);
+                }
+            }
+            for (const [key, propertySchema] of Object.entries<any>(schema.properties || {})) {
+                if (record[key] !== undefined && record[key] !== null) {
+                    issues.push(...validateAgainstSchema(record[key], propertySchema, joinPath(path, key)));
+                }
+            }
+            return issues;
+        }
+        case Type.ARRAY: {
+            if (!Array.isArray(value)) {
+                return [`${where}: expected array but got ${describe(value)}`];
+            }
+            if (!schema.items) return [];
+            return value.flatMap((item, i) => validateAgainstSchema(item, schema.items, joinPath(path, i)));
+        }
+        case Type.STRING: {
+            if (typeof value !== 'string') {
+                return [`${where}: expected string but got ${describe(value)}`];
+            }
+            if (Array.isArray(schema.enum) && !schema.enum.includes(value)) {
+                return [`${where}: expected one of ${schema.enum.join(', ')} but got "${value}"`];
+            }
+            return [];
+        }
+        case Type.NUMBER:
+        case Type.INTEGER:
+            if (typeof value !== 'number' || !Number.isFinite(value) || (schema.type === Type.INTEGER && !Number.isInteger(value))) {
+                return [`${where}: expected ${expected(schema)} but got ${describe(value)}`];
+            }
+            return [];
+        case Type.BOOLEAN:
+            return typeof value === 'boolean' ? [] : [`${where}: expected boolean but got ${describe(value)}`];
+        default:
+            return [];
+    }
+}
@@ -0,0 +1,143 @@
+import type { SpreadsheetOptions } from '../types';
+
+declare const XLSX: any;
+
+// Only the first rows are scanned when guessing which row holds the column headers.
+const HEADER_SCAN_ROWS = 20;
+
+type Cell = string | number | boolean | Date | null;
+
+export interface SheetExtraction {
+    records: Record<string, Cell>[];
+    headers: string[];
+    // 1-based, absolute row number of the header row that was used.
+    headerRow: number;
+    range: string;
+}
+
+const isEmpty = (cell: Cell) => cell === null || cell === undefined || (typeof cell === 'string' && cell.trim() === '');
+
+export const defaultSpreadsheetOptions = (sheetNames: string[]): SpreadsheetOptions => ({
+    sheetName: sheetNames[0],
+    headerRow: null,
+    range: '',
+});
+
+export const getSheetRange = (workbook: any, sheetName: string): string => workbook.Sheets[sheetName]?.['!ref'] || '';
+
+const resolveBounds = (sheet: any, range: string) => {
+    const ref = range.trim() || sheet['!ref'];
+    if (!ref) return null;
+    const bounds = XLSX.utils.decode_range(ref.toUpperCase());
+    if ([bounds.s.r, bounds.s.c, bounds.e.r, bounds.e.c].some(n => !Number.isFinite(n) || n < 0) || bounds.e.r < bounds.s.r || bounds.e.c < bounds.s.c) {
+        throw new Error(`Invalid cell range: "${range}".`);
+    }
+    return bounds;
+};
+
+// Reads the bounded area as rows of cells, copying each merged cell's value into every cell it covers.
+const readGrid = (sheet: any, bounds: any): Cell[][] => {
+    const grid: Cell[][] = XLSX.utils.sheet_to_json(sheet, { header: 1, range: bounds, defval: null, blankrows: true, raw: true });
+    const width = bounds.e.c - bounds.s.c + 1;
+    grid.forEach(row => { while (row.length < width) row.push(null); });
+
+    for (const merge of sheet['!merges'] || []) {
+        const top = merge.s.r - bounds.s.r;
+        const left = merge.s.c - bounds.s.c;
+        const value = grid[top]?.[left] ?? sheet[XLSX.utils.encode_cell(merge.s)]?.v ?? null;
+        for (let r = Math.max(merge.s.r, bounds.s.r); r <= Math.min(merge.e.r, bounds.e.r); r++) {
+            for (let c = Math.max(merge.s.c, bounds.s.c); c <= Math.min(merge.e.c, bounds.e.c); c++) {
+                const row = grid[r - bounds.s.r];
+                if (row) row[c - bounds.s.c] = value;
+            }
+        }
+    }
+    return grid;
+};
+
+const hasNumbers = (row: Cell[] | undefined) => !!row && row.some(cell => typeof cell === 'number');
+
+// The header is the first row (among the first few) that is mostly text and about as wide as the table,
+// which skips title rows and notes placed above the real header. With stacked header rows (group labels
+// above column labels) the last text row right before numeric data wins.
+export const detectHeaderRow = (grid: Cell[][]): number => {
+    const scanned = grid.slice(0, HEADER_SCAN_ROWS);
+    const widest = Math.max(0, ...scanned.map(row => row.filter(cell => !isEmpty(cell)).length));
+    const isHeaderLike = (row: Cell[]) => {
+        const filled = row.filter(cell => !isEmpty(cell));
+        const textCells = filled.filter(cell => typeof cell === 'string').length;
+        return filled.length >= Math.max(1, widest * 0.6) && textCells >= filled.length * 0.6;
+    };
+
+    for (let i = 0; i < scanned.length - 1; i++) {
+        if (!isHeaderLike(scanned[i])) continue;
+        let header = i;
+        while (header + 2 < grid.length && isHeaderLike(grid[header + 1]) && !hasNumbers(grid[header + 1]) && hasNumbers(grid[header + 2])) {
+            header++;
+        }
+        return header;
+    }
+    return 0;
+};
+
+// Builds unique column names. When the row above the header holds horizontally merged group labels
+// (e.g. "2023" spanning "Q1".."Q4"), they are prefixed to the column names.
+const buildHeaders = (grid: Cell[][], headerIndex: number, sheet: any, bounds: any): string[] => {
+    const headerRow = grid[headerIndex];
+    const groupRow = headerIndex > 0 ? grid[headerIndex - 1] : null;
+    const groupRowAbs = bounds.s.r + headerIndex - 1;
+    const groupedColumns = new Set<number>();
+    for (const merge of sheet['!merges'] || []) {
+        if (merge.s.r <= groupRowAbs && merge.e.r === groupRowAbs && merge.e.c > merge.s.c) {
+            for (let c = merge.s.c; c <= merge.e.c; c++) groupedColumns.add(c - bounds.s.c);
+        }
+    }
+
+    const used = new Map<string, number>();
+    return headerRow.map((cell, i) => {
+        let name = isEmpty(cell) ? '' : String(cell).trim();
+        const group = groupRow && groupedColumns.has(i) && !isEmpty(groupRow[i]) ? String(groupRow[i]).trim() : '';
+        if (group && group !== name) name = name ? `${group} ${name}` : group;
+        if (!name) name = `Column ${i + 1}`;
+
+        const count = used.get(name) || 0;
+        used.set(name, count + 1);
+        return count === 0 ? name : `${name}_${count + 1}`;
+    });
+};
+
+export function extractSheetData(workbook: any, options: SpreadsheetOptions, maxRows?: number): SheetExtraction {
+    const sheet = workbook.Sheets[options.sheetName];
+    if (!sheet) {
+        throw new Error(`Sheet "${options.sheetName}" was not found in the workbook.`);
+    }
+    const bounds = resolveBounds(sheet, options.range);
+    if (!bounds) {
+        return { records: [], headers: [], headerRow: 1, range: '' };
+    }
+
+    // A preview only needs the rows up to the header plus maxRows, not the whole sheet. Empty rows are skipped
+    // below, so a preview may show fewer rows than asked for.
+    const lastHeaderRow = options.headerRow !== null ? options.headerRow - 1 : bounds.s.r + HEADER_SCAN_ROWS;
+    const readBounds = maxRows !== undefined
+        ? { s: bounds.s, e: { ...bounds.e, r: Math.max(bounds.s.r, Math.min(bounds.e.r, lastHeaderRow + maxRows)) } }
+        : bounds;
+    const grid = readGrid(sheet, readBounds);
+    const headerIndex = options.headerRow !== null
+        ? options.headerRow - 1 - bounds.s.r
+        : detectHeaderRow(grid);
+    if (headerIndex < 0 || headerIndex >= grid.length) {
+        throw new Error(`Header row ${options.headerRow} is outside the selected range.`);
+    }
+
+    const headers = buildHeaders(grid, headerIndex, sheet, bounds);
+    const dataRows = grid.slice(headerIndex + 1).filter(row => row.some(cell => !isEmpty(cell)));
+    const limited = maxRows !== undefined ? dataRows.slice(0, maxRows) : dataRows;
+    const records = limited.map(row => {
+        const record: Record<string, Cell> = {};
+        headers.forEach((header, i) => { record[header] = isEmpty(row[i]) ? null : row[i]; });
+        return record;
+    });
+
+    return { records, headers, headerRow: bounds.s.r + headerIndex + 1, range: XLSX.utils.encode_range(bounds) };
+}
@@ -10,16 +10,188 @@ export interface ChartRecommendation {
   title: string;
   reason: string;
   config: any;
+  // Applied to the dataset before charting; config fields refer to the transformed columns.
+  transform?: TransformStep[];
 }
 
+export type FilterOperator = 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'contains';
+export type AggregateOperation = 'sum' | 'mean' | 'count' | 'min' | 'max';
+
+export interface FilterCondition {
+  field: string;
+  operator: FilterOperator;
+  value: string | number;
+}
+
+export interface Aggregation {
+  field: string;
+  op: AggregateOperation;
+  // Output column name; defaults to the source field.
+  as?: string;
+}
+
+export type DateBucketUnit = 'day' | 'week' | 'month' | 'quarter' | 'year';
+
+export type TransformStep =
+  // Keeps rows matching every condition.
+  | { type: 'filter'; conditions: FilterCondition[] }
+  | { type: 'aggregate'; groupBy: string[]; aggregations: Aggregation[] }
+  // Long to wide: one row per index combination and one column per distinct value of `columns`.
+  | { type: 'pivot'; index: string[]; columns: string; values: string; op: AggregateOperation }
+  // Wide to long: each of `fields` becomes its own row holding the field name and value.
+  | { type: 'unpivot'; fields: string[]; keyName: string; valueName: string }
+  | { type: 'sort'; field: string; direction: 'asc' | 'desc' }
+  // Keeps the `n` rows with the highest (or lowest, for 'asc') values of `field`.
+  | { type: 'topN'; field: string; n: number; direction: 'asc' | 'desc' }
+  // Adds a column computed from an arithmetic expression over other columns, e.g. "[Revenue] - [Cost]".
+  | { type: 'compute'; as: string; expression: string }
+  // Replaces dates with period labels such as "2023-05" or "2023-Q2"; written to `as` when given.
+  | { type: 'dateBucket'; field: string; unit: DateBucketUnit; as?: string };
+
+// A chart pinned to the dashboard, with its size in grid cells.
+export interface DashboardItem {
+  id: string;
+  recommendation: ChartRecommendation;
+  colSpan: number;
+  rowSpan: number;
+}
+
+export interface Dashboard {
+  title: string;
+  // Free text shown above the charts; starts as the model's data analysis.
+  notes: string;
+  items: DashboardItem[];
+}
+
+// Saved form of a dashboard. It holds no rows and is applied to the dataset it was built from.
+export interface DashboardSpec extends Dashboard {
+  version: 1;
+  sourceName: string;
+  createdAt: number;
+}
+
+// A value picked by clicking a chart element; other charts with the same field are filtered to it.
+export interface CrossFilter {
+  field: string;
+  value: string | number;
+  sourceId: string;
+}
+
+
+export interface SpreadsheetOptions {
+  sheetName: string;
+  // 1-based row number as shown in Excel; null means detect it automatically.
+  headerRow: number | null;
+  // A1-style range such as "B3:F120"; empty means the sheet's used range.
+  range: string;
+}
+
+export type ColumnKind = 'numeric' | 'categorical' | 'temporal' | 'geo' | 'empty';
+
+export interface ColumnProfile {
+  name: string;
+  kind: ColumnKind;
+  nullCount: number;
+  distinctCount: number;
+  // Most frequent values for categorical and geo columns.
+  topValues?: { value: string; count: number }[];
+  min?: number;
+  max?: number;
+  mean?: number;
+  median?: number;
+  stdDev?: number;
+  outlierCount?: number;
+  // ISO dates for temporal columns.
+  minDate?: string;
+  maxDate?: string;
+  geoRole?: 'latitude' | 'longitude' | 'place';
+}
+
+export interface DataProfile {
+  rowCount: number;
+  columns: ColumnProfile[];
+}
+
+export interface DataColumn {
+  name: string;
+  unit?: string;
+}
+
+export type DataCell = string | number | null;
+
+export interface ExtractedDataSeries {
+  chartType: string;
+  title?: string;
+  xAxisLabel?: string;
+  yAxisLabel?: string;
+  columns: DataColumn[];
+  rows: DataCell[][];
+}
 
 export interface ExtractedDataResponse {
     isChart: boolean;
     report?: string;
     reason?: string;
+    data?: ExtractedDataSeries;
+}
+
+export interface ReplotRequest {
+  id: number;
+  series: ExtractedDataSeries;
+  imageSrc: string;
+  sourceName: string;
+}
+
+// What produced a result, recorded with every history entry.
+export interface RunMetadata {
+  // SHA-256 of the input, so runs over the same file can be recognised.
+  fingerprint: string;
+  sourceName: string;
+  provider: ModelProviderType;
+  model: string;
+  promptVersion: string;
+  // SHA-256 and snapshot of the template text; missing on entries saved before they were recorded.
+  promptHash?: string;
+  promptText?: string;
+}
+
+interface HistoryEntryBase extends RunMetadata {
+  id: string;
+  // User-editable label; defaults to the source name.
+  name: string;
+  createdAt: number;
+}
+
+export interface DataToGraphHistoryEntry extends HistoryEntryBase {
+  mode: Mode.DATA_TO_GRAPH;
+  dataAnalysis: string;
+  recommendations: ChartRecommendation[];
+  data: any[];
+  profile: DataProfile;
+}
+
+export interface GraphToDataHistoryEntry extends HistoryEntryBase {
+  mode: Mode.GRAPH_TO_DATA;
+  report: string;
+  series: ExtractedDataSeries | null;
+  imageSrc: string;
 }
 
-export type ModelProviderType = 'google' | 'custom';
+export type HistoryEntry = DataToGraphHistoryEntry | GraphToDataHistoryEntry;
+
+// What the history list shows, stored apart from the entry so listing does not load datasets and images.
+export type HistorySummary = Omit<HistoryEntryBase, 'promptText'> & { mode: Mode };
+
+// Asks a panel to show a stored run again; the id makes reopening the same entry twice observable.
+export interface ReopenRequest<T extends HistoryEntry = HistoryEntry> {
+  id: number;
+  entry: T;
+}
+
+// 'custom' is the OpenAI-compatible provider; the id is kept for configs saved before other providers existed.
+export const MODEL_PROVIDER_IDS = ['google', 'custom', 'anthropic', 'ollama'] as const;
+
+export type ModelProviderType = typeof MODEL_PROVIDER_IDS[number];
 
 export interface CustomModelConfig {
   baseUrl: string;
@@ -27,12 +199,48 @@ export interface CustomModelConfig {
   model: string;
 }
 
-export interface ProviderConfig {
+// Connection settings are stored per provider so switching providers does not lose them. Gemini ignores the
+// base URL and falls back to the build-time API key when none is entered.
+export type ProviderConnections = {
+  [K in ModelProviderType]?: CustomModelConfig;
+};
+
+// Sampling settings sent with every request; unset values leave the provider's default in place.
+export interface GenerationParams {
+  temperature?: number;
+  maxTokens?: number;
+  seed?: number;
+}
+
+export interface ProviderConfig extends ProviderConnections {
   provider: ModelProviderType;
-  custom?: CustomModelConfig;
+  // How long to wait for the model before giving up; the request layer's default when unset.
+  timeoutSeconds?: number;
+  generation?: GenerationParams;
+}
+
+export type ModelFeature = 'dataToGraph' | 'graphToData';
+
+// A named provider setup, e.g. a staging or production endpoint, that either feature can switch to.
+export interface ModelProfile {
+  id: string;
+  name: string;
+  config: ProviderConfig;
 }
 
 export interface ModelConfig {
     dataToGraph: ProviderConfig;
     graphToData: ProviderConfig;
+    profiles?: ModelProfile[];
+    // The profile each feature's settings were last taken from or saved to.
+    activeProfileIds?: { [feature in ModelFeature]?: string };
+}
+
+// A shareable file of profiles.
+export interface ModelProfilesFile {
+  version: 1;
+  kind: 'model-profiles';
+  exportedAt: string;
+  includesKeys: boolean;
+  profiles: ModelProfile[];
 }
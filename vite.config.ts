@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
@@ -10,6 +11,10 @@ export default defineConfig(({ mode }) => {
         host: '0.0.0.0',
       },
       plugins: [react()],
+      // The data parser is a module worker (it imports services and ES module builds of XLSX and Papa).
+      worker: {
+        format: 'es',
+      },
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
@@ -18,6 +23,12 @@ export default defineConfig(({ mode }) => {
         alias: {
           '@': path.resolve(__dirname, '.'),
         }
-      }
+      },
+      // Unit tests sit next to the services they cover. Tests that need the DOM opt in with
+      // a `// @vitest-environment happy-dom` comment.
+      test: {
+        include: ['services/**/*.test.ts', 'hooks/**/*.test.ts'],
+        environment: 'node',
+      },
     };
 });
@@ -0,0 +1,143 @@
+/// <reference lib="webworker" />
+import type { ParseProgress, ParseRequest, ParseResult, SheetPreview, WorkerRequest, WorkerResponse } from '../services/parserClient';
+import { defaultSpreadsheetOptions, extractSheetData, getSheetRange } from '../services/spreadsheet';
+
+// Module worker: the parsing libraries are loaded as ES modules from the CDN, pinned to the same versions as the
+// scripts in index.html. services/spreadsheet reads XLSX as a global, so the module is published on the
+// worker's global scope.
+const XLSX_MODULE_URL = 'https://unpkg.com/xlsx@0.18.5/xlsx.mjs';
+const PAPA_MODULE_URL = 'https://esm.sh/papaparse@5.4.1';
+
+declare const self: DedicatedWorkerGlobalScope & { XLSX?: any };
+
+let XLSX: any;
+let Papa: any;
+
+const librariesReady = Promise.all([
+    import(/* @vite-ignore */ XLSX_MODULE_URL),
+    import(/* @vite-ignore */ PAPA_MODULE_URL),
+]).then(([xlsx, papa]) => {
+    XLSX = xlsx;
+    Papa = papa.default;
+    self.XLSX = xlsx;
+});
+
+// Every reply goes through here so it is checked against the response union.
+const post = (message: WorkerResponse) => self.postMessage(message);
+
+const CSV_CHUNK_SIZE = 1024 * 1024 * 4;
+
+const reportProgress = (progress: ParseProgress) => post({ type: 'progress', progress });
+
+// Keeps a uniform random sample of at most `cap` rows from a stream of unknown length (reservoir sampling),
+// remembering each row's position so the sample can be returned in file order.
+class RowReservoir {
+    private items: { index: number; row: any }[] = [];
+    private seen = 0;
+
+    constructor(private readonly cap: number) {}
+
+    add(row: any) {
+        if (this.items.length < this.cap) {
+            this.items.push({ index: this.seen, row });
+        } else {
+            const j = Math.floor(Math.random() * (this.seen + 1));
+            if (j < this.cap) this.items[j] = { index: this.seen, row };
+        }
+        this.seen++;
+    }
+
+    result(): ParseResult {
+        const sampled = this.seen > this.cap;
+        const items = sampled ? [...this.items].sort((a, b) => a.index - b.index) : this.items;
+        return { rows: items.map(item => item.row), totalRows: this.seen, sampled };
+    }
+}
+
+// For fully loaded arrays: evenly spaced rows keep the shape of the data over its whole length.
+const capRows = (rows: any[], cap: number): ParseResult => {
+    if (rows.length <= cap) return { rows, totalRows: rows.length, sampled: false };
+    reportProgress({ stage: 'sampling', fraction: null });
+    const step = rows.length / cap;
+    return { rows: Array.from({ length: cap }, (_, i) => rows[Math.floor(i * step)]), totalRows: rows.length, sampled: true };
+};
+
+const parseCsv = (blob: Blob, cap: number) => new Promise<ParseResult>((resolve, reject) => {
+    const reservoir = new RowReservoir(cap);
+    Papa.parse(blob, {
+        header: true,
+        skipEmptyLines: true,
+        dynamicTyping: true,
+        chunkSize: CSV_CHUNK_SIZE,
+        chunk: (results: any, parser: any) => {
+            if (results.errors.length) {
+                parser.abort();
+                reject(new Error(`CSV Parsing Error: ${results.errors[0].message}`));
+                return;
+            }
+            results.data.forEach((row: any) => reservoir.add(row));
+            reportProgress({ stage: 'parsing', fraction: blob.size ? Math.min(1, results.meta.cursor / blob.size) : null });
+        },
+        complete: () => resolve(reservoir.result()),
+        error: (err: any) => reject(new Error(`CSV Parsing Error: ${err?.message || err}`)),
+    });
+});
+
+const loadWorkbook = async (blob: Blob) => {
+    reportProgress({ stage: 'reading', fraction: null });
+    const buffer = await blob.arrayBuffer();
+    reportProgress({ stage: 'parsing', fraction: null });
+    return XLSX.read(buffer);
+};
+
+async function parse(request: ParseRequest): Promise<ParseResult> {
+    await librariesReady;
+    const blob = request.source;
+    switch (request.format) {
+        case 'csv':
+            return parseCsv(blob, request.rowCap);
+        case 'json': {
+            reportProgress({ stage: 'parsing', fraction: null });
+            const data = JSON.parse(await blob.text());
+            if (!Array.isArray(data)) {
+                throw new Error('JSON data must be an array of records.');
+            }
+            return capRows(data, request.rowCap);
+        }
+        case 'xlsx': {
+            const workbook = await loadWorkbook(blob);
+            const options = request.spreadsheetOptions || defaultSpreadsheetOptions(workbook.SheetNames);
+            return capRows(extractSheetData(workbook, options).records, request.rowCap);
+        }
+    }
+}
+
+// A spreadsheet session keeps its workbook here, so previews only send the first rows back to the page.
+let openWorkbook: any = null;
+
+const previewSheet = (options: SheetPreview['options'], maxRows: number): SheetPreview => {
+    const sheetRange = getSheetRange(openWorkbook, options.sheetName);
+    try {
+        return { options, sheetRange, extraction: extractSheetData(openWorkbook, options, maxRows), error: null };
+    } catch (err) {
+        return { options, sheetRange, extraction: null, error: err instanceof Error ? err.message : String(err) };
+    }
+};
+
+self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+    const message = event.data;
+    try {
+        if (message.type === 'parse') {
+            post({ type: 'result', result: await parse(message.request) });
+        } else if (message.type === 'openWorkbook') {
+            await librariesReady;
+            openWorkbook = await loadWorkbook(message.source);
+            post({ type: 'sheets', id: message.id, sheetNames: openWorkbook.SheetNames });
+        } else if (message.type === 'previewSheet') {
+            if (!openWorkbook) throw new Error('No workbook is open.');
+            post({ type: 'preview', id: message.id, preview: previewSheet(message.options, message.maxRows) });
+        }
+    } catch (err) {
+        post({ type: 'error', id: 'id' in message ? message.id : undefined, message: err instanceof Error ? err.message : String(err) });
+    }
+};